@@ -1,66 +1,224 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Asset, AssetType, Platform } from './types';
-import { PLATFORMS } from './constants';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { AIEngine, Asset, AssetType, ExportFormat, Language, Metadata, MetadataVersion, Platform, Project, PromptPreset, PromptUsage, ProviderConfig } from './types';
+import { PLATFORMS, EXPORT_FORMATS, LANGUAGES, DEFAULT_PROJECT_ID, ESTIMATED_TOKENS_PER_JOB, ESTIMATED_TOKENS_PER_TEXT_REQUEST, MAX_JOB_RETRIES } from './constants';
 import { generateAssetMetadata } from './services/geminiService';
+import { dismissFlag, mergeRightsAssessment, setEditorial, setMature } from './services/rightsService';
+import { toggleOverride } from './services/ipScreeningService';
+import { buildCSV, buildTaggedZip, buildTranslationsCSV, csvFilename, hasLocalizedColumns, zipFilename } from './services/exportService';
+import { readEmbeddedMetadata } from './services/xmpService';
+import { loadGlossary, mergeGlossary, needsTranslation, saveGlossary, translateMetadata, updateLocalizedField, withLocalized } from './services/translationService';
+import { readExif } from './services/exifService';
+import { reverseGeocode } from './services/gazetteer';
+import { findPreset, loadPromptPresets, presetFromUsage, promptUsage, savePromptPresets } from './services/promptTemplateService';
+import { createRevision, revisionLabel } from './services/revisionService';
+import { applySnapshots, ChangeLabel, diffAssets, pushUndoEntry, UndoEntry, withVersion } from './services/historyService';
+import { applyBulkEdit, BulkOperation, describeBulkOperation } from './services/bulkEditService';
+import { CsvImport, isCsvFile, mergeImportedMetadata, parseMetadataCSV, planImport } from './services/csvImportService';
+import { hasMetadata, normalizeMetadata, updateMetadataField } from './services/metadataService';
+import { probeVideo } from './services/videoService';
+import { pairVectorFiles, rasterizeSvg, isSvgFile, isVectorSource } from './services/vectorService';
+import { createProvider, errorMessage, errorStatus, loadProviderConfigs, MetadataProvider, saveProviderConfigs, withRequestBudget } from './services/providers';
+import { loadAssets, saveAssetFiles, saveAssetRecords, deleteAssets, clearAssets, duplicateProjectAssets, getStorageUsage, requestPersistentStorage, formatBytes, StorageQuotaError, StorageUsage } from './services/assetStore';
+import { createProject, loadProjects, saveProjects, loadActiveProjectId, saveActiveProjectId, loadQueuedAssetIds, saveQueuedAssetIds } from './services/projectStore';
+import { createJobQueue, JobQueue, QueueSnapshot } from './services/jobQueue';
+import { buildComplianceReport, ComplianceEntry } from './services/validationService';
+import { isExtensionContext, loadGeminiKey, saveGeminiKey } from './services/extensionBridge';
+import { DuplicateGroup, fillExactCopies, findDuplicateGroups, findExactDuplicates, fingerprintAsset, reuseMetadata } from './services/duplicateService';
 import { AssetItem } from './components/AssetItem';
 import { UserGuide } from './components/UserGuide';
+import { ProjectSwitcher } from './components/ProjectSwitcher';
+import { ProviderSettings } from './components/ProviderSettings';
+import { QueueProgress } from './components/QueueProgress';
+import { ComplianceReport } from './components/ComplianceReport';
+import { ExtensionBar } from './components/ExtensionBar';
+import { DuplicateGroups } from './components/DuplicateGroups';
+import { BulkEditPanel } from './components/BulkEditPanel';
+import { VersionHistory } from './components/VersionHistory';
+import { PromptPresets } from './components/PromptPresets';
 
-type AIEngine = 'gemini' | 'groq';
+// Translation jobs share the generation queue, told apart by this id prefix
+const TRANSLATION_JOB = 'translate:';
 
 const App: React.FC = () => {
+  const [projects, setProjects] = useState<Project[]>(() => loadProjects((localStorage.getItem('tabo_engine') as AIEngine) || 'gemini'));
+  const [activeProjectId, setActiveProjectId] = useState<string>(() => loadActiveProjectId(projects));
+  const activeProject = projects.find(p => p.id === activeProjectId) || projects[0];
   const [assets, setAssets] = useState<Asset[]>([]);
-  const [platform, setPlatform] = useState<Platform>('Shutterstock');
-  const [isGenerating, setIsGenerating] = useState(false);
+  const [platform, setPlatform] = useState<Platform>(activeProject.platform);
+  const [queueSnapshot, setQueueSnapshot] = useState<QueueSnapshot | null>(null);
+  const isGenerating = Boolean(queueSnapshot && queueSnapshot.state !== 'idle');
   const [isDraggingGlobally, setIsDraggingGlobally] = useState(false);
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [showGuide, setShowGuide] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [complianceReport, setComplianceReport] = useState<ComplianceEntry[] | null>(null);
+  // Which export the compliance report is holding back
+  const [pendingExport, setPendingExport] = useState<'csv' | 'zip'>('csv');
+  const [isZipping, setIsZipping] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<UndoEntry[]>([]);
+  const [historyAssetId, setHistoryAssetId] = useState<string | null>(null);
   
   // Key States
   const [hasGeminiKey, setHasGeminiKey] = useState(false);
   const [isGeminiInvalid, setIsGeminiInvalid] = useState(false);
-  const [isGroqLocked, setIsGroqLocked] = useState(true);
-  const [isGroqInvalid, setIsGroqInvalid] = useState(false);
+  const [isKeyLocked, setIsKeyLocked] = useState(true);
+  const [isKeyInvalid, setIsKeyInvalid] = useState(false);
   
-  const [activeEngine, setActiveEngine] = useState<AIEngine>(() => {
-    return (localStorage.getItem('tabo_engine') as AIEngine) || 'gemini';
+  const [providerConfigs, setProviderConfigs] = useState<ProviderConfig[]>(loadProviderConfigs);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [promptPresets, setPromptPresets] = useState<PromptPreset[]>(loadPromptPresets);
+  const [showPromptPresets, setShowPromptPresets] = useState(false);
+  const [languages, setLanguages] = useState<Language[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem('tabo_languages') || '[]');
+      return Array.isArray(saved) ? saved.filter((l: Language) => LANGUAGES.some(x => x.code === l)) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+  const [autoTranslate, setAutoTranslate] = useState<boolean>(() => localStorage.getItem('tabo_auto_translate') === 'true');
+  const [glossary, setGlossary] = useState(loadGlossary);
+  const activePreset = findPreset(promptPresets, activeProject.promptPresetId);
+  const [activeEngine, setActiveEngine] = useState<AIEngine>(activeProject.engine);
+  const activeConfig = providerConfigs.find(p => p.id === activeEngine) || providerConfigs[0];
+  const activeKey = activeConfig.apiKey || '';
+  // Local engines talk to localhost and keep working without internet
+  const canGenerate = isOnline || Boolean(activeConfig.local);
+  const [generateAllPlatforms, setGenerateAllPlatforms] = useState<boolean>(() => localStorage.getItem('tabo_all_platforms') === 'true');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(() => {
+    return (localStorage.getItem('tabo_export_format') as ExportFormat) || 'Contributor-specific CSV';
   });
-  const [groqKey, setGroqKey] = useState<string>(() => localStorage.getItem('tabo_groq_key') || '');
 
   // 1. Persistence & Startup Checks
   useEffect(() => {
     const checkKeys = async () => {
-      if (window.aistudio?.hasSelectedApiKey) {
+      if (isExtensionContext()) {
+        setHasGeminiKey(await loadGeminiKey());
+      } else if (window.aistudio?.hasSelectedApiKey) {
         const selected = await window.aistudio.hasSelectedApiKey();
         setHasGeminiKey(selected);
       }
     };
     checkKeys();
 
-    const savedAssets = localStorage.getItem('autometagen_pipeline');
-    if (savedAssets) {
+    const restorePipeline = async () => {
       try {
-        const parsed = JSON.parse(savedAssets);
-        setAssets(parsed.map((a: any) => ({ ...a, file: new File([], a.name) })));
+        let restored = await restoreProjectAssets(activeProject);
+        const legacy = localStorage.getItem('autometagen_pipeline');
+        if (restored.length === 0 && legacy && activeProjectId === DEFAULT_PROJECT_ID) {
+          // Pipelines saved before IndexedDB persistence only kept metadata
+          restored = JSON.parse(legacy).map((a: any) => ({
+            ...a,
+            file: new File([], a.name),
+            metadata: normalizeMetadata(a.metadata, activeProject.platform),
+          }));
+          await saveAssetRecords(activeProjectId, restored);
+        }
+        localStorage.removeItem('autometagen_pipeline');
+        setAssets(requeueSavedJobs(activeProjectId, restored));
+        fingerprintAssets(restored.filter(a => !a.fingerprint && a.file.size > 0));
       } catch (e) {
         console.error("Failed to restore pipeline", e);
+      } finally {
+        setIsHydrated(true);
       }
-    }
+      requestPersistentStorage().catch(() => false);
+    };
+    restorePipeline();
+  }, []);
+
+  const restoreProjectAssets = async (project: Project): Promise<Asset[]> => {
+    const loaded = await loadAssets(project.id);
+    return loaded.map(a => ({ ...a, metadata: normalizeMetadata(a.metadata, project.platform) }));
+  };
+
+  // Jobs left unfinished by a reload come back paused so nothing runs unasked
+  const requeueSavedJobs = (projectId: string, loaded: Asset[]): Asset[] => {
+    const ids = loadQueuedAssetIds(projectId).filter(id => loaded.some(a => a.id === id));
+    if (ids.length === 0) return loaded;
+    getQueue().enqueue(ids, true);
+    return loaded.map(a => ids.includes(a.id) ? { ...a, status: 'pending', error: undefined } : a);
+  };
+
+  const refreshStorageUsage = useCallback(() => {
+    getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, []);
+
+  const handleStorageError = useCallback((error: unknown) => {
+    console.error(error);
+    setStorageError(error instanceof StorageQuotaError ? error.message : 'Failed to save pipeline to browser storage.');
   }, []);
 
   useEffect(() => {
-    const dataToSave = assets.map(({ file, previewUrl, ...rest }) => rest);
-    localStorage.setItem('autometagen_pipeline', JSON.stringify(dataToSave));
-  }, [assets]);
+    if (!isHydrated) return;
+    const timer = setTimeout(() => {
+      saveAssetRecords(activeProjectId, assets).then(refreshStorageUsage).catch(handleStorageError);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [assets, isHydrated, activeProjectId, refreshStorageUsage, handleStorageError]);
 
   useEffect(() => {
+    if (!isHydrated || !queueRef.current) return;
+    saveQueuedAssetIds(activeProjectId, queueRef.current.unfinishedIds());
+  }, [queueSnapshot, isHydrated, activeProjectId]);
+
+  useEffect(() => {
+    saveProjects(projects);
+  }, [projects]);
+
+  useEffect(() => {
+    saveActiveProjectId(activeProjectId);
+  }, [activeProjectId]);
+
+  // Platform and engine are per-project settings
+  useEffect(() => {
+    setProjects(prev => prev.map(p => p.id === activeProjectId && (p.platform !== platform || p.engine !== activeEngine)
+      ? { ...p, platform, engine: activeEngine, updatedAt: Date.now() }
+      : p
+    ));
     localStorage.setItem('tabo_engine', activeEngine);
-  }, [activeEngine]);
+  }, [platform, activeEngine, activeProjectId]);
+
+  useEffect(() => {
+    saveProviderConfigs(providerConfigs);
+    localStorage.removeItem('tabo_groq_key');
+  }, [providerConfigs]);
+
+  useEffect(() => {
+    savePromptPresets(promptPresets);
+  }, [promptPresets]);
 
   useEffect(() => {
-    localStorage.setItem('tabo_groq_key', groqKey);
-  }, [groqKey]);
+    localStorage.setItem('tabo_languages', JSON.stringify(languages));
+    localStorage.setItem('tabo_auto_translate', String(autoTranslate));
+  }, [languages, autoTranslate]);
+
+  useEffect(() => {
+    saveGlossary(glossary);
+  }, [glossary]);
+
+  const updateActiveProject = (patch: Partial<Project>) => {
+    setProjects(prev => prev.map(p => p.id === activeProjectId ? { ...p, ...patch, updatedAt: Date.now() } : p));
+  };
+
+  const updateProviderConfig = (id: string, patch: Partial<ProviderConfig>) => {
+    setProviderConfigs(prev => prev.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  useEffect(() => {
+    localStorage.setItem('tabo_export_format', exportFormat);
+  }, [exportFormat]);
+
+  useEffect(() => {
+    localStorage.setItem('tabo_all_platforms', String(generateAllPlatforms));
+  }, [generateAllPlatforms]);
 
   // 2. Connectivity & PWA
   useEffect(() => {
@@ -83,7 +241,14 @@ const App: React.FC = () => {
   }, []);
 
   const handleSelectGeminiKey = async () => {
-    if (window.aistudio?.openSelectKey) {
+    // The side panel has no AI Studio key picker
+    if (isExtensionContext()) {
+      const key = window.prompt('Paste your Gemini API key. It is stored in this browser profile only.')?.trim();
+      if (!key) return;
+      await saveGeminiKey(key);
+      setHasGeminiKey(true);
+      setIsGeminiInvalid(false);
+    } else if (window.aistudio?.openSelectKey) {
       await window.aistudio.openSelectKey();
       setHasGeminiKey(true);
       setIsGeminiInvalid(false);
@@ -91,10 +256,15 @@ const App: React.FC = () => {
   };
 
   const isKeyValid = useCallback(() => {
-    if (activeEngine === 'gemini') return hasGeminiKey && !isGeminiInvalid;
-    if (activeEngine === 'groq') return groqKey.trim().length >= 10 && !isGroqInvalid;
-    return false;
-  }, [activeEngine, hasGeminiKey, isGeminiInvalid, groqKey, isGroqInvalid]);
+    if (activeConfig.kind === 'gemini') return hasGeminiKey && !isGeminiInvalid;
+    if (!activeConfig.requiresKey) return !isKeyInvalid;
+    return activeKey.trim().length >= 10 && !isKeyInvalid;
+  }, [activeConfig, hasGeminiKey, isGeminiInvalid, activeKey, isKeyInvalid]);
+
+  const promptForKey = () => {
+    if (activeConfig.kind === 'gemini') handleSelectGeminiKey();
+    else alert(`Please enter and lock a valid ${activeConfig.label} API Key first.`);
+  };
 
   const handleInstallClick = async () => {
     if (!deferredPrompt) return;
@@ -105,104 +275,310 @@ const App: React.FC = () => {
 
   const detectAssetType = (file: File): AssetType => {
     if (file.type.startsWith('video/') || file.name.match(/\.(mp4|mov)$/i)) return 'Video';
-    if (file.type.includes('svg') || file.name.match(/\.svg$/i)) return 'Vector';
+    if (isSvgFile(file) || isVectorSource(file)) return 'Vector';
     return 'Photo';
   };
 
-  const addAssetsFromFiles = useCallback((files: File[]) => {
-    if (!isKeyValid()) {
-      if (activeEngine === 'gemini') {
-        handleSelectGeminiKey();
-      } else {
-        alert("Please enter and lock a valid Groq API Key first.");
+  // Probed one at a time: measuring the frame rate briefly plays each clip
+  const probeVideoAssets = async (videoAssets: Asset[]) => {
+    for (const asset of videoAssets) {
+      try {
+        const video = await probeVideo(asset.file);
+        setAssets(prev => prev.map(a => a.id === asset.id ? { ...a, video } : a));
+      } catch (e) {
+        console.error(`Failed to probe ${asset.name}`, e);
       }
+    }
+  };
+
+  // Sequential for the same reason; keyframe capture seeks through each clip
+  const fingerprintAssets = async (pending: Asset[]) => {
+    for (const asset of pending) {
+      try {
+        const fingerprint = await fingerprintAsset(asset);
+        setAssets(prev => prev.map(a => a.id === asset.id ? { ...a, fingerprint } : a));
+      } catch (e) {
+        console.error(`Failed to fingerprint ${asset.name}`, e);
+      }
+    }
+  };
+
+  // Rows naming a file in this drop or already in the pipeline fill that
+  // asset; the rest become metadata-only assets to edit and re-export.
+  const importCsvFiles = async (csvFiles: File[], incoming: Asset[]): Promise<{ incoming: Asset[]; created: Asset[] }> => {
+    if (csvFiles.length === 0) return { incoming, created: [] };
+    const imports: CsvImport[] = [];
+    for (const file of csvFiles) {
+      try {
+        imports.push(parseMetadataCSV(await file.text(), platform));
+      } catch (e) {
+        alert(`Could not import ${file.name}: ${errorMessage(e) || 'unreadable CSV'}`);
+      }
+    }
+
+    const { matched, unmatched } = planImport(imports, [...incoming, ...assetsRef.current]);
+    const applyImport = (a: Asset): Asset => matched.has(a.id) && a.status !== 'pending'
+      ? withVersion(a, { ...a, status: 'success', error: undefined, metadata: mergeImportedMetadata(a.metadata, matched.get(a.id)!) }, 'import')
+      : a;
+    setAssets(prev => prev.map(applyImport));
+
+    const created: Asset[] = unmatched.map(row => {
+      const file = new File([], row.filename);
+      const asset: Asset = {
+        id: crypto.randomUUID(),
+        file,
+        name: row.filename,
+        type: detectAssetType(file),
+        status: 'success',
+        metadata: row.metadata,
+        companionName: row.companionName,
+      };
+      return withVersion({ ...asset, metadata: {} }, asset, 'import');
+    });
+    return { incoming: incoming.map(applyImport), created };
+  };
+
+  const addAssetsFromFiles = useCallback(async (files: File[]) => {
+    const csvFiles = files.filter(isCsvFile);
+    const mediaFiles = files.filter(f => !isCsvFile(f));
+    // Importing metadata alone never calls the engine
+    if (mediaFiles.length > 0 && !isKeyValid()) {
+      promptForKey();
       return;
     }
 
-    const newAssets: Asset[] = files.map((file) => ({
-      id: crypto.randomUUID(),
-      file,
-      name: file.name,
-      type: detectAssetType(file),
-      status: 'idle',
-      metadata: { title: '', description: '', keywords: '' },
-      previewUrl: file.type.startsWith('image/') || file.type.startsWith('video/') 
-        ? URL.createObjectURL(file) 
-        : undefined
+    const newAssets: Asset[] = await Promise.all(pairVectorFiles(mediaFiles).map(async ({ file, companion }) => {
+      const rasterFile = companion || (isSvgFile(file)
+        ? await rasterizeSvg(file).catch((e) => {
+            console.error(`Failed to rasterize ${file.name}`, e);
+            return undefined;
+          })
+        : undefined);
+      const previewSource = rasterFile || file;
+      // Files keyworded elsewhere arrive already filled in
+      const embedded = await readEmbeddedMetadata(companion || file).catch(() => null);
+      const exif = await readExif(companion || file).catch(() => null);
+      const asset: Asset = {
+        id: crypto.randomUUID(),
+        file,
+        name: file.name,
+        type: detectAssetType(file),
+        status: embedded ? 'success' : 'idle',
+        metadata: embedded ? { [platform]: embedded } : {},
+        rasterFile,
+        companionName: companion?.name,
+        exif: exif || undefined,
+        location: (exif?.gps && reverseGeocode(exif.gps)) || undefined,
+        previewUrl: previewSource.type.startsWith('image/') || previewSource.type.startsWith('video/') 
+          ? URL.createObjectURL(previewSource) 
+          : undefined
+      };
+      return embedded ? withVersion({ ...asset, metadata: {} }, asset, 'import') : asset;
     }));
-    setAssets((prev) => [...newAssets, ...prev]);
-  }, [isKeyValid, activeEngine]);
+    const { incoming, created } = await importCsvFiles(csvFiles, newAssets);
+    const added = [...incoming, ...created];
+    if (added.length === 0) return;
+    setAssets((prev) => [...added, ...prev]);
+    saveAssetFiles(activeProjectId, added).then(refreshStorageUsage).catch(handleStorageError);
+    probeVideoAssets(incoming.filter(a => a.type === 'Video')).then(() => fingerprintAssets(incoming));
+  }, [isKeyValid, activeConfig, activeProjectId, platform, refreshStorageUsage, handleStorageError]);
 
-  const runGeneration = async (targetAsset: Asset) => {
-    if (!navigator.onLine) {
-      setAssets(prev => prev.map(a => a.id === targetAsset.id ? { ...a, status: 'error', error: 'No internet connection' } : a));
-      return;
+  const generateForAsset = async (id: string, signal: AbortSignal) => {
+    const targetAsset = assetsRef.current.find(a => a.id === id);
+    if (!targetAsset) return;
+    if (!navigator.onLine && !activeConfig.local) throw new Error('No internet connection');
+
+    const targetPlatforms = generateAllPlatforms ? PLATFORMS : [platform];
+    const { metadata, rights, video } = await generateAssetMetadata(targetAsset, targetPlatforms, {
+      provider: budgetedProvider(),
+      signal,
+      preset: activePreset,
+      notes: activeProject.notes,
+    });
+    if (signal.aborted) return;
+
+    // Success: Auto-lock and Mark as Valid
+    if (activeConfig.kind === 'gemini') {
+      setHasGeminiKey(true);
+      setIsGeminiInvalid(false);
+    } else {
+      setIsKeyLocked(true);
+      setIsKeyInvalid(false);
     }
 
-    try {
-      const metadata = await generateAssetMetadata(targetAsset, platform, {
-        engine: activeEngine,
-        groqKey: groqKey
-      });
-      
-      // Success: Auto-lock and Mark as Valid
-      if (activeEngine === 'gemini') {
-        setHasGeminiKey(true);
-        setIsGeminiInvalid(false);
+    const engine = activeConfig.label;
+    const prompt = promptUsage(activePreset, targetPlatforms, activeProject.notes);
+    // Editorial assets keep their dateline across regenerations
+    const withResult = (a: Asset): Asset => {
+      const next: Asset = { ...a, status: 'success', error: undefined, metadata: { ...a.metadata, ...metadata }, prompt, rights: mergeRightsAssessment(a.rights, rights), video: a.video || video };
+      return a.editorial ? setEditorial(next, true) : next;
+    };
+    const generated = withResult(targetAsset);
+    // Exact copies are filled in the same update, so one undo step covers both
+    setAssets((prev) => fillExactCopies(prev.map(a => a.id === id ? withVersion(a, withResult(a), 'ai', engine, prompt) : a), [id]));
+
+    // A failed translation leaves the English metadata in place
+    if (autoTranslate && languages.length > 0) enqueueTranslation([id], targetPlatforms, generated);
+  };
+
+  // Translates one asset for each platform and stores the results. The
+  // glossary is read through a ref so consecutive assets reuse new pairs.
+  const translateAsset = async (asset: Asset, platforms: Platform[], signal?: AbortSignal) => {
+    for (const p of platforms) {
+      if (!languages.some(l => needsTranslation(asset, p, l, glossaryRef.current))) continue;
+      const result = await translateMetadata(asset, p, languages, glossaryRef.current, { provider: budgetedProvider(), signal });
+      if (signal?.aborted) return;
+      glossaryRef.current = mergeGlossary(glossaryRef.current, result.glossary);
+      setGlossary(glossaryRef.current);
+      changeLabelRef.current = { label: `Translate ${asset.name}` };
+      setAssets(prev => prev.map(a => a.id === asset.id ? withLocalized(a, p, result.localized) : a));
+    }
+  };
+
+  // What each queued translation job covers. A job queued right after its
+  // generation carries the generated asset, which state may not hold yet.
+  const translationJobsRef = useRef(new Map<string, { assetId: string; platforms: Platform[]; asset?: Asset }>());
+  const translationFailuresRef = useRef<string[]>([]);
+
+  const enqueueTranslation = (assetIds: string[], platforms: Platform[], generated?: Asset) => {
+    const ids = assetIds.map(assetId => {
+      const id = `${TRANSLATION_JOB}${assetId}`;
+      const queued = translationJobsRef.current.get(id);
+      translationJobsRef.current.set(id, { assetId, platforms: [...new Set([...(queued?.platforms || []), ...platforms])], asset: generated || queued?.asset });
+      return id;
+    });
+    getQueue().enqueue(ids);
+  };
+
+  const runTranslation = async (id: string, signal: AbortSignal) => {
+    const job = translationJobsRef.current.get(id);
+    const asset = job && (job.asset || assetsRef.current.find(a => a.id === job.assetId));
+    if (!job || !asset) return;
+    await translateAsset(asset, job.platforms, signal);
+    translationJobsRef.current.delete(id);
+  };
+
+  const handleTranslationError = (id: string, error: unknown) => {
+    console.error(error);
+    const job = translationJobsRef.current.get(id);
+    translationJobsRef.current.delete(id);
+    const name = assetsRef.current.find(a => a.id === job?.assetId)?.name;
+    if (name) translationFailuresRef.current.push(name);
+  };
+
+  // Failed translations are reported together once the queue drains
+  const handleQueueChange = (snapshot: QueueSnapshot) => {
+    setQueueSnapshot(snapshot);
+    const failed = translationFailuresRef.current;
+    if (snapshot.state !== 'idle' || failed.length === 0) return;
+    translationFailuresRef.current = [];
+    alert(`Could not translate ${failed.length} asset(s): ${failed.join(', ')}`);
+  };
+
+  const handleTranslateAll = () => {
+    const pending = assets.filter(a => a.status === 'success' && hasMetadata(a, platform) && languages.some(l => needsTranslation(a, platform, l, glossary)));
+    if (pending.length === 0) return;
+    enqueueTranslation(pending.map(a => a.id), [platform]);
+  };
+
+  const toggleLanguage = (code: Language) => {
+    setLanguages(prev => prev.includes(code) ? prev.filter(l => l !== code) : [...prev, code]);
+  };
+
+  const handleGenerationError = (id: string, error: unknown) => {
+    console.error(error);
+    const message = errorMessage(error);
+    const status = errorStatus(error);
+    const isKeyError = message.includes('entity was not found') || status === 404 || status === 401 || status === 403 || message.includes('401') || message.includes('Unauthorized');
+
+    if (isKeyError) {
+      // Every remaining job would fail the same way
+      queueRef.current?.pause();
+      if (activeConfig.kind === 'gemini') {
+        setHasGeminiKey(false);
+        setIsGeminiInvalid(true);
       } else {
-        setIsGroqLocked(true);
-        setIsGroqInvalid(false);
+        setIsKeyLocked(false);
+        setIsKeyInvalid(true);
       }
+      setAssets(prev => prev.map(a => a.id === id ? { ...a, status: 'error', error: 'API Key Invalid. Please update your key.' } : a));
+    } else {
+      setAssets((prev) => prev.map(a => a.id === id ? { ...a, status: 'error', error: message || 'AI Engine Error' } : a));
+    }
+  };
+
+  // The queue outlives renders, so it reaches the latest state through refs
+  const assetsRef = useRef(assets);
+  assetsRef.current = assets;
+  const glossaryRef = useRef(glossary);
+  glossaryRef.current = glossary;
+  const jobHandlersRef = useRef({ generateForAsset, runTranslation, handleGenerationError, handleTranslationError, handleQueueChange, limits: activeConfig.limits });
+  jobHandlersRef.current = { generateForAsset, runTranslation, handleGenerationError, handleTranslationError, handleQueueChange, limits: activeConfig.limits };
+  const queueRef = useRef<JobQueue | null>(null);
 
-      setAssets((prev) => prev.map(a => a.id === targetAsset.id ? { ...a, status: 'success', metadata } : a));
-    } catch (error: any) {
-       console.error(error);
-       const isKeyError = error?.message?.includes('entity was not found') || error?.status === 404 || error?.message?.includes('401') || error?.message?.includes('Unauthorized');
-       
-       if (isKeyError) {
-          if (activeEngine === 'gemini') {
-            setHasGeminiKey(false);
-            setIsGeminiInvalid(true);
-          } else {
-            setIsGroqLocked(false);
-            setIsGroqInvalid(true);
-          }
-          setAssets(prev => prev.map(a => a.id === targetAsset.id ? { ...a, status: 'error', error: 'API Key Invalid. Please update your key.' } : a));
-       } else {
-          setAssets((prev) => prev.map(a => a.id === targetAsset.id ? { ...a, status: 'error', error: error?.message || 'AI Engine Error' } : a));
-       }
+  const getQueue = (): JobQueue => {
+    if (!queueRef.current) {
+      queueRef.current = createJobQueue({
+        maxRetries: MAX_JOB_RETRIES,
+        getLimits: () => jobHandlersRef.current.limits,
+        estimateTokens: id => id.startsWith(TRANSLATION_JOB) ? ESTIMATED_TOKENS_PER_TEXT_REQUEST : ESTIMATED_TOKENS_PER_JOB,
+        run: (id, signal) => id.startsWith(TRANSLATION_JOB)
+          ? jobHandlersRef.current.runTranslation(id, signal)
+          : jobHandlersRef.current.generateForAsset(id, signal),
+        onRetry: (id, error, delayMs) => console.warn(`Retrying ${id} in ${delayMs} ms`, error),
+        onFailed: (id, error) => id.startsWith(TRANSLATION_JOB)
+          ? jobHandlersRef.current.handleTranslationError(id, error)
+          : jobHandlersRef.current.handleGenerationError(id, error),
+        onChange: snapshot => jobHandlersRef.current.handleQueueChange(snapshot),
+      });
     }
+    return queueRef.current;
+  };
+
+  // Every provider request waits its turn in the queue's rate budget
+  const budgetedProvider = (): MetadataProvider =>
+    withRequestBudget(createProvider(activeConfig), request => getQueue().acquire(
+      request.response && request.response !== 'metadata' ? ESTIMATED_TOKENS_PER_TEXT_REQUEST : ESTIMATED_TOKENS_PER_JOB,
+      request.signal
+    ));
+
+  const enqueueGeneration = (ids: string[]) => {
+    setAssets(prev => prev.map(a => ids.includes(a.id) ? { ...a, status: 'pending', error: undefined } : a));
+    getQueue().enqueue(ids);
   };
 
-  const handleGenerateAll = async () => {
+  const cancelGeneration = () => {
+    const cancelled = getQueue().cancelAll();
+    translationJobsRef.current.clear();
+    setAssets(prev => prev.map(a => cancelled.includes(a.id) && a.status === 'pending' ? { ...a, status: 'idle' } : a));
+  };
+
+  const handleGenerateAll = () => {
     if (isGenerating) return;
     
     if (!isKeyValid()) {
-      if (activeEngine === 'gemini') handleSelectGeminiKey();
-      else alert("Please enter and lock a valid Groq API Key first.");
+      promptForKey();
       return;
     }
 
-    if (!navigator.onLine) {
+    if (!navigator.onLine && !activeConfig.local) {
       alert("AI Generation requires an active internet connection.");
       return;
     }
     
-    const pendingAssets = assets.filter(a => a.status !== 'success');
-    if (pendingAssets.length === 0) return;
-
-    setIsGenerating(true);
-    setAssets(prev => prev.map(a => 
-      pendingAssets.find(pa => pa.id === a.id) ? { ...a, status: 'pending', error: undefined } : a
-    ));
-
-    const BATCH_SIZE = 5;
-    for (let i = 0; i < pendingAssets.length; i += BATCH_SIZE) {
-      const batch = pendingAssets.slice(i, i + BATCH_SIZE);
-      await Promise.all(batch.map(asset => runGeneration(asset)));
+    const targetPlatforms = generateAllPlatforms ? PLATFORMS : [platform];
+    // Exact copies are filled from their original: now if it is done,
+    // otherwise once it finishes
+    const copies = findExactDuplicates(assets);
+    const finished = Array.from(new Set(Array.from(copies.values()).filter(o => o.status === 'success').map(o => o.id)));
+    if (fillExactCopies(assets, finished).some((a, i) => a !== assets[i])) {
+      changeLabelRef.current = { label: 'Reuse metadata for exact duplicates' };
+      setAssets(prev => fillExactCopies(prev, finished));
     }
+    const pendingAssets = assets.filter(a => !copies.has(a.id) && (a.status !== 'success' || targetPlatforms.some(p => !hasMetadata(a, p))));
+    if (pendingAssets.length === 0) return;
 
-    setIsGenerating(false);
+    enqueueGeneration(pendingAssets.map(a => a.id));
   };
 
   const removeAsset = (id: string) => {
@@ -211,55 +587,332 @@ const App: React.FC = () => {
       if (asset?.previewUrl) URL.revokeObjectURL(asset.previewUrl);
       return prev.filter(a => a.id !== id);
     });
+    deleteAssets([id]).then(refreshStorageUsage).catch(handleStorageError);
   };
 
   const wipePipeline = () => {
     if (window.confirm("Clear all assets from pipeline?")) {
+      getQueue().cancelAll();
+      translationJobsRef.current.clear();
       assets.forEach(a => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
       setAssets([]);
-      localStorage.removeItem('autometagen_pipeline');
+      setStorageError(null);
+      clearAssets(activeProjectId).then(refreshStorageUsage).catch(handleStorageError);
     }
   };
 
-  const handleAssetModified = useCallback((id: string, newUrl: string) => {
-    setAssets((prev) => prev.map(a => a.id === id ? { ...a, previewUrl: newUrl, status: 'success' } : a));
-  }, []);
+  const switchProject = async (id: string) => {
+    const next = projects.find(p => p.id === id);
+    if (!next || id === activeProjectId || isGenerating) return;
+    await switchProjectTo(next);
+  };
 
-  const exportCSV = () => {
-    const successAssets = assets.filter(a => a.status === 'success');
-    if (successAssets.length === 0) return;
-    
-    let headers: string[] = ['Filename', 'Description', 'Keywords'];
-    if (platform === 'Shutterstock') {
-      headers = ['Filename', 'Description', 'Keywords', 'Categories', 'Editorial', 'Mature Content', 'Illustration'];
-    } else if (platform === 'Teepublic') {
-      headers = ['Filename', 'Title', 'Description', 'Keywords', 'Main Tag'];
+  const switchProjectTo = async (project: Project) => {
+    setIsHydrated(false);
+    try {
+      // Flush the current project before its debounced save is cancelled
+      await saveAssetRecords(activeProjectId, assets);
+      assets.forEach(a => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+      const loaded = await restoreProjectAssets(project);
+      setActiveProjectId(project.id);
+      setPlatform(project.platform);
+      setActiveEngine(project.engine);
+      setAssets(requeueSavedJobs(project.id, loaded));
+      setSelectedIds(new Set());
+      setUndoStack([]);
+      setRedoStack([]);
+      fingerprintAssets(loaded.filter(a => !a.fingerprint && a.file.size > 0));
+    } catch (e) {
+      handleStorageError(e);
+    } finally {
+      setIsHydrated(true);
+    }
+  };
+
+  const handleCreateProject = async (name: string) => {
+    const project = createProject(name, platform, activeEngine);
+    setProjects(prev => [project, ...prev]);
+    await switchProjectTo(project);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, name, updatedAt: Date.now() } : p));
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    const source = projects.find(p => p.id === id);
+    if (!source) return;
+    try {
+      if (id === activeProjectId) await saveAssetRecords(activeProjectId, assets);
+      const copy = { ...createProject(`${source.name} (Copy)`, source.platform, source.engine), promptPresetId: source.promptPresetId, notes: source.notes };
+      await duplicateProjectAssets(id, copy.id);
+      setProjects(prev => [copy, ...prev]);
+      refreshStorageUsage();
+    } catch (e) {
+      handleStorageError(e);
     }
+  };
 
-    const esc = (s: string) => `"${(s || '').replace(/"/g, '""')}"`;
-    const rows = successAssets.map(a => {
-      let row: string[] = [];
-      if (platform === 'Shutterstock') {
-        const cats = [a.metadata.category1, a.metadata.category2].filter(Boolean).join(',');
-        row = [esc(a.name), esc(a.metadata.description), esc(a.metadata.keywords), esc(cats), "no", "no", a.type === 'Vector' ? "yes" : "no"];
-      } else if (platform === 'Teepublic') {
-        row = [esc(a.name), esc(a.metadata.title), esc(a.metadata.description), esc(a.metadata.keywords), esc(a.metadata.mainTag || '')];
-      } else {
-        row = [esc(a.name), esc(a.metadata.title), esc(a.metadata.description), esc(a.metadata.keywords)];
+  const handleArchiveProject = async (id: string, archived: boolean) => {
+    if (archived && id === activeProjectId) {
+      const fallback = projects.find(p => p.id !== id && !p.archived);
+      if (!fallback) {
+        alert("Create another project before archiving the only active one.");
+        return;
       }
-      return row;
+      await switchProject(fallback.id);
+    }
+    setProjects(prev => prev.map(p => p.id === id ? { ...p, archived, updatedAt: Date.now() } : p));
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!project || !window.confirm(`Delete project "${project.name}" and all of its assets?`)) return;
+    if (id === activeProjectId) {
+      const fallback = projects.find(p => p.id !== id && !p.archived)
+        || createProject('My First Project', platform, activeEngine);
+      if (!projects.includes(fallback)) setProjects(prev => [fallback, ...prev]);
+      await switchProjectTo(fallback);
+    }
+    setProjects(prev => prev.filter(p => p.id !== id));
+    saveQueuedAssetIds(id, []);
+    clearAssets(id).then(refreshStorageUsage).catch(handleStorageError);
+  };
+
+  // Fills the members that have no metadata yet from one that does, without a model call
+  const handleReuseMetadata = (group: DuplicateGroup) => {
+    const members = assets.filter(a => group.ids.includes(a.id));
+    const source = [...members].reverse().find(a => a.status === 'success' && hasMetadata(a, platform));
+    if (!source) return;
+    setAssets(prev => prev.map(a => group.ids.includes(a.id) && a.id !== source.id && a.status !== 'pending' && !hasMetadata(a, platform)
+      ? withVersion(a, { ...a, status: 'success', error: undefined, metadata: { ...a.metadata, ...reuseMetadata(source, a) } }, 'reuse')
+      : a));
+  };
+
+  const handleRemoveCopies = (group: DuplicateGroup) => {
+    const copies = findExactDuplicates(assets);
+    group.ids.filter(id => copies.has(id)).forEach(removeAsset);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
     });
+  };
+
+  const handleBulkApply = (op: BulkOperation) => {
+    const changes = applyBulkEdit(assets.filter(a => selectedIds.has(a.id)), op, platform);
+    if (changes.size === 0) return;
+    changeLabelRef.current = { label: describeBulkOperation(op) };
+    setAssets(prev => prev.map(a => changes.has(a.id) ? withVersion(a, { ...a, metadata: { ...a.metadata, [platform]: changes.get(a.id)! } }, 'bulk') : a));
+  };
+
+  const handleFieldUpdate = (id: string, field: keyof Metadata, value: string) => {
+    const asset = assets.find(a => a.id === id);
+    changeLabelRef.current = { label: `Edit ${field} on ${asset?.name || 'asset'}`, coalesceKey: `${id}:${platform}:${field}` };
+    setAssets(prev => prev.map(a => a.id === id ? withVersion(a, updateMetadataField(a, platform, field, value), 'manual') : a));
+  };
+
+  const handleLocalizedUpdate = (id: string, language: Language, field: 'title' | 'description', value: string) => {
+    const asset = assets.find(a => a.id === id);
+    changeLabelRef.current = { label: `Edit ${language} ${field} on ${asset?.name || 'asset'}`, coalesceKey: `${id}:${platform}:${language}:${field}` };
+    setAssets(prev => prev.map(a => a.id === id ? updateLocalizedField(a, platform, language, field, value) : a));
+  };
+
+  const handleReusePrompt = (usage: PromptUsage) => {
+    const preset = presetFromUsage(usage);
+    setPromptPresets(prev => [...prev, preset]);
+    updateActiveProject({ promptPresetId: preset.id, notes: usage.notes ?? activeProject.notes });
+    setHistoryAssetId(null);
+    setShowPromptPresets(true);
+  };
+
+  const handleRestoreVersion = (asset: Asset, version: MetadataVersion) => {
+    changeLabelRef.current = { label: `Restore version of ${asset.name}` };
+    setAssets(prev => prev.map(a => a.id === asset.id
+      ? withVersion(a, { ...a, status: 'success', error: undefined, metadata: version.metadata }, 'restore')
+      : a));
+  };
+
+  // Every metadata or preview change is diffed into the undo stack, so no
+  // mutation site has to remember to record itself.
+  const previousAssetsRef = useRef<Asset[]>([]);
+  const changeLabelRef = useRef<ChangeLabel | null>(null);
+  const isTimeTravelRef = useRef(false);
+
+  useEffect(() => {
+    const previous = previousAssetsRef.current;
+    previousAssetsRef.current = assets;
+    const label = changeLabelRef.current;
+    changeLabelRef.current = null;
+    if (isTimeTravelRef.current || !isHydrated) {
+      isTimeTravelRef.current = false;
+      return;
+    }
+    const entry = diffAssets(previous, assets, label);
+    if (!entry) return;
+    setUndoStack(prev => pushUndoEntry(prev, entry));
+    setRedoStack([]);
+  }, [assets]);
+
+  const undo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    isTimeTravelRef.current = true;
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, entry]);
+    setAssets(prev => applySnapshots(prev, entry.before));
+  };
+
+  const redo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    isTimeTravelRef.current = true;
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, entry]);
+    setAssets(prev => applySnapshots(prev, entry.after));
+  };
+
+  // Text fields keep the browser's own undo while they have focus
+  const undoRef = useRef({ undo, redo });
+  undoRef.current = { undo, redo };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undoRef.current.undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        undoRef.current.redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // AI edits become revisions beside the original; the newest is made current
+  const handleAssetEdited = async (id: string, image: Blob, prompt: string) => {
+    const asset = assetsRef.current.find(a => a.id === id);
+    if (!asset) return;
+    const revision = await createRevision(asset, image, prompt);
+    const revisions = [...(asset.revisions || []), revision];
+    changeLabelRef.current = { label: `AI edit of ${asset.name}` };
+    setAssets(prev => prev.map(a => a.id === id ? { ...a, revisions, currentRevisionId: revision.id } : a));
+    saveAssetFiles(activeProjectId, [{ ...asset, revisions }]).then(refreshStorageUsage).catch(handleStorageError);
+  };
+
+  const handleSetEditorial = (id: string, editorial: boolean) => {
+    const asset = assets.find(a => a.id === id);
+    changeLabelRef.current = { label: `${editorial ? 'Mark' : 'Unmark'} ${asset?.name || 'asset'} as editorial` };
+    setAssets(prev => prev.map(a => a.id === id ? withVersion(a, setEditorial(a, editorial), 'manual') : a));
+  };
+
+  const handleSetMature = (id: string, mature: boolean) => {
+    const asset = assets.find(a => a.id === id);
+    changeLabelRef.current = { label: `${mature ? 'Mark' : 'Unmark'} ${asset?.name || 'asset'} as mature` };
+    setAssets(prev => prev.map(a => a.id === id ? setMature(a, mature) : a));
+  };
+
+  const handleDismissFlag = (id: string, kind: 'people' | 'logos' | 'landmarks', flag: string) => {
+    changeLabelRef.current = { label: `Dismiss "${flag}"` };
+    setAssets(prev => prev.map(a => a.id === id ? dismissFlag(a, kind, flag) : a));
+  };
+
+  const handleReleasesChange = (id: string, kind: 'modelReleases' | 'propertyReleases', names: string[]) => {
+    const asset = assets.find(a => a.id === id);
+    changeLabelRef.current = { label: `Change ${kind === 'modelReleases' ? 'model' : 'property'} releases of ${asset?.name || 'asset'}` };
+    setAssets(prev => prev.map(a => a.id === id ? { ...a, [kind]: names.length > 0 ? names : undefined } : a));
+  };
 
-    const csvContent = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const handleToggleIpOverride = (id: string, term: string) => {
+    const asset = assets.find(a => a.id === id);
+    changeLabelRef.current = { label: asset?.ipOverrides?.includes(term) ? `Screen "${term}" again` : `Clear "${term}"` };
+    setAssets(prev => prev.map(a => a.id === id ? toggleOverride(a, term) : a));
+  };
+
+  const handleToggleLocation = (id: string) => {
+    const asset = assets.find(a => a.id === id);
+    changeLabelRef.current = { label: `${asset?.stripLocation ? 'Keep' : 'Strip'} location of ${asset?.name || 'asset'}` };
+    setAssets(prev => prev.map(a => a.id === id ? { ...a, stripLocation: !a.stripLocation } : a));
+  };
+
+  const handleSelectRevision = (id: string, revisionId?: string) => {
+    const asset = assets.find(a => a.id === id);
+    if (!asset) return;
+    changeLabelRef.current = { label: `Use ${revisionLabel(asset, revisionId)} of ${asset.name}` };
+    setAssets(prev => prev.map(a => a.id === id ? { ...a, currentRevisionId: revisionId } : a));
+  };
+
+  const startExport = (kind: 'csv' | 'zip') => {
+    const successAssets = assets.filter(a => a.status === 'success' && hasMetadata(a, platform));
+    if (successAssets.length === 0) return;
+
+    // Nothing is written until the rows pass the portal's rules (or only warn)
+    const report = buildComplianceReport(successAssets, platform);
+    if (report.length > 0) {
+      setPendingExport(kind);
+      setComplianceReport(report);
+      return;
+    }
+    writeExport(kind, successAssets);
+  };
+
+  const writeExport = (kind: 'csv' | 'zip', successAssets: Asset[]) => {
+    if (kind === 'zip') writeTaggedZip(successAssets);
+    else writeCSV(successAssets);
+  };
+
+  const downloadBlob = (blob: Blob, filename: string) => {
     const link = document.createElement('a');
     link.href = URL.createObjectURL(blob);
-    link.download = `autometagen_${platform.toLowerCase().replace(' ', '_')}_${new Date().getTime()}.csv`;
+    link.download = filename;
     link.click();
     setTimeout(() => URL.revokeObjectURL(link.href), 1000);
   };
 
-  const successCount = assets.filter(a => a.status === 'success').length;
+  const writeCSV = (successAssets: Asset[]) => {
+    const csvContent = buildCSV(successAssets, exportFormat, platform, { languages, glossary });
+    downloadBlob(new Blob([csvContent], { type: 'text/csv;charset=utf-8;' }), csvFilename(exportFormat, platform));
+    // Portals without localized columns get the translations in a file of their own
+    if (languages.length > 0 && !hasLocalizedColumns(exportFormat, platform)) {
+      const translations = buildTranslationsCSV(successAssets, platform, { languages, glossary });
+      downloadBlob(new Blob([translations], { type: 'text/csv;charset=utf-8;' }), csvFilename('Translations', platform));
+    }
+    const untranslated = successAssets.filter(a => languages.some(l => needsTranslation(a, platform, l, glossary))).length;
+    if (languages.length > 0 && untranslated > 0) alert(`${untranslated} asset(s) are not fully translated; keywords without a translation were exported in English.`);
+  };
+
+  const writeTaggedZip = async (successAssets: Asset[]) => {
+    setIsZipping(true);
+    try {
+      const { zip, skipped } = await buildTaggedZip(successAssets, platform, languages);
+      if (skipped.length === successAssets.length) {
+        alert('None of these assets are JPEGs, so there is nothing to embed metadata into.');
+        return;
+      }
+      downloadBlob(zip, zipFilename(platform));
+      if (skipped.length > 0) alert(`Left out ${skipped.length} non-JPEG file(s): ${skipped.join(', ')}`);
+    } catch (e) {
+      alert(`Failed to build the zip: ${errorMessage(e) || 'unknown error'}`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  // Only recomputed when fingerprints arrive or assets come and go, not on every edit
+  const fingerprintKey = assets.map(a => `${a.id}:${a.fingerprint?.digest || ''}`).join('|');
+  const duplicateGroups = useMemo(() => findDuplicateGroups(assets), [fingerprintKey]);
+  const exactCopies = useMemo(() => findExactDuplicates(assets), [fingerprintKey]);
+  const selectedAssets = assets.filter(a => selectedIds.has(a.id));
+  const successCount = assets.filter(a => a.status === 'success' && hasMetadata(a, platform)).length;
+  const isTranslating = isGenerating && Boolean(queueRef.current?.unfinishedIds().some(id => id.startsWith(TRANSLATION_JOB)));
   const keyReady = isKeyValid();
 
   return (
@@ -274,6 +927,53 @@ const App: React.FC = () => {
       }}
     >
       <UserGuide isOpen={showGuide} onClose={() => setShowGuide(false)} />
+      <ProviderSettings
+        isOpen={showProviderSettings}
+        configs={providerConfigs}
+        onChange={(configs) => {
+          setProviderConfigs(configs);
+          if (!configs.some(c => c.id === activeEngine)) setActiveEngine(configs[0].id);
+        }}
+        onClose={() => setShowProviderSettings(false)}
+      />
+      <BulkEditPanel
+        isOpen={showBulkEdit && selectedAssets.length > 0}
+        assets={selectedAssets}
+        platform={platform}
+        undoLabel={undoStack[undoStack.length - 1]?.label}
+        onApply={handleBulkApply}
+        onUndo={undo}
+        onClose={() => setShowBulkEdit(false)}
+      />
+      <VersionHistory
+        key={historyAssetId || ''}
+        asset={assets.find(a => a.id === historyAssetId) || null}
+        platform={platform}
+        onRestore={handleRestoreVersion}
+        onReusePrompt={handleReusePrompt}
+        onClose={() => setHistoryAssetId(null)}
+      />
+      <PromptPresets
+        isOpen={showPromptPresets}
+        presets={promptPresets}
+        activePresetId={activePreset.id}
+        notes={activeProject.notes || ''}
+        platforms={generateAllPlatforms ? PLATFORMS : [platform]}
+        previewAsset={selectedAssets[0] || assets[0] || null}
+        onChange={setPromptPresets}
+        onSelect={(id) => updateActiveProject({ promptPresetId: id })}
+        onNotesChange={(notes) => updateActiveProject({ notes })}
+        onClose={() => setShowPromptPresets(false)}
+      />
+      <ComplianceReport
+        entries={complianceReport}
+        platform={platform}
+        onExportAnyway={() => {
+          setComplianceReport(null);
+          writeExport(pendingExport, assets.filter(a => a.status === 'success' && hasMetadata(a, platform)));
+        }}
+        onClose={() => setComplianceReport(null)}
+      />
 
       <button 
         onClick={() => setShowGuide(true)}
@@ -284,7 +984,14 @@ const App: React.FC = () => {
 
       {!isOnline && (
         <div className="fixed top-0 left-0 w-full bg-yellow-500 text-black text-[10px] font-black uppercase py-2 text-center z-[200] tracking-[0.3em] flex items-center justify-center gap-2">
-          Offline Mode • Manual editing & export enabled
+          Offline Mode • {activeConfig.local ? `Local engine (${activeConfig.label}) active` : 'Manual editing & export enabled'}
+        </div>
+      )}
+
+      {storageError && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[200] bg-red-500/90 text-white text-[10px] font-black uppercase tracking-widest px-6 py-3 rounded-full flex items-center gap-4 shadow-2xl">
+          {storageError}
+          <button onClick={() => setStorageError(null)} className="text-white/60 hover:text-white">Dismiss</button>
         </div>
       )}
 
@@ -320,12 +1027,30 @@ const App: React.FC = () => {
 
         <div className="flex flex-col items-start lg:items-end gap-3 w-full lg:w-auto">
           <div className="flex bg-black/40 p-1 rounded-xl border border-white/5 w-full lg:w-auto">
-            <button onClick={() => setActiveEngine('gemini')} className={`flex-1 lg:flex-none px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${activeEngine === 'gemini' ? 'bg-white text-black' : 'text-white/30 hover:text-white/50'}`}>Gemini</button>
-            <button onClick={() => setActiveEngine('groq')} className={`flex-1 lg:flex-none px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${activeEngine === 'groq' ? 'bg-white text-black' : 'text-white/30 hover:text-white/50'}`}>Groq</button>
+            {providerConfigs.map(config => (
+              <button
+                key={config.id}
+                onClick={() => {
+                  setActiveEngine(config.id);
+                  setIsKeyInvalid(false);
+                }}
+                className={`flex-1 lg:flex-none px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${activeConfig.id === config.id ? 'bg-white text-black' : 'text-white/30 hover:text-white/50'}`}
+                title={`${config.model}${config.capabilities.vision ? '' : ' • text only'}`}
+              >
+                {config.label}
+              </button>
+            ))}
+            <button
+              onClick={() => setShowProviderSettings(true)}
+              className="px-3 py-2 rounded-lg text-white/30 hover:text-white/70 transition-all"
+              title="Manage AI providers"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" /></svg>
+            </button>
           </div>
           
           <div className="w-full lg:w-auto min-w-[270px]">
-            {activeEngine === 'gemini' ? (
+            {activeConfig.kind === 'gemini' ? (
               <div className={`flex items-center gap-2 p-2 rounded-xl border transition-all ${isGeminiInvalid ? 'bg-red-500/10 border-red-500/30 shadow-[0_0_20px_rgba(239,68,68,0.1)]' : hasGeminiKey ? 'bg-green-500/10 border-green-500/30 shadow-[0_0_20px_rgba(34,197,94,0.1)]' : 'bg-black/20 border-white/5'}`}>
                 <a 
                   href="https://aistudio.google.com/app/apikey" 
@@ -346,30 +1071,42 @@ const App: React.FC = () => {
                   {isGeminiInvalid ? 'FIX KEY' : hasGeminiKey ? 'CHANGE' : 'ACTIVATE'}
                 </button>
               </div>
+            ) : !activeConfig.requiresKey ? (
+              <div className={`flex items-center gap-2 p-2 rounded-xl border transition-all ${isKeyInvalid ? 'bg-red-500/10 border-red-500/30' : 'bg-green-500/10 border-green-500/30'}`}>
+                <span className={`text-[9px] font-black uppercase tracking-widest flex-1 truncate px-2 ${isKeyInvalid ? 'text-red-400' : 'text-green-400'}`}>
+                  {isKeyInvalid ? 'ENDPOINT REJECTED REQUEST' : `${activeConfig.local ? 'LOCAL' : 'NO KEY NEEDED'} • ${activeConfig.model || 'NO MODEL SELECTED'}`}
+                </span>
+                <button
+                  onClick={() => setShowProviderSettings(true)}
+                  className="px-3 py-1.5 text-[9px] font-black uppercase rounded-lg border bg-white/5 hover:bg-white text-white hover:text-black border-white/10 transition-all"
+                >
+                  Configure
+                </button>
+              </div>
             ) : (
-              <div className={`flex items-center gap-2 p-1.5 rounded-xl border transition-all ${isGroqInvalid ? 'bg-red-500/10 border-red-500/30 shadow-[0_0_20px_rgba(239,68,68,0.1)]' : isGroqLocked && groqKey ? 'bg-green-500/10 border-green-500/30 shadow-[0_0_20px_rgba(34,197,94,0.1)]' : 'bg-black/20 border-white/10'}`}>
-                <div className={`flex-shrink-0 w-8 h-8 rounded-lg flex items-center justify-center transition-colors ${groqKey ? 'bg-green-500/10 text-green-400' : 'bg-white/5 text-white/20'}`}>
+              <div className={`flex items-center gap-2 p-1.5 rounded-xl border transition-all ${isKeyInvalid ? 'bg-red-500/10 border-red-500/30 shadow-[0_0_20px_rgba(239,68,68,0.1)]' : isKeyLocked && activeKey ? 'bg-green-500/10 border-green-500/30 shadow-[0_0_20px_rgba(34,197,94,0.1)]' : 'bg-black/20 border-white/10'}`}>
+                <div className={`flex-shrink-0 w-8 h-8 rounded-lg flex items-center justify-center transition-colors ${activeKey ? 'bg-green-500/10 text-green-400' : 'bg-white/5 text-white/20'}`}>
                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>
                 </div>
                 <input 
                   type="password" 
-                  value={groqKey} 
-                  disabled={isGroqLocked}
+                  value={activeKey} 
+                  disabled={isKeyLocked}
                   onChange={(e) => {
-                    setGroqKey(e.target.value);
-                    setIsGroqInvalid(false);
+                    updateProviderConfig(activeConfig.id, { apiKey: e.target.value });
+                    setIsKeyInvalid(false);
                   }} 
-                  placeholder="Paste Groq Key"
-                  className={`bg-transparent px-3 py-1.5 text-[10px] text-white focus:outline-none flex-1 placeholder:text-white/10 disabled:opacity-50 ${isGroqInvalid ? 'text-red-400' : ''}`}
+                  placeholder={`Paste ${activeConfig.label} Key`}
+                  className={`bg-transparent px-3 py-1.5 text-[10px] text-white focus:outline-none flex-1 placeholder:text-white/10 disabled:opacity-50 ${isKeyInvalid ? 'text-red-400' : ''}`}
                 />
                 <button 
-                  onClick={() => setIsGroqLocked(!isGroqLocked)}
-                  className={`w-8 h-8 rounded-lg flex items-center justify-center transition-all ${isGroqInvalid ? 'bg-red-500/20 text-red-400 animate-pulse' : isGroqLocked ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white/40 hover:bg-white/20'}`}
-                  title={isGroqInvalid ? "Key Invalid" : isGroqLocked ? "Autolocked: Unlock to Change" : "Lock Key"}
+                  onClick={() => setIsKeyLocked(!isKeyLocked)}
+                  className={`w-8 h-8 rounded-lg flex items-center justify-center transition-all ${isKeyInvalid ? 'bg-red-500/20 text-red-400 animate-pulse' : isKeyLocked ? 'bg-green-500/20 text-green-400' : 'bg-white/10 text-white/40 hover:bg-white/20'}`}
+                  title={isKeyInvalid ? "Key Invalid" : isKeyLocked ? "Autolocked: Unlock to Change" : "Lock Key"}
                 >
-                  {isGroqInvalid ? (
+                  {isKeyInvalid ? (
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
-                  ) : isGroqLocked ? (
+                  ) : isKeyLocked ? (
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 00-2 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
                   ) : (
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 11V7a4 4 0 118 0v4m-4 8v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 00-2 2z" /></svg>
@@ -381,6 +1118,27 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      <div className="flex justify-between items-center px-4 -mb-4">
+        <ProjectSwitcher
+          projects={projects}
+          activeProjectId={activeProjectId}
+          disabled={isGenerating}
+          onSelect={switchProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onArchive={handleArchiveProject}
+          onDelete={handleDeleteProject}
+        />
+        <span className="text-[9px] font-bold text-white/20 uppercase tracking-widest">
+          {assets.length} assets • {activeProject.platform}
+        </span>
+      </div>
+
+      {isExtensionContext() && (
+        <ExtensionBar assets={assets} platform={platform} onGrab={(file) => addAssetsFromFiles([file])} />
+      )}
+
       <main className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         <div className="lg:col-span-2 glass p-10 rounded-[40px] space-y-10 shadow-xl border border-white/5">
           <div className="space-y-4">
@@ -405,34 +1163,99 @@ const App: React.FC = () => {
                 </button>
               ))}
             </div>
+            <label className="flex items-center gap-3 px-2 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={generateAllPlatforms}
+                onChange={(e) => setGenerateAllPlatforms(e.target.checked)}
+                className="w-4 h-4 accent-white"
+              />
+              <span className="text-[10px] font-black text-white/40 uppercase tracking-widest">
+                Generate for all platforms in one pass
+              </span>
+            </label>
+            <button
+              onClick={() => setShowPromptPresets(true)}
+              className="flex items-center gap-3 px-2 text-[10px] font-black text-white/40 hover:text-white uppercase tracking-widest transition-colors"
+              title="Edit prompt presets and project notes"
+            >
+              Prompt: {activePreset.name}
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+            </button>
+            <div className="space-y-3 px-2 pt-2">
+              <span className="text-[10px] font-black text-white/40 uppercase tracking-widest">Translate Into</span>
+              <div className="flex flex-wrap gap-1.5">
+                {LANGUAGES.map(l => (
+                  <button
+                    key={l.code}
+                    onClick={() => toggleLanguage(l.code)}
+                    title={l.name}
+                    className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${languages.includes(l.code) ? 'bg-white text-black border-white' : 'text-white/30 border-white/10 hover:text-white/60'}`}
+                  >
+                    {l.code}
+                  </button>
+                ))}
+              </div>
+              {languages.length > 0 && (
+                <div className="flex items-center justify-between gap-3">
+                  <label className="flex items-center gap-3 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={autoTranslate}
+                      onChange={(e) => setAutoTranslate(e.target.checked)}
+                      className="w-4 h-4 accent-white"
+                    />
+                    <span className="text-[10px] font-black text-white/40 uppercase tracking-widest">
+                      Translate after generating
+                    </span>
+                  </label>
+                  <button
+                    onClick={handleTranslateAll}
+                    disabled={isTranslating || successCount === 0 || !canGenerate}
+                    className="text-[10px] font-black text-white/60 hover:text-white uppercase tracking-widest transition-colors disabled:opacity-30"
+                    title={`Translate ${platform} metadata that has no current translation`}
+                  >
+                    {isTranslating ? 'Translating...' : `Translate ${successCount} Assets`}
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
           <div className="relative">
             <button 
               onClick={handleGenerateAll} 
-              disabled={isGenerating || assets.length === 0 || !isOnline} 
+              disabled={isGenerating || assets.length === 0 || !canGenerate} 
               className="w-full py-6 bg-white text-black rounded-[28px] font-black text-sm uppercase tracking-[0.3em] disabled:opacity-20 shadow-2xl transition-all relative overflow-hidden active:scale-[0.98]"
             >
               <span className="relative z-10">
-                {!isOnline ? 'Offline: AI Disabled' : isGenerating ? `Processing...` : `START INFINITE GENERATION • ${assets.length}`}
+                {!canGenerate ? 'Offline: AI Disabled' : isGenerating ? `Processing ${queueSnapshot?.completed ?? 0} / ${queueSnapshot?.total ?? 0}` : `START INFINITE GENERATION • ${assets.length}`}
               </span>
-              {isGenerating && (
+              {isGenerating && queueSnapshot?.state === 'running' && (
                 <div className="absolute inset-0 bg-gradient-to-r from-transparent via-black/10 to-transparent translate-x-[-100%] animate-[shimmer_1.5s_infinite]" />
               )}
             </button>
           </div>
+          {queueSnapshot && (
+            <QueueProgress
+              snapshot={queueSnapshot}
+              onPause={() => getQueue().pause()}
+              onResume={() => getQueue().resume()}
+              onCancel={cancelGeneration}
+            />
+          )}
         </div>
 
         <div className={`glass p-10 rounded-[40px] flex flex-col items-center justify-center text-center relative group overflow-hidden border-2 border-dashed transition-all ${
           !keyReady 
-          ? 'border-red-500/20 bg-red-500/5 cursor-not-allowed opacity-60' 
+          ? 'border-red-500/20 bg-red-500/5 hover:border-red-500/40 cursor-pointer' 
           : 'border-white/10 hover:border-white/40 cursor-pointer'
         }`}>
           <input 
             type="file" 
             multiple 
-            disabled={!keyReady}
+            accept={keyReady ? undefined : '.csv,text/csv'}
             onChange={(e) => addAssetsFromFiles(Array.from(e.target.files || []))} 
-            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10 disabled:cursor-not-allowed" 
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" 
           />
           <div className="space-y-6 pointer-events-none group-hover:scale-110 transition-transform duration-500">
             <div className={`w-24 h-24 rounded-[32px] flex items-center justify-center mx-auto border shadow-inner transition-colors ${
@@ -449,7 +1272,7 @@ const App: React.FC = () => {
                 {!keyReady ? 'Locked: Key Required' : 'Add Assets'}
               </p>
               <p className="text-[10px] text-white/30 font-bold uppercase tracking-widest mt-1">
-                {!keyReady ? 'Activate Engine First' : 'Unlimited Pipeline'}
+                {!keyReady ? 'Activate Engine First • CSV Import Works' : 'Unlimited Pipeline'}
               </p>
             </div>
           </div>
@@ -458,25 +1281,115 @@ const App: React.FC = () => {
 
       <section className="space-y-6">
         <div className="flex justify-between items-end border-b border-white/5 pb-6 px-4">
-          <h2 className="text-xs font-black text-white uppercase tracking-[0.4em]">Active Pipeline</h2>
+          <div>
+            <h2 className="text-xs font-black text-white uppercase tracking-[0.4em]">Active Pipeline</h2>
+            {storageUsage && (
+              <p className="text-[9px] font-bold text-white/20 uppercase tracking-widest mt-2" title={storageUsage.persisted ? 'Persistent storage granted' : 'Storage may be evicted by the browser'}>
+                Storage {formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}{storageUsage.persisted ? ' • Persistent' : ''}
+              </p>
+            )}
+          </div>
           {successCount > 0 && (
-            <button onClick={exportCSV} className="text-[10px] font-black text-white hover:text-green-400 uppercase tracking-[0.3em] transition-all flex items-center gap-2 group bg-green-500/10 px-4 py-2 rounded-full border border-green-500/20">
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-              Export {successCount} CSV
-            </button>
+            <div className="flex items-center gap-2">
+              <div className="flex bg-black/40 p-1 rounded-full border border-white/5">
+                {EXPORT_FORMATS.map((f) => (
+                  <button
+                    key={f}
+                    onClick={() => setExportFormat(f)}
+                    className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${exportFormat === f ? 'bg-white text-black' : 'text-white/30 hover:text-white/50'}`}
+                    title={f === 'Simple CSV' ? 'Filename, Title, Description, Keywords' : `${platform} bulk upload layout`}
+                  >
+                    {f === 'Simple CSV' ? 'Simple' : platform}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => startExport('zip')}
+                disabled={isZipping}
+                className="text-[10px] font-black text-white/60 hover:text-white uppercase tracking-[0.3em] transition-all px-4 py-2 rounded-full border border-white/10 hover:border-white/30 disabled:opacity-30"
+                title="JPEGs with title, description and keywords embedded as XMP and IPTC"
+              >
+                {isZipping ? 'Zipping...' : 'Tagged Zip'}
+              </button>
+              <button onClick={() => startExport('csv')} className="text-[10px] font-black text-white hover:text-green-400 uppercase tracking-[0.3em] transition-all flex items-center gap-2 group bg-green-500/10 px-4 py-2 rounded-full border border-green-500/20">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                Export {successCount} CSV
+              </button>
+            </div>
           )}
         </div>
         
+        {assets.length > 0 && (
+          <div className="flex justify-between items-center px-4">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => setSelectedIds(selectedAssets.length === assets.length ? new Set() : new Set(assets.map(a => a.id)))}
+                className="text-[10px] font-black text-white/40 hover:text-white uppercase tracking-[0.2em] transition-all"
+              >
+                {selectedAssets.length === assets.length ? 'Clear Selection' : `Select All ${assets.length}`}
+              </button>
+              <button
+                onClick={undo}
+                disabled={undoStack.length === 0}
+                className="text-[10px] font-black text-white/40 hover:text-white uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+                title={undoStack.length > 0 ? `Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                Undo
+              </button>
+              <button
+                onClick={redo}
+                disabled={redoStack.length === 0}
+                className="text-[10px] font-black text-white/40 hover:text-white uppercase tracking-[0.2em] transition-all disabled:opacity-20"
+                title={redoStack.length > 0 ? `Redo ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                Redo
+              </button>
+            </div>
+            {selectedAssets.length > 0 && (
+              <button
+                onClick={() => setShowBulkEdit(true)}
+                className="text-[10px] font-black text-white uppercase tracking-[0.2em] transition-all bg-white/5 hover:bg-white hover:text-black px-4 py-2 rounded-full border border-white/10"
+              >
+                Bulk Edit {selectedAssets.length} Selected
+              </button>
+            )}
+          </div>
+        )}
+
+        {duplicateGroups.length > 0 && (
+          <DuplicateGroups
+            groups={duplicateGroups}
+            assets={assets}
+            platform={platform}
+            onReuseMetadata={handleReuseMetadata}
+            onRemoveCopies={handleRemoveCopies}
+          />
+        )}
+
         <div className="grid grid-cols-1 gap-6">
           {assets.map((asset) => (
             <AssetItem 
               key={asset.id} 
               asset={asset} 
               platform={platform} 
-              onUpdate={(id, f, v) => setAssets(prev => prev.map(a => a.id === id ? { ...a, metadata: { ...a.metadata, [f]: v } } : a))} 
+              duplicateOf={exactCopies.get(asset.id)?.name}
+              selected={selectedIds.has(asset.id)}
+              onToggleSelect={toggleSelected}
+              onUpdate={handleFieldUpdate} 
+              onShowHistory={setHistoryAssetId}
               onRemove={removeAsset} 
-              onRegenerate={() => runGeneration(asset)} 
-              onAssetModified={handleAssetModified} 
+              onRegenerate={() => enqueueGeneration([asset.id])} 
+              onAssetEdited={handleAssetEdited}
+              onSelectRevision={handleSelectRevision}
+              onToggleLocation={handleToggleLocation}
+              languages={languages}
+              glossary={glossary}
+              onLocalizedUpdate={handleLocalizedUpdate}
+              onSetEditorial={handleSetEditorial}
+              onSetMature={handleSetMature}
+              onDismissFlag={handleDismissFlag}
+              onReleasesChange={handleReleasesChange}
+              onToggleIpOverride={handleToggleIpOverride}
             />
           ))}
         </div>
@@ -1,38 +1,101 @@
 
-import React, { useEffect, useState, useRef } from 'react';
-import { Asset, Platform } from '../types';
-import { MAX_TITLE_LENGTH, MAX_DESC_LENGTH, TARGET_KEYWORD_COUNT, SHUTTERSTOCK_CATEGORIES } from '../constants';
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { Asset, Language, Metadata, Platform } from '../types';
+import { PLATFORMS, PLATFORM_RULES, SHUTTERSTOCK_CATEGORIES, ADOBE_STOCK_CATEGORIES, DREAMSTIME_CATEGORIES } from '../constants';
 import { editImageAsset } from '../services/geminiService';
+import { getMetadata, hasMetadata } from '../services/metadataService';
+import { formatVideoProperties } from '../services/videoService';
+import { validateIp, validateMetadata, validateRights, ValidationIssue } from '../services/validationService';
+import { isBlocking, isOverridden, screenAsset } from '../services/ipScreeningService';
+import { formatLocation } from '../services/gazetteer';
+import { getLocalized, isStale, KeywordGlossary, languageName, localizeKeywords } from '../services/translationService';
+import { RevisionStrip } from './RevisionStrip';
+import { RightsPanel } from './RightsPanel';
+import { IpRiskPanel } from './IpRiskPanel';
 
 interface AssetItemProps {
   asset: Asset;
   platform: Platform;
-  onUpdate: (id: string, field: keyof Asset['metadata'], value: string) => void;
+  // Name of the earlier asset this file is a byte-for-byte copy of
+  duplicateOf?: string;
+  selected?: boolean;
+  onToggleSelect?: (id: string) => void;
+  onShowHistory?: (id: string) => void;
+  onUpdate: (id: string, field: keyof Metadata, value: string) => void;
   onRemove: (id: string) => void;
   onRegenerate: (id: string) => void;
-  onAssetModified: (id: string, newUrl: string) => void;
+  onAssetEdited: (id: string, image: Blob, prompt: string) => Promise<void>;
+  onSelectRevision: (id: string, revisionId?: string) => void;
+  onToggleLocation?: (id: string) => void;
+  // Export languages; each gets an editable translation below the keywords
+  languages?: Language[];
+  glossary?: KeywordGlossary;
+  onLocalizedUpdate?: (id: string, language: Language, field: 'title' | 'description', value: string) => void;
+  onSetEditorial?: (id: string, editorial: boolean) => void;
+  onSetMature?: (id: string, mature: boolean) => void;
+  onDismissFlag?: (id: string, kind: 'people' | 'logos' | 'landmarks', flag: string) => void;
+  onReleasesChange?: (id: string, kind: 'modelReleases' | 'propertyReleases', names: string[]) => void;
+  onToggleIpOverride?: (id: string, term: string) => void;
 }
 
+const FieldIssues: React.FC<{ issues: ValidationIssue[]; field: keyof Metadata }> = ({ issues, field }) => {
+  const matching = issues.filter(i => i.field === field);
+  if (matching.length === 0) return null;
+  return (
+    <div className="mt-1.5 space-y-0.5">
+      {matching.map((issue, i) => (
+        <p key={i} className={`text-[10px] font-bold ${issue.level === 'error' ? 'text-red-400' : 'text-yellow-500'}`}>
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+};
+
 export const AssetItem: React.FC<AssetItemProps> = ({
   asset,
   platform,
+  duplicateOf,
+  selected,
+  onToggleSelect,
+  onShowHistory,
   onUpdate,
   onRemove,
   onRegenerate,
-  onAssetModified,
+  onAssetEdited,
+  onSelectRevision,
+  onToggleLocation,
+  languages = [],
+  glossary = {},
+  onLocalizedUpdate,
+  onSetEditorial,
+  onSetMature,
+  onDismissFlag,
+  onReleasesChange,
+  onToggleIpOverride,
 }) => {
   const [keywordCount, setKeywordCount] = useState(0);
   const [showEditor, setShowEditor] = useState(false);
+  const [showTranslations, setShowTranslations] = useState(false);
   const [editPrompt, setEditPrompt] = useState('');
   const [copiedField, setCopiedField] = useState<string | null>(null);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
   const titleInputRef = useRef<HTMLInputElement>(null);
   const prevStatusRef = useRef(asset.status);
+  const metadata = getMetadata(asset, platform);
+  const rules = PLATFORM_RULES[platform];
+  // Screening is the slow check, so it only reruns when this asset changes
+  const ipMatches = useMemo(() => (hasMetadata(asset, platform) ? screenAsset(asset, platform) : []), [asset, platform]);
+  const ipBlocking = ipMatches.filter(m => isBlocking(asset, platform, m)).length;
+  const ipOpen = ipMatches.filter(m => !isOverridden(asset, m)).length;
+  const issues = hasMetadata(asset, platform)
+    ? [...validateMetadata(metadata, platform), ...validateRights(asset, platform), ...validateIp(asset, platform, ipMatches)]
+    : [];
 
   useEffect(() => {
-    const count = asset.metadata.keywords.split(',').filter((k) => k.trim().length > 0).length;
+    const count = metadata.keywords.split(',').filter((k) => k.trim().length > 0).length;
     setKeywordCount(count);
-  }, [asset.metadata.keywords]);
+  }, [metadata.keywords]);
 
   useEffect(() => {
     if (prevStatusRef.current === 'pending' && asset.status === 'success') {
@@ -41,11 +104,20 @@ export const AssetItem: React.FC<AssetItemProps> = ({
     prevStatusRef.current = asset.status;
   }, [asset.status]);
 
+  const [revisionUrls, setRevisionUrls] = useState<Record<string, string>>({});
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    asset.revisions?.forEach(r => { urls[r.id] = URL.createObjectURL(r.file); });
+    setRevisionUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [asset.revisions]);
+  const displayUrl = (asset.currentRevisionId && revisionUrls[asset.currentRevisionId]) || asset.previewUrl;
+
   const handleEdit = async () => {
     if (!editPrompt.trim()) return;
     try {
-      const newUrl = await editImageAsset(asset, editPrompt);
-      onAssetModified(asset.id, newUrl);
+      const image = await editImageAsset(asset, editPrompt);
+      await onAssetEdited(asset.id, image, editPrompt);
       setShowEditor(false);
       setEditPrompt('');
     } catch (err) {
@@ -65,6 +137,8 @@ export const AssetItem: React.FC<AssetItemProps> = ({
 
   const isTeepublic = platform === 'Teepublic';
   const isShutterstock = platform === 'Shutterstock';
+  const isAdobe = platform === 'Adobe Stock';
+  const isDreamstime = platform === 'Dreamstime';
   const canEdit = asset.type !== 'Video';
 
   const CopyIcon = ({ field }: { field: string }) => {
@@ -86,15 +160,24 @@ export const AssetItem: React.FC<AssetItemProps> = ({
 
   return (
     <div className={`p-5 rounded-2xl border transition-all ${
-      asset.status === 'error' ? 'border-red-500/50 bg-red-500/5' : 'border-white/5 bg-white/[0.02]'
+      asset.status === 'error' ? 'border-red-500/50 bg-red-500/5' : selected ? 'border-white/30 bg-white/[0.05]' : 'border-white/5 bg-white/[0.02]'
     }`}>
       <div className="flex items-start gap-4 mb-6">
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={Boolean(selected)}
+            onChange={() => onToggleSelect(asset.id)}
+            className="w-4 h-4 mt-1 accent-white cursor-pointer flex-shrink-0"
+            title="Select for bulk edit"
+          />
+        )}
         <div className="w-20 h-20 bg-white/5 rounded-xl flex-shrink-0 overflow-hidden flex items-center justify-center border border-white/10 relative group">
-          {asset.previewUrl ? (
+          {displayUrl ? (
             asset.type === 'Video' ? (
-              <video src={asset.previewUrl} className="w-full h-full object-cover" />
+              <video src={displayUrl} className="w-full h-full object-cover" />
             ) : (
-              <img src={asset.previewUrl} alt={asset.name} className="w-full h-full object-cover" />
+              <img src={displayUrl} alt={asset.name} className="w-full h-full object-cover" />
             )
           ) : (
              <div className="text-[10px] uppercase font-bold text-white/30">{asset.type}</div>
@@ -120,11 +203,72 @@ export const AssetItem: React.FC<AssetItemProps> = ({
                 <span className="text-[10px] px-2 py-0.5 rounded-full bg-white/10 text-white/60 font-black uppercase tracking-widest border border-white/5">
                   {asset.type}
                 </span>
+                {asset.companionName && (
+                  <span className="text-[10px] text-white/30 font-bold truncate" title="Paired preview, exported alongside the source file">+ {asset.companionName}</span>
+                )}
+                {asset.video && (
+                  <span className="text-[10px] text-white/30 font-bold tabular-nums">{formatVideoProperties(asset.video)}</span>
+                )}
+                {ipMatches.length > 0 && (
+                  <span
+                    className={`text-[10px] font-bold uppercase tracking-widest ${ipBlocking > 0 ? 'text-red-400' : ipOpen > 0 ? 'text-yellow-500' : 'text-white/30'}`}
+                    title={ipMatches.map(m => m.term).join(', ')}
+                  >
+                    {ipBlocking > 0 ? 'IP Risk' : ipOpen > 0 ? 'IP Warning' : 'IP Cleared'}
+                  </span>
+                )}
+                {duplicateOf && (
+                  <span className="text-[10px] text-yellow-500 font-bold uppercase tracking-widest truncate" title={`Same file as ${duplicateOf}; its metadata is copied over when generated`}>Duplicate</span>
+                )}
                 {asset.status === 'pending' && <span className="text-[10px] text-blue-400 animate-pulse font-bold">GENERATING...</span>}
+                {asset.status === 'success' && !hasMetadata(asset, platform) && (
+                  <span className="text-[10px] text-yellow-500 font-bold uppercase tracking-widest">No {platform} metadata</span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {PLATFORMS.filter(p => hasMetadata(asset, p)).map(p => (
+                  <span key={p} className={`text-[8px] px-1.5 py-0.5 rounded font-black uppercase tracking-widest border ${p === platform ? 'bg-white/10 text-white/70 border-white/20' : 'text-white/25 border-white/5'}`}>
+                    {p}
+                  </span>
+                ))}
+                {asset.prompt && (
+                  <span className="text-[8px] px-1.5 py-0.5 text-white/25 font-black uppercase tracking-widest truncate" title={asset.prompt.notes ? `Notes: ${asset.prompt.notes}` : undefined}>
+                    Preset: {asset.prompt.presetName}
+                  </span>
+                )}
               </div>
+              {asset.exif?.gps && (
+                <div className="flex items-center gap-2 mt-1.5 min-w-0">
+                  <svg className={`w-3 h-3 flex-shrink-0 ${asset.stripLocation ? 'text-white/20' : 'text-white/50'}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a2 2 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+                  <span
+                    className={`text-[10px] font-bold truncate ${asset.stripLocation ? 'text-white/20 line-through' : 'text-white/50'}`}
+                    title={`${asset.exif.gps.latitude.toFixed(5)}, ${asset.exif.gps.longitude.toFixed(5)}`}
+                  >
+                    {asset.location ? formatLocation(asset.location) : 'GPS position'}
+                  </span>
+                  {onToggleLocation && (
+                    <button
+                      onClick={() => onToggleLocation(asset.id)}
+                      className="text-[9px] font-black text-white/30 hover:text-white uppercase tracking-widest flex-shrink-0"
+                      title={asset.stripLocation ? 'Use the location in prompts and keep it in exported files' : 'Keep the location out of prompts and remove GPS from exported files'}
+                    >
+                      {asset.stripLocation ? 'Keep Location' : 'Strip Location'}
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="flex gap-1">
+              {onShowHistory && (asset.versions?.length || 0) > 1 && (
+                <button
+                  onClick={() => onShowHistory(asset.id)}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/40 hover:text-white"
+                  title={`Version history (${asset.versions!.length})`}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                </button>
+              )}
               <button
                 onClick={() => onRegenerate(asset.id)}
                 className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/40 hover:text-white"
@@ -166,6 +310,34 @@ export const AssetItem: React.FC<AssetItemProps> = ({
         </div>
       )}
 
+      {asset.revisions && asset.revisions.length > 0 && (
+        <RevisionStrip
+          asset={asset}
+          revisionUrls={revisionUrls}
+          onSelect={(revisionId?: string) => onSelectRevision(asset.id, revisionId)}
+        />
+      )}
+
+      {hasMetadata(asset, platform) && platform !== 'Teepublic' && onSetEditorial && (
+        <RightsPanel
+          asset={asset}
+          platform={platform}
+          onSetEditorial={(editorial: boolean) => onSetEditorial(asset.id, editorial)}
+          onSetMature={(mature: boolean) => onSetMature?.(asset.id, mature)}
+          onDismissFlag={(kind: 'people' | 'logos' | 'landmarks', flag: string) => onDismissFlag?.(asset.id, kind, flag)}
+          onReleasesChange={(kind: 'modelReleases' | 'propertyReleases', names: string[]) => onReleasesChange?.(asset.id, kind, names)}
+        />
+      )}
+
+      {ipMatches.length > 0 && onToggleIpOverride && (
+        <IpRiskPanel
+          asset={asset}
+          platform={platform}
+          matches={ipMatches}
+          onToggleOverride={(term: string) => onToggleIpOverride(asset.id, term)}
+        />
+      )}
+
       {asset.status === 'pending' ? (
         <div className="space-y-4">
           <div className="h-10 bg-white/5 rounded-xl animate-pulse" />
@@ -177,50 +349,52 @@ export const AssetItem: React.FC<AssetItemProps> = ({
           <div>
             <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block flex justify-between">
               Title
-              <span className={asset.metadata.title.length > MAX_TITLE_LENGTH ? 'text-red-400' : 'text-white/20'}>
-                {asset.metadata.title.length}/{MAX_TITLE_LENGTH}
+              <span className={metadata.title.length > rules.title.max ? 'text-red-400' : 'text-white/20'}>
+                {metadata.title.length}/{rules.title.max}
               </span>
             </label>
             <div className="relative group">
               <input
                 ref={titleInputRef}
                 type="text"
-                value={asset.metadata.title}
+                value={metadata.title}
                 onChange={(e) => onUpdate(asset.id, 'title', e.target.value)}
                 className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20 transition-all pr-12"
               />
               <button 
-                onClick={() => copyToClipboard(asset.metadata.title, 'title')} 
+                onClick={() => copyToClipboard(metadata.title, 'title')} 
                 className="absolute right-2 top-1/2 -translate-y-1/2 p-2 hover:bg-white/5 rounded-lg transition-colors"
                 title="Copy Title"
               >
                 <CopyIcon field="title" />
               </button>
             </div>
+            <FieldIssues issues={issues} field="title" />
           </div>
 
           <div>
             <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block flex justify-between">
               Description
-              <span className={asset.metadata.description.length > MAX_DESC_LENGTH ? 'text-red-400' : 'text-white/20'}>
-                {asset.metadata.description.length}/{MAX_DESC_LENGTH}
+              <span className={metadata.description.length > rules.description.max ? 'text-red-400' : 'text-white/20'}>
+                {metadata.description.length}/{rules.description.max}
               </span>
             </label>
             <div className="relative group">
               <textarea
-                value={asset.metadata.description}
+                value={metadata.description}
                 onChange={(e) => onUpdate(asset.id, 'description', e.target.value)}
                 rows={2}
                 className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20 transition-all resize-none pr-12"
               />
               <button 
-                onClick={() => copyToClipboard(asset.metadata.description, 'description')} 
+                onClick={() => copyToClipboard(metadata.description, 'description')} 
                 className="absolute right-2 top-3 p-2 hover:bg-white/5 rounded-lg transition-colors"
                 title="Copy Description"
               >
                 <CopyIcon field="description" />
               </button>
             </div>
+            <FieldIssues issues={issues} field="description" />
           </div>
 
           {isShutterstock && (
@@ -228,24 +402,70 @@ export const AssetItem: React.FC<AssetItemProps> = ({
               <div>
                 <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block">Category 1</label>
                 <select
-                  value={asset.metadata.category1 || ''}
+                  value={metadata.category1 || ''}
                   onChange={(e) => onUpdate(asset.id, 'category1', e.target.value)}
                   className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20"
                 >
                   <option value="">Select Category</option>
                   {SHUTTERSTOCK_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
                 </select>
+                <FieldIssues issues={issues} field="category1" />
               </div>
               <div>
                 <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block">Category 2</label>
                 <select
-                  value={asset.metadata.category2 || ''}
+                  value={metadata.category2 || ''}
                   onChange={(e) => onUpdate(asset.id, 'category2', e.target.value)}
                   className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20"
                 >
                   <option value="">Select Category</option>
                   {SHUTTERSTOCK_CATEGORIES.map(cat => <option key={cat} value={cat}>{cat}</option>)}
                 </select>
+                <FieldIssues issues={issues} field="category2" />
+              </div>
+            </div>
+          )}
+
+          {isAdobe && (
+            <div>
+              <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block">Category</label>
+              <select
+                value={metadata.adobeCategory || ''}
+                onChange={(e) => onUpdate(asset.id, 'adobeCategory', e.target.value)}
+                className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20"
+              >
+                <option value="">Select Category</option>
+                {ADOBE_STOCK_CATEGORIES.map(cat => <option key={cat.id} value={cat.id}>{cat.id}. {cat.name}</option>)}
+              </select>
+              <FieldIssues issues={issues} field="adobeCategory" />
+            </div>
+          )}
+
+          {isDreamstime && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block">Category 1</label>
+                <select
+                  value={metadata.dreamstimeCategory1 || ''}
+                  onChange={(e) => onUpdate(asset.id, 'dreamstimeCategory1', e.target.value)}
+                  className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20"
+                >
+                  <option value="">Select Category</option>
+                  {DREAMSTIME_CATEGORIES.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+                </select>
+                <FieldIssues issues={issues} field="dreamstimeCategory1" />
+              </div>
+              <div>
+                <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block">Category 2</label>
+                <select
+                  value={metadata.dreamstimeCategory2 || ''}
+                  onChange={(e) => onUpdate(asset.id, 'dreamstimeCategory2', e.target.value)}
+                  className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20"
+                >
+                  <option value="">Select Category</option>
+                  {DREAMSTIME_CATEGORIES.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+                </select>
+                <FieldIssues issues={issues} field="dreamstimeCategory2" />
               </div>
             </div>
           )}
@@ -256,44 +476,93 @@ export const AssetItem: React.FC<AssetItemProps> = ({
               <div className="relative group">
                 <input
                   type="text"
-                  value={asset.metadata.mainTag || ''}
+                  value={metadata.mainTag || ''}
                   onChange={(e) => onUpdate(asset.id, 'mainTag', e.target.value)}
                   className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20 pr-12"
                 />
                 <button 
-                  onClick={() => copyToClipboard(asset.metadata.mainTag || '', 'mainTag')} 
+                  onClick={() => copyToClipboard(metadata.mainTag || '', 'mainTag')} 
                   className="absolute right-2 top-1/2 -translate-y-1/2 p-2 hover:bg-white/5 rounded-lg transition-colors"
                   title="Copy Main Tag"
                 >
                   <CopyIcon field="mainTag" />
                 </button>
               </div>
+              <FieldIssues issues={issues} field="mainTag" />
             </div>
           )}
 
           <div>
             <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block flex justify-between">
               {isTeepublic ? 'Supporting Tags' : 'Keywords (Search Grounded)'}
-              <span className={keywordCount !== TARGET_KEYWORD_COUNT ? 'text-yellow-500' : 'text-green-500/70'}>
-                {keywordCount} / {TARGET_KEYWORD_COUNT}
+              <span className={keywordCount > rules.keywords.max || keywordCount < rules.keywords.min ? 'text-red-400' : keywordCount < rules.keywords.target ? 'text-yellow-500' : 'text-green-500/70'}>
+                {keywordCount} / {rules.keywords.target}
               </span>
             </label>
             <div className="relative group">
               <textarea
                 ref={textAreaRef}
-                value={asset.metadata.keywords}
+                value={metadata.keywords}
                 onChange={(e) => onUpdate(asset.id, 'keywords', e.target.value)}
                 className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-3 text-sm text-white/90 focus:outline-none focus:border-white/20 transition-all min-h-[100px] pr-12"
               />
               <button 
-                onClick={() => copyToClipboard(asset.metadata.keywords, 'keywords')} 
+                onClick={() => copyToClipboard(metadata.keywords, 'keywords')} 
                 className="absolute right-2 top-3 p-2 hover:bg-white/5 rounded-lg transition-colors"
                 title={isTeepublic ? "Copy Supporting Tags" : "Copy Keywords"}
               >
                 <CopyIcon field="keywords" />
               </button>
             </div>
+            <FieldIssues issues={issues} field="keywords" />
           </div>
+
+          {languages.length > 0 && (
+            <div className="border-t border-white/5 pt-4 space-y-4">
+              <button
+                onClick={() => setShowTranslations(!showTranslations)}
+                className="text-[10px] font-black text-white/40 hover:text-white uppercase tracking-widest transition-colors"
+              >
+                {showTranslations ? 'Hide' : 'Show'} Translations • {languages.filter(l => getLocalized(asset, platform, l)).length} / {languages.length}
+              </button>
+              {showTranslations && languages.map(language => {
+                const localized = getLocalized(asset, platform, language);
+                const keywords = localizeKeywords(metadata.keywords, language, glossary);
+                return (
+                  <div key={language} className="space-y-2">
+                    <label className="text-[10px] text-white/30 font-black uppercase tracking-widest block flex justify-between">
+                      {languageName(language)} ({language})
+                      {isStale(asset, platform, language) && <span className="text-yellow-500">English changed since translation</span>}
+                    </label>
+                    {localized ? (
+                      <>
+                        <input
+                          value={localized.title}
+                          onChange={(e) => onLocalizedUpdate?.(asset.id, language, 'title', e.target.value)}
+                          placeholder="Title"
+                          className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-2 text-sm text-white/90 focus:outline-none focus:border-white/20 transition-all"
+                        />
+                        <textarea
+                          value={localized.description}
+                          onChange={(e) => onLocalizedUpdate?.(asset.id, language, 'description', e.target.value)}
+                          placeholder="Description"
+                          className="w-full bg-black/40 border border-white/5 rounded-xl px-4 py-2 text-sm text-white/90 focus:outline-none focus:border-white/20 transition-all min-h-[60px]"
+                        />
+                      </>
+                    ) : (
+                      <p className="text-[10px] text-white/30">Not translated yet.</p>
+                    )}
+                    <p className="text-[11px] text-white/50">
+                      {keywords.keywords.join(', ')}
+                      {keywords.missing.length > 0 && (
+                        <span className="text-yellow-500/80 font-bold" title={keywords.missing.join(', ')}> • {keywords.missing.length} keyword(s) left in English</span>
+                      )}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       )}
     </div>
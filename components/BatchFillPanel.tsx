@@ -0,0 +1,185 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Asset, Platform } from '../types';
+import { getMetadata, hasMetadata } from '../services/metadataService';
+import { PortalPage, listUploadTiles, selectUploadTile, fillPage, fetchImage } from '../services/extensionBridge';
+import { matchTilesToAssets, TileMatch } from '../services/batchFillService';
+import { fillFlagsFor } from '../services/portalFillers';
+import { errorMessage } from '../services/providers';
+
+interface BatchFillPanelProps {
+  page: PortalPage | null;
+  portal: Platform;
+  fallbackPlatform: Platform;
+  assets: Asset[];
+  onClose: () => void;
+}
+
+type TileStatus = 'waiting' | 'filling' | 'filled' | 'skipped' | 'failed';
+
+// Time for the portal to swap its edit form after a tile is clicked
+const TILE_SETTLE_MS = 1200;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const BatchFillPanel: React.FC<BatchFillPanelProps> = ({ page, portal, fallbackPlatform, assets, onClose }) => {
+  const [matches, setMatches] = useState<TileMatch[] | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [statuses, setStatuses] = useState<Record<number, TileStatus>>({});
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [skipped, setSkipped] = useState<Set<number>>(new Set());
+  const [isRunning, setIsRunning] = useState(false);
+  const stopRef = useRef(false);
+  // The run loop reads skips made while it is already going
+  const skippedRef = useRef(skipped);
+  skippedRef.current = skipped;
+  const statusesRef = useRef(statuses);
+
+  useEffect(() => {
+    if (!page) return;
+    setMatches(null);
+    setScanError(null);
+    listUploadTiles(page, portal)
+      .then(tiles => matchTilesToAssets(tiles, assets, fetchImage))
+      .then(setMatches)
+      .catch((e) => setScanError(e?.message || 'Could not read the upload queue'));
+  }, [page?.tabId, portal]);
+
+  if (!page) return null;
+
+  const assetFor = (match: TileMatch) => assets.find(a => a.id === match.assetId);
+  const metadataSource = (asset: Asset) => hasMetadata(asset, portal) ? portal : hasMetadata(asset, fallbackPlatform) ? fallbackPlatform : null;
+  const setStatus = (index: number, status: TileStatus, note?: string) => {
+    statusesRef.current = { ...statusesRef.current, [index]: status };
+    setStatuses(statusesRef.current);
+    if (note !== undefined) setNotes(prev => ({ ...prev, [index]: note }));
+  };
+
+  const toggleSkip = (index: number) => {
+    setSkipped(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const runBatch = async () => {
+    if (!matches) return;
+    stopRef.current = false;
+    setIsRunning(true);
+
+    for (const match of matches) {
+      if (stopRef.current) break;
+      const { index } = match.tile;
+      // Continuing after a stop resumes where it left off and retries failures
+      if (statusesRef.current[index] === 'filled' || statusesRef.current[index] === 'skipped') continue;
+      const asset = assetFor(match);
+      const source = asset ? metadataSource(asset) : null;
+      if (skippedRef.current.has(index) || !asset || !source) {
+        setStatus(index, 'skipped', !asset ? 'No matching asset' : !source ? 'No metadata yet' : undefined);
+        continue;
+      }
+
+      setStatus(index, 'filling');
+      try {
+        await selectUploadTile(page, portal, index);
+        await wait(TILE_SETTLE_MS);
+        const report = await fillPage(page, getMetadata(asset, source), portal, fillFlagsFor(asset));
+        const missed = report.skipped.map(s => s.field).join(', ');
+        setStatus(index, report.filled.length > 0 ? 'filled' : 'failed', missed ? `Skipped ${missed}` : '');
+      } catch (e) {
+        setStatus(index, 'failed', errorMessage(e) || 'Fill failed');
+      }
+    }
+    setIsRunning(false);
+  };
+
+  const total = matches?.length || 0;
+  const done = Object.values(statuses).filter(s => s !== 'waiting' && s !== 'filling').length;
+  const matchedCount = matches?.filter(m => m.assetId).length || 0;
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-6 bg-black/90 backdrop-blur-xl">
+      <div className="glass max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-[40px] p-8 sm:p-12 border-white/10 shadow-2xl relative space-y-6">
+        <button
+          onClick={() => {
+            stopRef.current = true;
+            onClose();
+          }}
+          className="absolute top-8 right-8 text-white/20 hover:text-white transition-all hover:rotate-90 duration-300"
+        >
+          <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+
+        <div>
+          <p className="text-[10px] font-[900] text-white/40 uppercase tracking-[0.5em] mb-2">{portal} Upload Queue</p>
+          <h2 className="text-3xl font-[900] uppercase tracking-tighter text-white">Batch Fill</h2>
+          {matches && (
+            <p className="text-[11px] text-white/40 mt-3">{total} pending uploads • {matchedCount} matched to pipeline assets</p>
+          )}
+        </div>
+
+        {scanError && <p className="text-[11px] font-bold text-red-400">{scanError}</p>}
+        {!matches && !scanError && <div className="h-24 bg-white/5 rounded-2xl animate-pulse" />}
+
+        {matches && total > 0 && (
+          <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
+            <div className="h-full bg-green-400 transition-all duration-500" style={{ width: `${Math.round((done / total) * 100)}%` }} />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {matches?.map(match => {
+            const { index, name } = match.tile;
+            const asset = assetFor(match);
+            const status = statuses[index] || 'waiting';
+            const isSkipped = skipped.has(index);
+            return (
+              <div key={index} className={`flex items-center gap-3 p-3 rounded-xl border ${status === 'filling' ? 'border-blue-500/40 bg-blue-500/5' : 'border-white/5 bg-white/[0.02]'}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-bold text-white truncate">{name || `Tile ${index + 1}`}</p>
+                  <p className="text-[10px] text-white/30 truncate">
+                    {asset ? `→ ${asset.name}${match.method === 'hash' ? ' (image match)' : ''}` : 'No matching asset'}
+                    {notes[index] ? ` • ${notes[index]}` : ''}
+                  </p>
+                </div>
+                <span className={`text-[9px] font-black uppercase tracking-widest ${
+                  status === 'filled' ? 'text-green-400' : status === 'failed' ? 'text-red-400' : status === 'filling' ? 'text-blue-400 animate-pulse' : 'text-white/30'
+                }`}>
+                  {status === 'waiting' && isSkipped ? 'skip' : status}
+                </span>
+                {status === 'waiting' && asset && (
+                  <button
+                    onClick={() => toggleSkip(index)}
+                    className="text-[9px] font-black text-white/40 hover:text-white uppercase tracking-widest"
+                  >
+                    {isSkipped ? 'Include' : 'Skip'}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          {isRunning ? (
+            <button
+              onClick={() => { stopRef.current = true; }}
+              className="px-5 py-2.5 rounded-xl bg-red-500/10 hover:bg-red-500 border border-red-500/20 text-[10px] font-black text-red-400 hover:text-white uppercase tracking-widest transition-all"
+            >
+              Stop After Current
+            </button>
+          ) : (
+            <button
+              onClick={runBatch}
+              disabled={!matches || matchedCount === 0 || done === total}
+              className="px-5 py-2.5 rounded-xl bg-white text-black text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-30"
+            >
+              {done > 0 ? 'Continue' : `Fill ${matchedCount - skipped.size} Uploads`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
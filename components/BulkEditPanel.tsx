@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { Asset, Metadata, Platform } from '../types';
+import { hasMetadata } from '../services/metadataService';
+import { applyBulkEdit, BulkOperation, compilePattern, SETTABLE_FIELDS, TextField } from '../services/bulkEditService';
+import { errorMessage } from '../services/providers';
+
+interface BulkEditPanelProps {
+  isOpen: boolean;
+  assets: Asset[];
+  platform: Platform;
+  undoLabel?: string;
+  onApply: (op: BulkOperation) => void;
+  onUndo: () => void;
+  onClose: () => void;
+}
+
+type Tab = 'keywords' | 'replace' | 'field' | 'template';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'keywords', label: 'Keywords' },
+  { id: 'replace', label: 'Find & Replace' },
+  { id: 'field', label: 'Set Field' },
+  { id: 'template', label: 'Prefix / Suffix' },
+];
+
+const inputClass = 'w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm text-white focus:outline-none focus:border-white/30';
+const labelClass = 'text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block';
+
+export const BulkEditPanel: React.FC<BulkEditPanelProps> = ({ isOpen, assets, platform, undoLabel, onApply, onUndo, onClose }) => {
+  const [tab, setTab] = useState<Tab>('keywords');
+  const [keywordMode, setKeywordMode] = useState<'addKeywords' | 'removeKeywords' | 'replaceKeyword'>('addKeywords');
+  const [keywords, setKeywords] = useState('');
+  const [replaceWith, setReplaceWith] = useState('');
+  const [textField, setTextField] = useState<TextField>('title');
+  const [pattern, setPattern] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [field, setField] = useState<keyof Metadata | ''>('');
+  const [fieldValue, setFieldValue] = useState('');
+  const [prefix, setPrefix] = useState('');
+  const [suffix, setSuffix] = useState('');
+
+  if (!isOpen) return null;
+
+  const fields = SETTABLE_FIELDS[platform];
+  const activeField = fields.find(f => f.field === field) || fields[0];
+  const editable = assets.filter(a => hasMetadata(a, platform));
+
+  let operation: BulkOperation | null = null;
+  let patternError: string | null = null;
+  if (tab === 'keywords' && keywords.trim()) {
+    operation = keywordMode === 'replaceKeyword'
+      ? (replaceWith.trim() ? { kind: 'replaceKeyword', find: keywords, replace: replaceWith } : null)
+      : { kind: keywordMode, keywords };
+  } else if (tab === 'replace' && pattern) {
+    try {
+      compilePattern(pattern, caseSensitive);
+      operation = { kind: 'findReplace', field: textField, pattern, replacement, caseSensitive };
+    } catch (e) {
+      patternError = errorMessage(e) || 'Invalid pattern';
+    }
+  } else if (tab === 'field' && activeField) {
+    operation = { kind: 'setField', field: activeField.field, value: fieldValue };
+  } else if (tab === 'template' && (prefix || suffix)) {
+    operation = { kind: 'template', field: textField, prefix, suffix };
+  }
+  const changeCount = operation ? applyBulkEdit(assets, operation, platform).size : 0;
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-6 bg-black/90 backdrop-blur-xl">
+      <div className="glass max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-[40px] p-8 sm:p-12 border-white/10 shadow-2xl relative space-y-6">
+        <button
+          onClick={onClose}
+          className="absolute top-8 right-8 text-white/20 hover:text-white transition-all hover:rotate-90 duration-300"
+        >
+          <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+
+        <div>
+          <p className="text-[10px] font-[900] text-white/40 uppercase tracking-[0.5em] mb-2">{assets.length} Selected • {platform}</p>
+          <h2 className="text-3xl font-[900] uppercase tracking-tighter text-white">Bulk Edit</h2>
+          {editable.length < assets.length && (
+            <p className="text-[11px] text-yellow-500/80 mt-3">{assets.length - editable.length} selected assets have no {platform} metadata and are left alone.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap bg-black/40 p-1 rounded-full border border-white/5 w-fit">
+          {TABS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${tab === t.id ? 'bg-white text-black' : 'text-white/30 hover:text-white/60'}`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'keywords' && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              {(['addKeywords', 'removeKeywords', 'replaceKeyword'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setKeywordMode(mode)}
+                  className={`px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${keywordMode === mode ? 'bg-white/10 text-white border-white/20' : 'text-white/30 border-white/5 hover:text-white/60'}`}
+                >
+                  {mode === 'addKeywords' ? 'Add' : mode === 'removeKeywords' ? 'Remove' : 'Replace'}
+                </button>
+              ))}
+            </div>
+            <div>
+              <label className={labelClass}>{keywordMode === 'replaceKeyword' ? 'Keyword' : 'Keywords, comma separated'}</label>
+              <input value={keywords} onChange={(e) => setKeywords(e.target.value)} className={inputClass} placeholder={keywordMode === 'replaceKeyword' ? 'autumn' : 'bali, indonesia'} />
+            </div>
+            {keywordMode === 'replaceKeyword' && (
+              <div>
+                <label className={labelClass}>Replace With</label>
+                <input value={replaceWith} onChange={(e) => setReplaceWith(e.target.value)} className={inputClass} placeholder="fall" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {(tab === 'replace' || tab === 'template') && (
+          <div className="flex gap-2">
+            {(['title', 'description'] as const).map(f => (
+              <button
+                key={f}
+                onClick={() => setTextField(f)}
+                className={`px-3 py-2 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${textField === f ? 'bg-white/10 text-white border-white/20' : 'text-white/30 border-white/5 hover:text-white/60'}`}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {tab === 'replace' && (
+          <div className="space-y-4">
+            <div>
+              <label className={labelClass}>Find (regular expression)</label>
+              <input value={pattern} onChange={(e) => setPattern(e.target.value)} className={`${inputClass} font-mono`} placeholder="\bautumn\b" />
+              {patternError && <p className="text-[10px] font-bold text-red-400 mt-1.5">{patternError}</p>}
+            </div>
+            <div>
+              <label className={labelClass}>Replace With ($1 for groups)</label>
+              <input value={replacement} onChange={(e) => setReplacement(e.target.value)} className={inputClass} />
+            </div>
+            <label className="flex items-center gap-3 cursor-pointer select-none">
+              <input type="checkbox" checked={caseSensitive} onChange={(e) => setCaseSensitive(e.target.checked)} className="w-4 h-4 accent-white" />
+              <span className="text-[10px] font-black text-white/40 uppercase tracking-widest">Case sensitive</span>
+            </label>
+          </div>
+        )}
+
+        {tab === 'field' && activeField && (
+          <div className="space-y-4">
+            {fields.length > 1 && (
+              <div>
+                <label className={labelClass}>Field</label>
+                <select value={activeField.field} onChange={(e) => { setField(e.target.value as keyof Metadata); setFieldValue(''); }} className={inputClass}>
+                  {fields.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className={labelClass}>{activeField.label}</label>
+              {activeField.options ? (
+                <select value={fieldValue} onChange={(e) => setFieldValue(e.target.value)} className={inputClass}>
+                  <option value="">None</option>
+                  {activeField.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              ) : (
+                <input value={fieldValue} onChange={(e) => setFieldValue(e.target.value)} className={inputClass} />
+              )}
+            </div>
+          </div>
+        )}
+
+        {tab === 'template' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Prefix</label>
+                <input value={prefix} onChange={(e) => setPrefix(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Suffix</label>
+                <input value={suffix} onChange={(e) => setSuffix(e.target.value)} className={inputClass} placeholder=", Bali, Indonesia" />
+              </div>
+            </div>
+            <p className="text-[10px] text-white/30">{'{name}'} inserts the filename, {'{n}'} the asset's number in the selection.</p>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-between items-center gap-3 pt-2">
+          {undoLabel ? (
+            <button
+              onClick={onUndo}
+              className="text-[10px] font-black text-white/40 hover:text-white uppercase tracking-widest transition-all truncate max-w-[60%]"
+              title={undoLabel}
+            >
+              Undo: {undoLabel}
+            </button>
+          ) : <span />}
+          <button
+            onClick={() => operation && onApply(operation)}
+            disabled={changeCount === 0}
+            className="px-5 py-2.5 rounded-xl bg-white text-black text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-30"
+          >
+            Apply to {changeCount} Assets
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
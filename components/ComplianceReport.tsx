@@ -0,0 +1,71 @@
+import React from 'react';
+import { Platform } from '../types';
+import { ComplianceEntry, hasErrors } from '../services/validationService';
+
+interface ComplianceReportProps {
+  entries: ComplianceEntry[] | null;
+  platform: Platform;
+  onExportAnyway: () => void;
+  onClose: () => void;
+}
+
+export const ComplianceReport: React.FC<ComplianceReportProps> = ({ entries, platform, onExportAnyway, onClose }) => {
+  if (!entries) return null;
+
+  const blocked = entries.filter(e => hasErrors(e.issues)).length;
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-6 bg-black/90 backdrop-blur-xl">
+      <div className="glass max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-[40px] p-8 sm:p-12 border-white/10 shadow-2xl relative space-y-8">
+        <button
+          onClick={onClose}
+          className="absolute top-8 right-8 text-white/20 hover:text-white transition-all hover:rotate-90 duration-300"
+        >
+          <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+
+        <div>
+          <p className="text-[10px] font-[900] text-white/40 uppercase tracking-[0.5em] mb-2">{platform} Compliance</p>
+          <h2 className="text-3xl font-[900] uppercase tracking-tighter text-white">
+            {blocked > 0 ? `${blocked} Asset${blocked > 1 ? 's' : ''} Blocked` : 'Review Warnings'}
+          </h2>
+          <p className="text-[11px] text-white/40 mt-3">
+            {blocked > 0
+              ? `Fix the errors below before exporting; ${platform} would reject these rows.`
+              : 'Nothing here will be rejected, but these rows could rank better.'}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          {entries.map(({ asset, issues }) => (
+            <div key={asset.id} className={`p-4 rounded-2xl border space-y-1.5 ${hasErrors(issues) ? 'border-red-500/30 bg-red-500/5' : 'border-white/5 bg-white/[0.02]'}`}>
+              <p className="text-xs font-bold text-white truncate" title={asset.name}>{asset.name}</p>
+              {issues.map((issue, i) => (
+                <p key={i} className={`text-[10px] font-bold ${issue.level === 'error' ? 'text-red-400' : 'text-yellow-500'}`}>
+                  {issue.message}
+                </p>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-5 py-2.5 rounded-xl bg-white/5 hover:bg-white/10 border border-white/10 text-[10px] font-black text-white uppercase tracking-widest transition-all"
+          >
+            Back to Editing
+          </button>
+          {blocked === 0 && (
+            <button
+              onClick={onExportAnyway}
+              className="px-5 py-2.5 rounded-xl bg-white text-black text-[10px] font-black uppercase tracking-widest transition-all active:scale-95"
+            >
+              Export Anyway
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
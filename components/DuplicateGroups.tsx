@@ -0,0 +1,60 @@
+import React from 'react';
+import { Asset, Platform } from '../types';
+import { hasMetadata } from '../services/metadataService';
+import { DuplicateGroup } from '../services/duplicateService';
+
+interface DuplicateGroupsProps {
+  groups: DuplicateGroup[];
+  assets: Asset[];
+  platform: Platform;
+  onReuseMetadata: (group: DuplicateGroup) => void;
+  onRemoveCopies: (group: DuplicateGroup) => void;
+}
+
+export const DuplicateGroups: React.FC<DuplicateGroupsProps> = ({ groups, assets, platform, onReuseMetadata, onRemoveCopies }) => (
+  <div className="glass p-6 rounded-[28px] border border-yellow-500/10 space-y-4">
+    <div className="flex justify-between items-center">
+      <label className="text-[10px] font-black text-yellow-500/70 uppercase tracking-[0.2em]">Duplicates & Similar Shots</label>
+      <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">{groups.length} groups</span>
+    </div>
+    {groups.map(group => {
+      const members = assets.filter(a => group.ids.includes(a.id));
+      const withMetadata = members.filter(a => a.status === 'success' && hasMetadata(a, platform));
+      const canReuse = withMetadata.length > 0 && withMetadata.length < members.length;
+      return (
+        <div key={group.ids.join()} className="flex items-center gap-4 p-3 rounded-xl border border-white/5 bg-white/[0.02]">
+          <div className="flex -space-x-3 shrink-0">
+            {members.slice(0, 4).map(a => (
+              <div key={a.id} className="w-10 h-10 rounded-lg overflow-hidden bg-black border border-white/10" title={a.name}>
+                {a.previewUrl && a.type !== 'Video' && <img src={a.previewUrl} alt={a.name} className="w-full h-full object-cover" />}
+              </div>
+            ))}
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="text-[10px] font-black text-white uppercase tracking-widest">
+              {group.exact ? 'Exact duplicates' : 'Near-duplicates'} • {members.length}
+            </p>
+            <p className="text-[10px] text-white/30 truncate">{members.map(a => a.name).join(', ')}</p>
+          </div>
+          {canReuse && (
+            <button
+              onClick={() => onReuseMetadata(group)}
+              className="px-3 py-2 rounded-lg bg-white/5 hover:bg-white hover:text-black border border-white/10 text-[9px] font-black text-white uppercase tracking-widest transition-all"
+              title="Copy metadata to the other shots with reshuffled keywords instead of calling the model"
+            >
+              Reuse Metadata
+            </button>
+          )}
+          {group.exact && (
+            <button
+              onClick={() => onRemoveCopies(group)}
+              className="px-3 py-2 rounded-lg bg-red-500/10 hover:bg-red-500 border border-red-500/20 text-[9px] font-black text-red-400 hover:text-white uppercase tracking-widest transition-all"
+            >
+              Remove Copies
+            </button>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
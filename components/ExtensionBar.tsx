@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { Asset, Platform } from '../types';
+import { getMetadata, hasMetadata } from '../services/metadataService';
+import { PortalPage, watchActivePortalPage, grabPageImage, fillPage } from '../services/extensionBridge';
+import { fillFlagsFor, PORTAL_FILLERS } from '../services/portalFillers';
+import { errorMessage } from '../services/providers';
+import { BatchFillPanel } from './BatchFillPanel';
+
+interface ExtensionBarProps {
+  assets: Asset[];
+  platform: Platform;
+  onGrab: (file: File) => void;
+}
+
+export const ExtensionBar: React.FC<ExtensionBarProps> = ({ assets, platform, onGrab }) => {
+  const [page, setPage] = useState<PortalPage | null>(null);
+  const [selectedId, setSelectedId] = useState('');
+  const [busy, setBusy] = useState<'grab' | 'fill' | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [showBatch, setShowBatch] = useState(false);
+
+  useEffect(() => watchActivePortalPage(setPage), []);
+
+  // Fill with the portal's own metadata when the asset has it
+  const fillPlatform = page?.platform || platform;
+  const fillable = assets.filter(a => a.status === 'success' && (hasMetadata(a, fillPlatform) || hasMetadata(a, platform)));
+  const selected = fillable.find(a => a.id === selectedId) || fillable[0];
+
+  const run = async (kind: 'grab' | 'fill', action: () => Promise<string>) => {
+    setBusy(kind);
+    setMessage(null);
+    try {
+      setMessage({ text: await action(), isError: false });
+    } catch (e) {
+      setMessage({ text: errorMessage(e) || 'Something went wrong', isError: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleGrab = () => run('grab', async () => {
+    if (!page) throw new Error('No active tab');
+    const file = await grabPageImage(page);
+    onGrab(file);
+    return `Added ${file.name}`;
+  });
+
+  const handleFill = () => run('fill', async () => {
+    if (!page || !selected) throw new Error('Nothing to fill');
+    const source = hasMetadata(selected, fillPlatform) ? fillPlatform : platform;
+    const report = await fillPage(page, getMetadata(selected, source), fillPlatform, fillFlagsFor(selected));
+    if (report.filled.length === 0) throw new Error('No form fields were found on this page');
+    const skipped = report.skipped.map(s => `${s.field} (${s.reason})`).join(', ');
+    return `Filled ${report.filled.join(', ')} from ${selected.name}${source !== fillPlatform ? ` (${source} metadata)` : ''}${skipped ? ` • skipped ${skipped}` : ''}`;
+  });
+
+  const hasUploadQueue = Boolean(page?.platform && PORTAL_FILLERS[page.platform].queue);
+
+  return (
+    <div className="glass p-6 rounded-[28px] border border-white/5 space-y-4">
+      {showBatch && page?.platform && (
+        <BatchFillPanel
+          page={page}
+          portal={page.platform}
+          fallbackPlatform={platform}
+          assets={assets}
+          onClose={() => setShowBatch(false)}
+        />
+      )}
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-black text-white/30 uppercase tracking-[0.2em]">This Page</label>
+        <span className={`text-[9px] font-black uppercase tracking-widest ${page?.platform ? 'text-green-400' : 'text-white/30'}`}>
+          {page?.platform ? `${page.platform}${page.connected ? '' : ' • reload tab'}` : 'Not a contributor portal'}
+        </span>
+      </div>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <button
+          onClick={handleGrab}
+          disabled={!page?.connected || busy !== null}
+          className="flex-1 px-4 py-3 rounded-xl bg-white/5 hover:bg-white hover:text-black border border-white/10 text-[10px] font-black text-white uppercase tracking-widest transition-all disabled:opacity-30"
+        >
+          {busy === 'grab' ? 'Grabbing...' : 'Grab image from this page'}
+        </button>
+        <select
+          value={selected?.id || ''}
+          onChange={(e) => setSelectedId(e.target.value)}
+          disabled={fillable.length === 0}
+          className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-3 text-[11px] text-white focus:outline-none disabled:opacity-30"
+        >
+          {fillable.length === 0 && <option value="">No generated assets</option>}
+          {fillable.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+        </select>
+        <button
+          onClick={handleFill}
+          disabled={!page?.connected || !selected || busy !== null}
+          className="flex-1 px-4 py-3 rounded-xl bg-white text-black text-[10px] font-black uppercase tracking-widest transition-all disabled:opacity-30 active:scale-95"
+        >
+          {busy === 'fill' ? 'Filling...' : 'Fill this page'}
+        </button>
+      </div>
+      {hasUploadQueue && (
+        <button
+          onClick={() => setShowBatch(true)}
+          disabled={!page?.connected || busy !== null}
+          className="w-full px-4 py-3 rounded-xl bg-black/40 border border-white/10 hover:border-white/30 text-[10px] font-black text-white/60 hover:text-white uppercase tracking-widest transition-all disabled:opacity-30"
+        >
+          Fill whole upload queue
+        </button>
+      )}
+      {message && (
+        <p className={`text-[10px] font-bold ${message.isError ? 'text-red-400' : 'text-green-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
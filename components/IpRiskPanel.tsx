@@ -0,0 +1,51 @@
+import React from 'react';
+import { Asset, Platform } from '../types';
+import { IpMatch, isBlocking, isOverridden } from '../services/ipScreeningService';
+
+interface IpRiskPanelProps {
+  asset: Asset;
+  platform: Platform;
+  matches: IpMatch[];
+  onToggleOverride: (term: string) => void;
+}
+
+const CATEGORY_LABELS: Record<IpMatch['category'], string> = {
+  brand: 'Brand',
+  character: 'Character',
+  celebrity: 'Celebrity',
+  logo: 'Logo',
+};
+
+export const IpRiskPanel: React.FC<IpRiskPanelProps> = ({ asset, platform, matches, onToggleOverride }) => {
+  const blocking = matches.filter(m => isBlocking(asset, platform, m)).length;
+
+  return (
+    <div className={`mb-6 p-4 rounded-xl border space-y-3 ${blocking > 0 ? 'bg-red-500/5 border-red-500/20' : 'bg-white/5 border-white/10'}`}>
+      <label className="text-[10px] text-white/40 font-black uppercase tracking-widest block">
+        Trademark Screening • {blocking > 0 ? `${blocking} blocking export` : 'Nothing blocking'}
+      </label>
+      <div className="space-y-1.5">
+        {matches.map(match => {
+          const overridden = isOverridden(asset, match);
+          const level = overridden ? 'text-white/30' : isBlocking(asset, platform, match) ? 'text-red-400' : 'text-yellow-500';
+          return (
+            <div key={match.term} className="flex items-center justify-between gap-3">
+              <p className={`text-[10px] font-bold truncate ${level} ${overridden ? 'line-through' : ''}`}>
+                <span className="text-[8px] font-black uppercase tracking-widest text-white/30 mr-2">{CATEGORY_LABELS[match.category]}</span>
+                {match.exact ? match.term : `"${match.found}" ≈ ${match.term}`}
+                <span className="text-white/20 font-normal"> • {match.field === 'rights' ? 'seen in image' : match.field}</span>
+              </p>
+              <button
+                onClick={() => onToggleOverride(match.term)}
+                className="text-[9px] font-black text-white/30 hover:text-white uppercase tracking-widest flex-shrink-0"
+                title={overridden ? 'Screen this match again' : 'Cleared or licensed: allow the export'}
+              >
+                {overridden ? 'Restore' : 'Override'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Project } from '../types';
+
+interface ProjectSwitcherProps {
+  projects: Project[];
+  activeProjectId: string;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ProjectSwitcher: React.FC<ProjectSwitcherProps> = ({
+  projects,
+  activeProjectId,
+  disabled,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onArchive,
+  onDelete,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+  const visibleProjects = projects.filter(p => p.archived === showArchived);
+  const archivedCount = projects.filter(p => p.archived).length;
+
+  const submitCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName.trim());
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const submitRename = () => {
+    if (renamingId && renameValue.trim()) onRename(renamingId, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-3 px-4 py-2 rounded-xl bg-black/40 border border-white/10 hover:border-white/30 transition-all disabled:opacity-30"
+        title={disabled ? 'Wait for generation to finish before switching projects' : 'Switch project'}
+      >
+        <span className="text-[9px] font-black text-white/30 uppercase tracking-widest">Project</span>
+        <span className="text-[11px] font-black text-white uppercase tracking-widest truncate max-w-[180px]">{activeProject?.name || '—'}</span>
+        <svg className={`w-3 h-3 text-white/40 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" /></svg>
+      </button>
+
+      {isOpen && !disabled && (
+        <div className="absolute left-0 top-full mt-2 z-[160] w-80 glass rounded-2xl border border-white/10 shadow-2xl p-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && submitCreate()}
+              placeholder="New project name"
+              className="flex-1 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-[11px] text-white focus:outline-none placeholder:text-white/20"
+            />
+            <button onClick={submitCreate} className="px-3 py-2 bg-white text-black text-[9px] font-black rounded-lg uppercase tracking-widest">Create</button>
+          </div>
+
+          <div className="max-h-72 overflow-y-auto space-y-1">
+            {visibleProjects.length === 0 && (
+              <p className="text-[10px] text-white/20 font-bold uppercase tracking-widest text-center py-4">No {showArchived ? 'archived' : 'active'} projects</p>
+            )}
+            {visibleProjects.map(p => (
+              <div key={p.id} className={`group flex items-center gap-2 px-3 py-2 rounded-lg transition-all ${p.id === activeProjectId ? 'bg-white/10' : 'hover:bg-white/5'}`}>
+                {renamingId === p.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    onBlur={submitRename}
+                    className="flex-1 bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-white focus:outline-none"
+                  />
+                ) : (
+                  <button
+                    onClick={() => {
+                      onSelect(p.id);
+                      setIsOpen(false);
+                    }}
+                    className="flex-1 text-left min-w-0"
+                  >
+                    <span className="block text-[11px] font-bold text-white truncate">{p.name}</span>
+                    <span className="block text-[9px] text-white/30 uppercase tracking-widest">{p.platform} • {p.engine}</span>
+                  </button>
+                )}
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => { setRenamingId(p.id); setRenameValue(p.name); }} className="text-[8px] font-black uppercase text-white/40 hover:text-white px-1" title="Rename">Ren</button>
+                  <button onClick={() => onDuplicate(p.id)} className="text-[8px] font-black uppercase text-white/40 hover:text-white px-1" title="Duplicate">Dup</button>
+                  <button onClick={() => onArchive(p.id, !p.archived)} className="text-[8px] font-black uppercase text-white/40 hover:text-yellow-400 px-1" title={p.archived ? 'Restore' : 'Archive'}>{p.archived ? 'Res' : 'Arc'}</button>
+                  <button onClick={() => onDelete(p.id)} className="text-[8px] font-black uppercase text-white/40 hover:text-red-400 px-1" title="Delete">Del</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {(archivedCount > 0 || showArchived) && (
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="w-full text-[9px] font-black text-white/30 hover:text-white/60 uppercase tracking-widest pt-2 border-t border-white/5"
+            >
+              {showArchived ? 'Show Active Projects' : `Show Archived (${archivedCount})`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Asset, Platform, PromptPreset } from '../types';
+import { PLATFORMS } from '../constants';
+import { buildMetadataPrompt } from '../services/geminiService';
+import { groupPlatformsByTemplate, PROMPT_VARIABLES, unknownVariables } from '../services/promptTemplateService';
+
+interface PromptPresetsProps {
+  isOpen: boolean;
+  presets: PromptPreset[];
+  activePresetId: string;
+  notes: string;
+  // The platforms a generation run targets, used for the preview
+  platforms: Platform[];
+  previewAsset: Asset | null;
+  onChange: (presets: PromptPreset[]) => void;
+  onSelect: (id: string) => void;
+  onNotesChange: (notes: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-[11px] text-white focus:outline-none focus:border-white/30 placeholder:text-white/20";
+const labelClass = "text-[9px] text-white/30 font-black uppercase tracking-widest mb-1 block";
+
+const SAMPLE_ASSET: Asset = {
+  id: 'preview',
+  file: new File([], 'sunset_over_lake_bled.jpg'),
+  name: 'sunset_over_lake_bled.jpg',
+  type: 'Photo',
+  status: 'idle',
+  metadata: {},
+};
+
+export const PromptPresets: React.FC<PromptPresetsProps> = ({ isOpen, presets, activePresetId, notes, platforms, previewAsset, onChange, onSelect, onNotesChange, onClose }) => {
+  // 'base' edits the shared template, a platform name edits its override
+  const [tab, setTab] = useState<'base' | Platform>('base');
+
+  if (!isOpen) return null;
+
+  const preset = presets.find(p => p.id === activePresetId) || presets[0];
+  const isOverride = tab !== 'base';
+  const value = isOverride ? preset.overrides[tab] || '' : preset.template;
+  const unknown = unknownVariables([preset.template, ...Object.values(preset.overrides)].join('\n'));
+
+  const update = (patch: Partial<PromptPreset>) => {
+    onChange(presets.map(p => p.id === preset.id ? { ...p, ...patch } : p));
+  };
+
+  const updateTemplate = (text: string) => {
+    if (!isOverride) update({ template: text });
+    else update({ overrides: { ...preset.overrides, [tab]: text } });
+  };
+
+  const duplicate = () => {
+    const copy: PromptPreset = { ...preset, id: crypto.randomUUID(), name: `${preset.name} Copy`, overrides: { ...preset.overrides }, builtIn: undefined };
+    onChange([...presets, copy]);
+    onSelect(copy.id);
+  };
+
+  const remove = () => {
+    onChange(presets.filter(p => p.id !== preset.id));
+    onSelect(presets[0].id);
+  };
+
+  // The request the chosen tab's platform would actually be sent with
+  const previewPlatform = isOverride ? tab : platforms.find(p => !preset.overrides[p]?.trim()) || platforms[0];
+  const previewGroup = groupPlatformsByTemplate(preset, platforms.includes(previewPlatform) ? platforms : [previewPlatform])
+    .find(g => g.platforms.includes(previewPlatform))!;
+  const asset = previewAsset || SAMPLE_ASSET;
+  const preview = buildMetadataPrompt(asset, previewGroup.platforms, previewGroup.template, notes, asset.video);
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-6 bg-black/90 backdrop-blur-xl">
+      <div className="glass max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-[40px] p-8 sm:p-12 border-white/10 shadow-2xl relative space-y-6">
+        <button
+          onClick={onClose}
+          className="absolute top-8 right-8 text-white/20 hover:text-white transition-all hover:rotate-90 duration-300"
+        >
+          <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+
+        <div>
+          <p className="text-[10px] font-[900] text-white/40 uppercase tracking-[0.5em] mb-2">Generation</p>
+          <h2 className="text-3xl font-[900] uppercase tracking-tighter text-white">Prompt Presets</h2>
+          <p className="text-[11px] text-white/40 mt-3">The selected preset is used for this project. Presets are stored in this browser.</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {presets.map(p => (
+            <button
+              key={p.id}
+              onClick={() => onSelect(p.id)}
+              className={`px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest border transition-all ${p.id === preset.id ? 'bg-white text-black border-white' : 'text-white/40 border-white/10 hover:text-white'}`}
+            >
+              {p.name}
+            </button>
+          ))}
+          <button
+            onClick={duplicate}
+            className="px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest border border-dashed border-white/20 text-white/40 hover:text-white transition-all"
+          >
+            + Duplicate
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className={labelClass}>Name</label>
+              <input value={preset.name} disabled={preset.builtIn} onChange={(e) => update({ name: e.target.value })} className={`${inputClass} disabled:opacity-50`} />
+            </div>
+            {!preset.builtIn && (
+              <button onClick={remove} className="px-3 py-2 text-[9px] font-black text-red-500/60 hover:text-red-500 uppercase tracking-widest">
+                Delete
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap bg-black/40 p-1 rounded-full border border-white/5 w-fit">
+            {(['base', ...PLATFORMS] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${tab === t ? 'bg-white text-black' : 'text-white/30 hover:text-white/60'}`}
+              >
+                {t === 'base' ? 'All Platforms' : t}{t !== 'base' && preset.overrides[t]?.trim() ? ' •' : ''}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className={labelClass}>{isOverride ? `${tab} override (empty uses the shared template)` : 'Template'}</label>
+            <textarea
+              value={value}
+              readOnly={preset.builtIn}
+              onChange={(e) => updateTemplate(e.target.value)}
+              rows={12}
+              placeholder={isOverride ? preset.template : ''}
+              className={`${inputClass} font-mono leading-relaxed resize-y`}
+            />
+            {preset.builtIn && <p className="text-[10px] text-white/30 mt-1.5">Built-in presets are read-only. Duplicate this one to customize it.</p>}
+            {unknown.length > 0 && (
+              <p className="text-[10px] font-bold text-yellow-500/80 mt-1.5">Unknown variables are sent as written: {unknown.map(v => `{${v}}`).join(', ')}</p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-1.5">
+            {PROMPT_VARIABLES.map(v => (
+              <span key={v.name} title={v.description} className="px-2 py-1 rounded bg-white/5 border border-white/5 text-[10px] font-mono text-white/50">
+                {`{${v.name}}`}
+              </span>
+            ))}
+          </div>
+
+          <div>
+            <label className={labelClass}>Project Notes ({'{notes}'})</label>
+            <textarea
+              value={notes}
+              onChange={(e) => onNotesChange(e.target.value)}
+              rows={2}
+              placeholder="E.g. 'All shots are from Lake Bled, Slovenia. Use British spelling.'"
+              className={`${inputClass} resize-y`}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2 border-t border-white/5 pt-6">
+          <label className={labelClass}>Preview • {asset.name} • {previewGroup.platforms.join(', ')}</label>
+          <pre className="text-[10px] text-white/60 bg-black/40 border border-white/5 rounded-xl p-4 whitespace-pre-wrap break-words max-h-72 overflow-y-auto">{preview}</pre>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { ProviderConfig } from '../types';
+import { GROQ_MODELS, isLocalUrl, PROVIDER_TEMPLATES, probeProvider, ProbeResult } from '../services/providers';
+
+interface ProviderSettingsProps {
+  isOpen: boolean;
+  configs: ProviderConfig[];
+  onChange: (configs: ProviderConfig[]) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-[11px] text-white focus:outline-none focus:border-white/30 placeholder:text-white/20";
+const labelClass = "text-[9px] text-white/30 font-black uppercase tracking-widest mb-1 block";
+
+const LocalServerProbe: React.FC<{ config: ProviderConfig; onModelPick: (model: string) => void }> = ({ config, onModelPick }) => {
+  const [isProbing, setIsProbing] = useState(false);
+  const [result, setResult] = useState<ProbeResult | null>(null);
+
+  const runProbe = async () => {
+    setIsProbing(true);
+    setResult(await probeProvider(config));
+    setIsProbing(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={runProbe}
+          disabled={isProbing || !config.baseUrl}
+          className="px-4 py-2 rounded-lg bg-white/5 hover:bg-white hover:text-black border border-white/10 text-[9px] font-black text-white uppercase tracking-widest transition-all disabled:opacity-30"
+        >
+          {isProbing ? 'Probing...' : 'Test Connection'}
+        </button>
+        {result && (
+          <span className={`text-[9px] font-black uppercase tracking-widest ${result.error ? 'text-red-400' : result.healthy ? 'text-green-400' : 'text-yellow-500'}`}>
+            {result.error ? result.error : `${result.healthy ? 'Online' : 'Health check failed'} • ${result.models.length} models • ${result.latencyMs} ms`}
+          </span>
+        )}
+      </div>
+      {result && result.models.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {result.models.map(m => (
+            <button
+              key={m}
+              onClick={() => onModelPick(m)}
+              className={`px-2 py-1 rounded text-[10px] font-bold border transition-all ${config.model === m ? 'bg-white text-black border-white' : 'text-white/50 border-white/10 hover:border-white/30'}`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ isOpen, configs, onChange, onClose }) => {
+  if (!isOpen) return null;
+
+  const update = (id: string, patch: Partial<ProviderConfig>) => {
+    onChange(configs.map(c => c.id === id ? { ...c, ...patch } : c));
+  };
+
+  // Whether an endpoint counts as offline follows its URL
+  const updateBaseUrl = (id: string, baseUrl: string) => {
+    update(id, { baseUrl, local: isLocalUrl(baseUrl) || undefined });
+  };
+
+  const updateCapabilities = (config: ProviderConfig, patch: Partial<ProviderConfig['capabilities']>) => {
+    update(config.id, { capabilities: { ...config.capabilities, ...patch } });
+  };
+
+  const updateLimits = (config: ProviderConfig, patch: Partial<ProviderConfig['limits']>) => {
+    update(config.id, { limits: { ...config.limits, ...patch } });
+  };
+
+  const addFromTemplate = (template: Omit<ProviderConfig, 'id'>) => {
+    onChange([...configs, { ...template, id: crypto.randomUUID(), capabilities: { ...template.capabilities }, limits: { ...template.limits } }]);
+  };
+
+  // Blank budget fields mean "no limit"
+  const parseBudget = (value: string) => (value.trim() === '' ? undefined : Math.max(1, Number(value) || 1));
+
+  const remove = (id: string) => {
+    onChange(configs.filter(c => c.id !== id));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-6 bg-black/90 backdrop-blur-xl">
+      <div className="glass max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-[40px] p-8 sm:p-12 border-white/10 shadow-2xl relative space-y-8">
+        <button
+          onClick={onClose}
+          className="absolute top-8 right-8 text-white/20 hover:text-white transition-all hover:rotate-90 duration-300"
+        >
+          <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+
+        <div>
+          <p className="text-[10px] font-[900] text-white/40 uppercase tracking-[0.5em] mb-2">Engine Registry</p>
+          <h2 className="text-3xl font-[900] uppercase tracking-tighter text-white">AI Providers</h2>
+        </div>
+
+        <div className="space-y-4">
+          {configs.map(config => (
+            <div key={config.id} className="p-5 rounded-2xl border border-white/5 bg-white/[0.02] space-y-4">
+              <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-black text-white uppercase tracking-widest">{config.label}</span>
+                  {config.builtIn && <span className="text-[8px] px-1.5 py-0.5 rounded bg-white/10 text-white/50 font-black uppercase tracking-widest">Built-in</span>}
+                  {config.local && <span className="text-[8px] px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-400 font-black uppercase tracking-widest">Offline</span>}
+                  {config.capabilities.vision
+                    ? <span className="text-[8px] px-1.5 py-0.5 rounded bg-green-500/10 text-green-400 font-black uppercase tracking-widest">Vision</span>
+                    : <span className="text-[8px] px-1.5 py-0.5 rounded bg-yellow-500/10 text-yellow-500 font-black uppercase tracking-widest">Text only</span>}
+                </div>
+                {!config.builtIn && (
+                  <button onClick={() => remove(config.id)} className="text-[9px] font-black text-red-500/50 hover:text-red-500 uppercase tracking-widest">Remove</button>
+                )}
+              </div>
+
+              {config.id === 'groq' && (
+                <div>
+                  <label className={labelClass}>Model</label>
+                  <select
+                    value={config.model}
+                    onChange={(e) => {
+                      const model = GROQ_MODELS.find(m => m.id === e.target.value);
+                      update(config.id, { model: e.target.value, capabilities: { ...config.capabilities, vision: Boolean(model?.vision) } });
+                    }}
+                    className={inputClass}
+                  >
+                    {GROQ_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                  </select>
+                </div>
+              )}
+
+              {config.id === 'local' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={labelClass}>Server URL (llama.cpp / Ollama)</label>
+                    <input value={config.baseUrl || ''} onChange={(e) => updateBaseUrl(config.id, e.target.value)} placeholder="http://localhost:11434/v1" className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Vision Model</label>
+                    <input value={config.model} onChange={(e) => update(config.id, { model: e.target.value })} placeholder="Run Test Connection to list" className={inputClass} />
+                  </div>
+                </div>
+              )}
+
+              {(config.local || config.id === 'local') && (
+                <LocalServerProbe config={config} onModelPick={(model) => update(config.id, { model })} />
+              )}
+
+              {!config.builtIn && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className={labelClass}>Name</label>
+                      <input value={config.label} onChange={(e) => update(config.id, { label: e.target.value })} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Model</label>
+                      <input value={config.model} onChange={(e) => update(config.id, { model: e.target.value })} className={inputClass} />
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Base URL (OpenAI-compatible)</label>
+                    <input value={config.baseUrl || ''} onChange={(e) => updateBaseUrl(config.id, e.target.value)} placeholder="https://host/v1" className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>API Key {config.requiresKey ? '' : '(optional)'}</label>
+                    <input type="password" value={config.apiKey || ''} onChange={(e) => update(config.id, { apiKey: e.target.value })} className={inputClass} />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-5">
+                    <label className="flex items-center gap-2 text-[10px] font-black text-white/50 uppercase tracking-widest cursor-pointer">
+                      <input type="checkbox" checked={config.capabilities.vision} onChange={(e) => updateCapabilities(config, { vision: e.target.checked })} className="accent-white" />
+                      Vision
+                    </label>
+                    <label className="flex items-center gap-2 text-[10px] font-black text-white/50 uppercase tracking-widest cursor-pointer">
+                      <input type="checkbox" checked={config.capabilities.jsonMode} onChange={(e) => updateCapabilities(config, { jsonMode: e.target.checked })} className="accent-white" />
+                      JSON Mode
+                    </label>
+                    <label className="flex items-center gap-2 text-[10px] font-black text-white/50 uppercase tracking-widest cursor-pointer">
+                      <input type="checkbox" checked={config.requiresKey} onChange={(e) => update(config.id, { requiresKey: e.target.checked })} className="accent-white" />
+                      Key Required
+                    </label>
+                    <label className="flex items-center gap-2 text-[10px] font-black text-white/50 uppercase tracking-widest">
+                      Max Image
+                      <input
+                        type="number"
+                        min={256}
+                        step={64}
+                        value={config.capabilities.maxImageSize}
+                        onChange={(e) => updateCapabilities(config, { maxImageSize: Number(e.target.value) || 1024 })}
+                        className="w-20 bg-black/40 border border-white/10 rounded px-2 py-1 text-[11px] text-white focus:outline-none"
+                      />
+                      px
+                    </label>
+                  </div>
+                </>
+              )}
+
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className={labelClass}>Parallel Jobs</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={config.limits.concurrency}
+                    onChange={(e) => updateLimits(config, { concurrency: Math.max(1, Number(e.target.value) || 1) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Requests / Min</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={config.limits.requestsPerMinute ?? ''}
+                    onChange={(e) => updateLimits(config, { requestsPerMinute: parseBudget(e.target.value) })}
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Tokens / Min</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={config.limits.tokensPerMinute ?? ''}
+                    onChange={(e) => updateLimits(config, { tokensPerMinute: parseBudget(e.target.value) })}
+                    placeholder="Unlimited"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <label className={labelClass}>Add OpenAI-compatible Endpoint</label>
+          <div className="flex flex-wrap gap-2">
+            {PROVIDER_TEMPLATES.map(t => (
+              <button
+                key={t.label}
+                onClick={() => addFromTemplate(t)}
+                className="px-4 py-2 rounded-xl bg-black/40 border border-white/10 hover:border-white/30 text-[10px] font-black text-white/60 hover:text-white uppercase tracking-widest transition-all"
+              >
+                + {t.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
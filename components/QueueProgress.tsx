@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { QueueSnapshot, formatEta } from '../services/jobQueue';
+
+interface QueueProgressProps {
+  snapshot: QueueSnapshot;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+export const QueueProgress: React.FC<QueueProgressProps> = ({ snapshot, onPause, onResume, onCancel }) => {
+  const [now, setNow] = useState(Date.now());
+  const { state, total, completed, failed, active, queued, etaMs, cooldownUntil } = snapshot;
+
+  // Re-render once a second so the cooldown countdown stays live
+  useEffect(() => {
+    if (!cooldownUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [cooldownUntil]);
+
+  if (state === 'idle') return null;
+
+  const done = completed + failed;
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+  const cooldownSeconds = cooldownUntil ? Math.max(0, Math.ceil((cooldownUntil - now) / 1000)) : 0;
+
+  return (
+    <div className="space-y-3 px-2">
+      <div className="h-1.5 w-full bg-white/5 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-500 ${state === 'paused' ? 'bg-yellow-500' : 'bg-green-400'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <div className="flex flex-wrap items-center gap-3 text-[9px] font-black uppercase tracking-widest">
+          <span className="text-white">{done} / {total}</span>
+          <span className="text-white/30">{active} active • {queued} queued</span>
+          {failed > 0 && <span className="text-red-400">{failed} failed</span>}
+          {state === 'paused' ? (
+            <span className="text-yellow-500">Paused</span>
+          ) : cooldownSeconds > 0 ? (
+            <span className="text-yellow-500">Rate limited • resuming in {cooldownSeconds}s</span>
+          ) : (
+            <span className="text-white/30">ETA {formatEta(etaMs)}</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={state === 'paused' ? onResume : onPause}
+            className="px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white hover:text-black border border-white/10 text-[9px] font-black text-white uppercase tracking-widest transition-all"
+          >
+            {state === 'paused' ? 'Resume' : 'Pause'}
+          </button>
+          <button
+            onClick={onCancel}
+            className="px-3 py-1.5 rounded-lg bg-red-500/10 hover:bg-red-500 border border-red-500/20 text-[9px] font-black text-red-400 hover:text-white uppercase tracking-widest transition-all"
+          >
+            Cancel All
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Asset } from '../types';
+import { revisionLabel } from '../services/revisionService';
+
+interface RevisionStripProps {
+  asset: Asset;
+  // Object URLs for each revision file, keyed by revision id
+  revisionUrls: Record<string, string>;
+  onSelect: (revisionId?: string) => void;
+}
+
+export const RevisionStrip: React.FC<RevisionStripProps> = ({ asset, revisionUrls, onSelect }) => {
+  const [isComparing, setIsComparing] = useState(false);
+  const revisions = asset.revisions || [];
+  const current = revisions.find(r => r.id === asset.currentRevisionId);
+  const options = [{ id: undefined, url: asset.previewUrl, prompt: '' }, ...revisions.map(r => ({ id: r.id, url: revisionUrls[r.id], prompt: r.prompt }))];
+
+  return (
+    <div className="mb-6 p-4 bg-white/5 rounded-xl border border-white/10 space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] text-white/40 font-black uppercase tracking-widest">
+          Revisions • using {revisionLabel(asset, asset.currentRevisionId)}
+        </label>
+        <div className="flex gap-3">
+          {current && (
+            <button
+              onClick={() => setIsComparing(!isComparing)}
+              className="text-[9px] font-black text-white/40 hover:text-white uppercase tracking-widest"
+            >
+              {isComparing ? 'Hide Compare' : 'Compare'}
+            </button>
+          )}
+          {current && revisionUrls[current.id] && (
+            <a
+              href={revisionUrls[current.id]}
+              download={current.file.name}
+              className="text-[9px] font-black text-white/40 hover:text-white uppercase tracking-widest"
+            >
+              Download
+            </a>
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {options.map(option => {
+          const isCurrent = option.id === asset.currentRevisionId;
+          return (
+            <button
+              key={option.id || 'original'}
+              onClick={() => onSelect(option.id)}
+              title={option.prompt || 'Original file'}
+              className={`flex-shrink-0 w-16 space-y-1 text-left ${isCurrent ? '' : 'opacity-50 hover:opacity-100'} transition-opacity`}
+            >
+              <div className={`w-16 h-16 rounded-lg overflow-hidden bg-black border ${isCurrent ? 'border-white' : 'border-white/10'}`}>
+                {option.url && <img src={option.url} alt="" className="w-full h-full object-cover" />}
+              </div>
+              <p className="text-[8px] font-black text-white/60 uppercase tracking-widest truncate">{revisionLabel(asset, option.id)}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      {isComparing && current && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            {[{ label: 'Original', url: asset.previewUrl }, { label: revisionLabel(asset, current.id), url: revisionUrls[current.id] }].map(side => (
+              <div key={side.label} className="space-y-1">
+                <div className="aspect-square rounded-lg overflow-hidden bg-black border border-white/10">
+                  {side.url && <img src={side.url} alt={side.label} className="w-full h-full object-contain" />}
+                </div>
+                <p className="text-[9px] font-black text-white/40 uppercase tracking-widest">{side.label}</p>
+              </div>
+            ))}
+          </div>
+          <p className="text-[10px] text-white/40 italic">"{current.prompt}" • {current.file.name}</p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Asset, Platform } from '../types';
+import { editorialDateline, suggestsEditorial } from '../services/rightsService';
+import { validateRights } from '../services/validationService';
+
+type FlagKind = 'people' | 'logos' | 'landmarks';
+type ReleaseKind = 'modelReleases' | 'propertyReleases';
+
+interface RightsPanelProps {
+  asset: Asset;
+  platform: Platform;
+  onSetEditorial: (editorial: boolean) => void;
+  onSetMature: (mature: boolean) => void;
+  onDismissFlag: (kind: FlagKind, flag: string) => void;
+  onReleasesChange: (kind: ReleaseKind, names: string[]) => void;
+}
+
+const FLAG_LABELS: Record<FlagKind, string> = { people: 'Person', logos: 'Logo', landmarks: 'Property' };
+
+const RELEASE_LABELS: Record<ReleaseKind, string> = { modelReleases: 'Model Releases', propertyReleases: 'Property Releases' };
+
+export const RightsPanel: React.FC<RightsPanelProps> = ({ asset, platform, onSetEditorial, onSetMature, onDismissFlag, onReleasesChange }) => {
+  const rights = asset.rights;
+  const flags = rights ? (Object.keys(FLAG_LABELS) as FlagKind[]).flatMap(kind => rights[kind].map(flag => ({ kind, flag }))) : [];
+  const issues = validateRights(asset, platform).filter(i => i.field === 'rights');
+  const dateline = editorialDateline(asset);
+
+  // Only the names are kept; the release files are uploaded to the portal separately
+  const addReleases = (kind: ReleaseKind, files: File[]) => {
+    const names = asset[kind] || [];
+    onReleasesChange(kind, [...names, ...files.map(f => f.name).filter(n => !names.includes(n))]);
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-white/5 rounded-xl border border-white/10 space-y-3">
+      <div className="flex justify-between items-center gap-3">
+        <label className="text-[10px] text-white/40 font-black uppercase tracking-widest">
+          License • {asset.editorial ? 'Editorial' : 'Commercial'}{rights?.mature ? ' • Mature' : ''}
+        </label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onSetMature(!rights?.mature)}
+            className="text-[9px] font-black uppercase tracking-widest text-white/40 hover:text-white"
+            title={rights?.mature ? 'Not mature content: clear the flag' : 'Flag as mature content'}
+          >
+            {rights?.mature ? 'Not Mature' : 'Mark Mature'}
+          </button>
+          <button
+            onClick={() => onSetEditorial(!asset.editorial)}
+            className={`text-[9px] font-black uppercase tracking-widest ${!asset.editorial && suggestsEditorial(asset) ? 'text-yellow-500 hover:text-yellow-400' : 'text-white/40 hover:text-white'}`}
+            title={asset.editorial ? 'Remove the dateline and license commercially' : dateline ? `Prefix descriptions with "${dateline}: "` : 'No place or capture date is known; add the dateline to the description yourself'}
+          >
+            {asset.editorial ? 'Make Commercial' : 'Mark Editorial'}
+          </button>
+        </div>
+      </div>
+
+      {flags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {flags.map(({ kind, flag }) => (
+            <span key={`${kind}:${flag}`} className="flex items-center gap-1.5 px-2 py-1 rounded bg-black/40 border border-white/5 text-[10px] text-white/60">
+              <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{FLAG_LABELS[kind]}</span>
+              {flag}
+              <button onClick={() => onDismissFlag(kind, flag)} className="text-white/30 hover:text-white" title="Not actually in the image">×</button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {!asset.editorial && (Object.keys(RELEASE_LABELS) as ReleaseKind[]).map(kind => (
+        <div key={kind} className="flex flex-wrap items-center gap-1.5">
+          <span className="text-[9px] font-black text-white/30 uppercase tracking-widest mr-1">{RELEASE_LABELS[kind]}</span>
+          {(asset[kind] || []).map(name => (
+            <span key={name} className="flex items-center gap-1.5 px-2 py-1 rounded bg-black/40 border border-white/5 text-[10px] text-white/60">
+              {name}
+              <button onClick={() => onReleasesChange(kind, (asset[kind] || []).filter(n => n !== name))} className="text-white/30 hover:text-white">×</button>
+            </span>
+          ))}
+          <label className="px-2 py-1 rounded border border-dashed border-white/20 text-[9px] font-black text-white/40 hover:text-white uppercase tracking-widest cursor-pointer">
+            + Attach
+            <input
+              type="file"
+              multiple
+              accept=".pdf,.jpg,.jpeg,.png"
+              className="hidden"
+              onChange={(e) => {
+                addReleases(kind, Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      ))}
+
+      {issues.map((issue, i) => (
+        <p key={i} className={`text-[10px] font-bold ${issue.level === 'error' ? 'text-red-400' : 'text-yellow-500'}`}>
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Asset, Metadata, MetadataVersion, Platform, PromptUsage, VersionSource } from '../types';
+import { EMPTY_METADATA } from '../services/metadataService';
+import { diffKeywords, diffWords } from '../services/historyService';
+
+interface VersionHistoryProps {
+  asset: Asset | null;
+  platform: Platform;
+  onRestore: (asset: Asset, version: MetadataVersion) => void;
+  // Turns the prompt an AI version was generated with back into a preset
+  onReusePrompt: (usage: PromptUsage) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<VersionSource, string> = {
+  original: 'Before history',
+  ai: 'AI generation',
+  manual: 'Manual edit',
+  bulk: 'Bulk edit',
+  import: 'Imported',
+  reuse: 'Reused from similar shot',
+  restore: 'Restored',
+};
+
+const OTHER_FIELDS: (keyof Metadata)[] = ['mainTag', 'category1', 'category2', 'adobeCategory', 'dreamstimeCategory1', 'dreamstimeCategory2'];
+
+const TextDiff: React.FC<{ label: string; from: string; to: string }> = ({ label, from, to }) => (
+  <div>
+    <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block">{label}</label>
+    <p className="text-sm text-white/80 bg-black/40 border border-white/5 rounded-xl px-4 py-3 whitespace-pre-wrap">
+      {diffWords(from, to).map((part, i) => (
+        <span key={i} className={part.kind === 'added' ? 'bg-green-500/20 text-green-300' : part.kind === 'removed' ? 'bg-red-500/20 text-red-300 line-through' : ''}>
+          {part.text}
+        </span>
+      ))}
+      {!from && !to && <span className="text-white/20">Empty</span>}
+    </p>
+  </div>
+);
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ asset, platform, onRestore, onReusePrompt, onClose }) => {
+  const versions = [...(asset?.versions || [])].reverse();
+  const [compareIds, setCompareIds] = useState<{ from?: string; to?: string }>({});
+
+  if (!asset) return null;
+
+  const to = versions.find(v => v.id === compareIds.to) || versions[0];
+  const from = versions.find(v => v.id === compareIds.from) || versions.find(v => v !== to);
+  const fromMetadata = from?.metadata[platform] || EMPTY_METADATA;
+  const toMetadata = to?.metadata[platform] || EMPTY_METADATA;
+  const keywords = diffKeywords(fromMetadata.keywords, toMetadata.keywords);
+  const changedFields = OTHER_FIELDS.filter(f => (fromMetadata[f] || '') !== (toMetadata[f] || ''));
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center p-6 bg-black/90 backdrop-blur-xl">
+      <div className="glass max-w-2xl w-full max-h-[90vh] overflow-y-auto rounded-[40px] p-8 sm:p-12 border-white/10 shadow-2xl relative space-y-6">
+        <button
+          onClick={onClose}
+          className="absolute top-8 right-8 text-white/20 hover:text-white transition-all hover:rotate-90 duration-300"
+        >
+          <svg className="w-7 h-7" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+
+        <div>
+          <p className="text-[10px] font-[900] text-white/40 uppercase tracking-[0.5em] mb-2 truncate pr-10">{asset.name}</p>
+          <h2 className="text-3xl font-[900] uppercase tracking-tighter text-white">Version History</h2>
+          <p className="text-[11px] text-white/40 mt-3">Pick two versions to compare their {platform} metadata.</p>
+        </div>
+
+        <div className="space-y-2">
+          {versions.map(v => (
+            <div key={v.id} className={`flex items-center gap-3 p-3 rounded-xl border ${v === to || v === from ? 'border-white/20 bg-white/[0.04]' : 'border-white/5 bg-white/[0.02]'}`}>
+              <div className="flex gap-1">
+                {(['from', 'to'] as const).map(side => (
+                  <button
+                    key={side}
+                    onClick={() => setCompareIds(prev => ({ ...prev, [side]: v.id }))}
+                    className={`w-6 h-6 rounded-md text-[9px] font-black uppercase border transition-all ${(side === 'from' ? from : to) === v ? 'bg-white text-black border-white' : 'text-white/30 border-white/10 hover:text-white'}`}
+                    title={side === 'from' ? 'Compare from this version' : 'Compare to this version'}
+                  >
+                    {side === 'from' ? 'A' : 'B'}
+                  </button>
+                ))}
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-white truncate">
+                  {SOURCE_LABELS[v.source]}{v.engine ? ` • ${v.engine}` : ''}{v.prompt ? ` • ${v.prompt.presetName}` : ''}
+                </p>
+                <p className="text-[10px] text-white/30">
+                  {new Date(v.at).toLocaleString()}{v.metadata[platform] ? '' : ` • no ${platform} metadata`}
+                </p>
+              </div>
+              {v.prompt && (
+                <button
+                  onClick={() => onReusePrompt(v.prompt!)}
+                  className="text-[9px] font-black text-white/40 hover:text-white uppercase tracking-widest"
+                  title="Save the prompt this version was generated with as a preset"
+                >
+                  Reuse Prompt
+                </button>
+              )}
+              <button
+                onClick={() => onRestore(asset, v)}
+                className="text-[9px] font-black text-white/40 hover:text-white uppercase tracking-widest"
+              >
+                Restore
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {from && to && (
+          <div className="space-y-4 border-t border-white/5 pt-6">
+            <TextDiff label="Title" from={fromMetadata.title} to={toMetadata.title} />
+            <TextDiff label="Description" from={fromMetadata.description} to={toMetadata.description} />
+            <div>
+              <label className="text-[10px] text-white/30 font-black uppercase tracking-widest mb-1.5 block">
+                Keywords • +{keywords.added.length} / −{keywords.removed.length}
+              </label>
+              <div className="flex flex-wrap gap-1">
+                {keywords.removed.map(k => <span key={`-${k}`} className="text-[10px] px-2 py-0.5 rounded bg-red-500/20 text-red-300 line-through">{k}</span>)}
+                {keywords.added.map(k => <span key={`+${k}`} className="text-[10px] px-2 py-0.5 rounded bg-green-500/20 text-green-300">{k}</span>)}
+                {keywords.kept.map(k => <span key={k} className="text-[10px] px-2 py-0.5 rounded bg-white/5 text-white/40">{k}</span>)}
+              </div>
+            </div>
+            {changedFields.map(f => (
+              <p key={f} className="text-[11px] text-white/60">
+                <span className="font-black uppercase tracking-widest text-[10px] text-white/30">{f}</span>{' '}
+                <span className="text-red-300 line-through">{fromMetadata[f] || 'none'}</span> → <span className="text-green-300">{toMetadata[f] || 'none'}</span>
+              </p>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import { Platform, ExportFormat } from './types';
+import { Platform, ExportFormat, Language, PlatformRules } from './types';
 
 export const PLATFORMS: Platform[] = [
   'Shutterstock',
@@ -13,6 +13,20 @@ export const EXPORT_FORMATS: ExportFormat[] = [
   'Contributor-specific CSV',
 ];
 
+// Translation targets; English is always the source and canonical copy
+export const LANGUAGES: { code: Language; name: string }[] = [
+  { code: 'de', name: 'German' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'fr', name: 'French' },
+  { code: 'it', name: 'Italian' },
+  { code: 'pt', name: 'Portuguese' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pl', name: 'Polish' },
+  { code: 'ja', name: 'Japanese' },
+  { code: 'ko', name: 'Korean' },
+  { code: 'zh', name: 'Chinese' },
+];
+
 export const SHUTTERSTOCK_CATEGORIES = [
   "Abstract",
   "Animals/Wildlife",
@@ -43,6 +57,168 @@ export const SHUTTERSTOCK_CATEGORIES = [
   "Vintage"
 ];
 
-export const MAX_TITLE_LENGTH = 120;
-export const MAX_DESC_LENGTH = 200;
-export const TARGET_KEYWORD_COUNT = 49;
+export const DEFAULT_PROJECT_ID = 'default';
+
+// Rough prompt + image + response size used against tokens-per-minute budgets
+export const ESTIMATED_TOKENS_PER_JOB = 3000;
+// Text-only requests: keyword top-ups and translations
+export const ESTIMATED_TOKENS_PER_TEXT_REQUEST = 800;
+export const MAX_JOB_RETRIES = 4;
+
+export const MAX_UNDO_ENTRIES = 100;
+// Older versions are dropped once an asset has this many
+export const MAX_ASSET_VERSIONS = 30;
+
+// Adobe Stock expects the numeric category ID in its CSV "Category" column
+export const ADOBE_STOCK_CATEGORIES: { id: string; name: string }[] = [
+  { id: '1', name: 'Animals' },
+  { id: '2', name: 'Buildings and Architecture' },
+  { id: '3', name: 'Business' },
+  { id: '4', name: 'Drinks' },
+  { id: '5', name: 'The Environment' },
+  { id: '6', name: 'States of Mind' },
+  { id: '7', name: 'Food' },
+  { id: '8', name: 'Graphic Resources' },
+  { id: '9', name: 'Hobbies and Leisure' },
+  { id: '10', name: 'Industry' },
+  { id: '11', name: 'Landscapes' },
+  { id: '12', name: 'Lifestyle' },
+  { id: '13', name: 'People' },
+  { id: '14', name: 'Plants and Flowers' },
+  { id: '15', name: 'Culture and Religion' },
+  { id: '16', name: 'Science' },
+  { id: '17', name: 'Social Issues' },
+  { id: '18', name: 'Sports' },
+  { id: '19', name: 'Technology' },
+  { id: '20', name: 'Transport' },
+  { id: '21', name: 'Travel' },
+];
+
+// Dreamstime sub-category numbers used by the "Category 1..3" CSV columns
+export const DREAMSTIME_CATEGORIES: { id: string; name: string }[] = [
+  { id: '112', name: 'Abstract - Aerial' },
+  { id: '39', name: 'Abstract - Backgrounds' },
+  { id: '40', name: 'Abstract - Colors' },
+  { id: '44', name: 'Abstract - Textures' },
+  { id: '1', name: 'Animals - Birds' },
+  { id: '5', name: 'Animals - Farm' },
+  { id: '6', name: 'Animals - Insects' },
+  { id: '7', name: 'Animals - Mammals' },
+  { id: '8', name: 'Animals - Marine life' },
+  { id: '9', name: 'Animals - Pets' },
+  { id: '10', name: 'Animals - Wildlife' },
+  { id: '11', name: 'Arts & Architecture - Details' },
+  { id: '12', name: 'Arts & Architecture - Generic architecture' },
+  { id: '13', name: 'Arts & Architecture - Historic buildings' },
+  { id: '14', name: 'Arts & Architecture - Interiors' },
+  { id: '15', name: 'Arts & Architecture - Landmarks' },
+  { id: '16', name: 'Business - Communications' },
+  { id: '17', name: 'Business - Concepts' },
+  { id: '18', name: 'Business - Finance' },
+  { id: '19', name: 'Business - Industries' },
+  { id: '20', name: 'Business - Objects' },
+  { id: '21', name: 'Business - People' },
+  { id: '22', name: 'Editorial - Celebrities' },
+  { id: '23', name: 'Editorial - Events' },
+  { id: '24', name: 'Holidays - Christmas' },
+  { id: '25', name: 'Holidays - Easter' },
+  { id: '26', name: 'Holidays - Other' },
+  { id: '27', name: 'Illustrations & Clipart - 3D & Computer generated' },
+  { id: '28', name: 'Illustrations & Clipart - Illustrations' },
+  { id: '29', name: 'Illustrations & Clipart - Vectors' },
+  { id: '30', name: 'Industries - Agriculture' },
+  { id: '31', name: 'Industries - Computers' },
+  { id: '32', name: 'Industries - Healthcare & Medical' },
+  { id: '33', name: 'Nature - Clouds and skies' },
+  { id: '34', name: 'Nature - Flowers' },
+  { id: '35', name: 'Nature - Landscapes' },
+  { id: '36', name: 'Nature - Plants & trees' },
+  { id: '37', name: 'Nature - Water' },
+  { id: '38', name: 'Objects - Food & Drinks' },
+  { id: '41', name: 'Objects - Other' },
+  { id: '42', name: 'People - Children' },
+  { id: '43', name: 'People - Couples' },
+  { id: '45', name: 'People - Families' },
+  { id: '46', name: 'People - Portraits' },
+  { id: '47', name: 'People - Women' },
+  { id: '48', name: 'People - Men' },
+  { id: '49', name: 'Sports & Recreation - Fitness' },
+  { id: '50', name: 'Sports & Recreation - Outdoor' },
+  { id: '51', name: 'Technology - Connectivity' },
+  { id: '52', name: 'Technology - Science' },
+  { id: '53', name: 'Travel - Africa' },
+  { id: '54', name: 'Travel - America' },
+  { id: '55', name: 'Travel - Asia' },
+  { id: '56', name: 'Travel - Europe' },
+  { id: '57', name: 'Travel - Oceania' },
+  { id: '58', name: 'Travel - Transportation' },
+];
+
+// Filler terms portals treat as keyword spam. Only whole keywords made of
+// these are removed, so "mirror image" and "gluten-free" survive.
+export const BANNED_KEYWORDS = [
+  'stock', 'photo', 'photography', 'image', 'picture', 'pic', 'royalty free', 'royalty-free',
+  'hd', '4k', 'high quality', 'best', 'free', 'download', 'jpg', 'jpeg', 'png',
+];
+
+// Brand names that get submissions rejected outside editorial use. They are
+// stripped wherever they appear in a keyword, so only names that are not also
+// everyday words belong here: "apple tree" and "amazon rainforest" must survive.
+export const TRADEMARK_TERMS = [
+  'adobe', 'iphone', 'ipad', 'macbook', 'samsung', 'google', 'facebook',
+  'instagram', 'tiktok', 'youtube', 'twitter', 'microsoft', 'xbox', 'playstation', 'nintendo',
+  'coca cola', 'coca-cola', 'pepsi', 'starbucks', 'mcdonalds', 'nike', 'adidas', 'gucci', 'lego',
+  'disney', 'pixar', 'barbie', 'star wars', 'pokemon', 'tesla', 'bmw', 'ferrari',
+];
+
+const FORBIDDEN_TEXT_CHARS = '<>{}|\\';
+
+export const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// The dateline editorial captions must open with: "City, Country - Month DD, YYYY: "
+export const EDITORIAL_DATELINE = new RegExp(`^[^,:]+(?:, [^,:]+)+ - (?:${MONTHS.join('|')}) \\d{1,2}, \\d{4}: `, 'i');
+
+// Each portal's submission limits. These drive sanitizing generated output,
+// the inline warnings on every asset and the pre-export compliance report.
+export const PLATFORM_RULES: Record<Platform, PlatformRules> = {
+  'Shutterstock': {
+    // Shutterstock has no title field; the description is what buyers see
+    title: { min: 0, max: 200 },
+    description: { min: 5, max: 200 },
+    keywords: { min: 7, max: 50, target: 49, singleWords: false },
+    forbiddenChars: FORBIDDEN_TEXT_CHARS,
+    forbiddenKeywords: ['shutterstock'],
+    required: ['description', 'keywords', 'category1'],
+    categories: { category1: SHUTTERSTOCK_CATEGORIES, category2: SHUTTERSTOCK_CATEGORIES },
+  },
+  'Adobe Stock': {
+    title: { min: 5, max: 200 },
+    description: { min: 0, max: 200 },
+    keywords: { min: 5, max: 49, target: 49, singleWords: false },
+    forbiddenChars: FORBIDDEN_TEXT_CHARS,
+    forbiddenKeywords: ['adobe stock', 'firefly'],
+    required: ['title', 'keywords'],
+    categories: { adobeCategory: ADOBE_STOCK_CATEGORIES.map(c => c.id) },
+  },
+  'Dreamstime': {
+    title: { min: 5, max: 115 },
+    description: { min: 20, max: 2000 },
+    keywords: { min: 5, max: 80, target: 49, singleWords: true },
+    forbiddenChars: FORBIDDEN_TEXT_CHARS,
+    forbiddenKeywords: ['dreamstime'],
+    required: ['title', 'description', 'keywords', 'dreamstimeCategory1'],
+    categories: {
+      dreamstimeCategory1: DREAMSTIME_CATEGORIES.map(c => c.id),
+      dreamstimeCategory2: DREAMSTIME_CATEGORIES.map(c => c.id),
+    },
+  },
+  'Teepublic': {
+    title: { min: 1, max: 100 },
+    description: { min: 0, max: 500 },
+    keywords: { min: 1, max: 15, target: 15, singleWords: false },
+    forbiddenChars: FORBIDDEN_TEXT_CHARS,
+    forbiddenKeywords: ['teepublic', 't-shirt', 'tshirt', 'shirt', 'tee', 'hoodie', 'sticker', 'mug'],
+    required: ['title', 'mainTag'],
+    categories: {},
+  },
+};
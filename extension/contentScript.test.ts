@@ -0,0 +1,54 @@
+// @vitest-environment jsdom
+// @vitest-environment-options { "url": "https://www.dreamstime.com/upload/edit" }
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+type Listener = (request: object, sender: object, sendResponse: (response: object) => void) => boolean;
+
+let listener: Listener;
+
+// Sends a message the way the side panel does and returns the reply
+const send = (request: object) => {
+  const sendResponse = vi.fn();
+  listener(request, {}, sendResponse);
+  return sendResponse.mock.calls[0][0];
+};
+
+beforeAll(async () => {
+  vi.stubGlobal('chrome', { runtime: { onMessage: { addListener: (l: Listener) => { listener = l; } } } });
+  await import("./contentScript");
+});
+
+beforeEach(() => {
+  document.documentElement.innerHTML = readFileSync(path.join(__dirname, '../services/__fixtures__/portals/dreamstime.html'), 'utf8');
+});
+
+describe("content script", () => {
+  it("detects the portal and its form", () => {
+    expect(send({ action: 'detect_page' })).toEqual({ site: 'Dreamstime', url: 'https://www.dreamstime.com/upload/edit', hasForm: true });
+  });
+
+  it("finds the preview image", () => {
+    expect(send({ action: 'get_page_image' })).toEqual({ url: 'https://thumbs.dreamstime.com/z/beach.jpg', site: 'Dreamstime' });
+  });
+
+  it("lists and selects upload tiles", () => {
+    expect(send({ action: 'list_tiles', platform: 'Dreamstime' }).tiles.map((t: { name: string }) => t.name)).toEqual(['beach.jpg']);
+    expect(send({ action: 'select_tile', platform: 'Dreamstime', index: 0 })).toEqual({ success: true });
+    expect(send({ action: 'select_tile', platform: 'Dreamstime', index: 3 })).toEqual({ error: 'Upload tile not found' });
+  });
+
+  it("fills the form and reports what it filled", () => {
+    const metadata = { title: 'Beach', description: 'A beach', keywords: 'beach, sand', dreamstimeCategory1: '112' };
+    const response = send({ action: 'fill_form', platform: 'Dreamstime', metadata, flags: { editorial: true } });
+    expect(response.success).toBe(true);
+    expect(response.report.filled).toEqual(['title', 'description', 'keywords', 'category1', 'editorial']);
+    expect(response.report.skipped).toEqual([{ field: 'category2', reason: 'empty' }]);
+    expect(document.querySelector<HTMLInputElement>('#title')!.value).toBe('Beach');
+  });
+
+  it("answers with an error instead of throwing", () => {
+    expect(send({ action: 'fill_form', platform: 'Unknown', metadata: {} })).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Content script to interact with stock contributor pages.
+ * Bundled into content_script.js by the extension build.
+ */
+import { Metadata, Platform } from "../types";
+import { detectPortal } from "../services/extensionBridge";
+import { FillFlags, fillPortalForm, listUploadTiles, selectUploadTile } from "../services/portalFillers";
+
+// The messages the side panel sends through extensionBridge
+type PanelRequest =
+  | { action: 'detect_page' }
+  | { action: 'get_page_image' }
+  | { action: 'list_tiles'; platform: Platform }
+  | { action: 'select_tile'; platform: Platform; index: number }
+  | { action: 'fill_form'; platform: Platform; metadata: Metadata; flags?: FillFlags };
+
+const findPageImage = (): { url: string; site: string } | null => {
+  // Dreamstime specific
+  const dtImage = document.getElementById('image-item') as HTMLImageElement | null;
+  if (dtImage?.src) return { url: dtImage.src, site: 'Dreamstime' };
+
+  // Adobe Stock specific
+  const adobeThumb = document.querySelector<HTMLImageElement>('img.upload-tile__thumbnail');
+  if (adobeThumb?.src) return { url: adobeThumb.src, site: 'Adobe Stock' };
+
+  // Generic fallback
+  const firstLargeImg = Array.from(document.querySelectorAll('img')).find(img => img.width > 300);
+  return firstLargeImg ? { url: firstLargeImg.src, site: 'Generic' } : null;
+};
+
+chrome.runtime.onMessage.addListener((request: PanelRequest, _sender, sendResponse: (response: object) => void) => {
+  try {
+    if (request.action === "detect_page") {
+      const hasForm = Boolean(document.querySelector('textarea, input[type="text"]'));
+      sendResponse({ site: detectPortal(location.href), url: location.href, hasForm });
+    } else if (request.action === "get_page_image") {
+      sendResponse(findPageImage() || { error: "No suitable image found on page" });
+    } else if (request.action === "list_tiles") {
+      sendResponse({ tiles: listUploadTiles(document, request.platform) });
+    } else if (request.action === "select_tile") {
+      sendResponse(selectUploadTile(document, request.platform, request.index) ? { success: true } : { error: 'Upload tile not found' });
+    } else if (request.action === "fill_form") {
+      const { metadata, platform, flags } = request;
+      const report = fillPortalForm(document, platform, metadata, flags);
+      sendResponse({ success: report.filled.length > 0, report });
+    }
+  } catch (e) {
+    sendResponse({ error: (e instanceof Error && e.message) || 'Content script error' });
+  }
+  return true;
+});
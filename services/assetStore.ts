@@ -0,0 +1,256 @@
+import { Asset } from "../types";
+import { DEFAULT_PROJECT_ID } from "../constants";
+
+const DB_NAME = 'autometagen';
+const DB_VERSION = 2;
+const RECORD_STORE = 'assets';
+const FILE_STORE = 'files';
+const THUMBNAIL_SIZE = 320;
+
+// Metadata and file blobs live in separate stores so that keystroke-level
+// metadata saves never have to rewrite the original binary.
+interface AssetRecord extends Omit<Asset, 'file' | 'previewUrl' | 'rasterFile' | 'revisions'> {
+  projectId: string;
+  position: number;
+}
+
+interface FileRecord {
+  id: string;
+  projectId: string;
+  file: Blob;
+  fileName: string;
+  fileType: string;
+  lastModified: number;
+  raster?: Blob;
+  rasterName?: string;
+  rasterType?: string;
+  thumbnail?: Blob;
+  revisions?: { id: string; prompt: string; createdAt: number; file: Blob; fileName: string; fileType: string }[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Remove assets or free up disk space.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (const name of [RECORD_STORE, FILE_STORE]) {
+          const store = db.objectStoreNames.contains(name)
+            ? tx.objectStore(name)
+            : db.createObjectStore(name, { keyPath: 'id' });
+          if (!store.indexNames.contains('projectId')) store.createIndex('projectId', 'projectId');
+          // v1 had a single pipeline: move it into the default project
+          if (event.oldVersion === 1) {
+            store.openCursor().onsuccess = (e) => {
+              const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+              if (!cursor) return;
+              if (!cursor.value.projectId) cursor.update({ ...cursor.value, projectId: DEFAULT_PROJECT_ID });
+              cursor.continue();
+            };
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const isQuotaError = (error: unknown) => {
+  const { name, inner } = (error || {}) as { name?: string; inner?: { name?: string } };
+  return name === 'QuotaExceededError' || inner?.name === 'QuotaExceededError';
+};
+
+const runTransaction = async (
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    tx.oncomplete = () => resolve();
+    tx.onabort = tx.onerror = () => {
+      reject(isQuotaError(tx.error) ? new StorageQuotaError() : tx.error);
+    };
+    try {
+      work(tx);
+    } catch (error) {
+      tx.abort();
+      reject(isQuotaError(error) ? new StorageQuotaError() : error);
+    }
+  });
+};
+
+const getAllByProject = async <T>(store: string, projectId: string): Promise<T[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(store, 'readonly').objectStore(store).index('projectId').getAll(projectId);
+    request.onsuccess = () => resolve(request.result as T[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const createThumbnail = async (file: Blob): Promise<Blob | undefined> => {
+  if (!file.type.startsWith('image/')) return undefined;
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise(resolve => canvas.toBlob(b => resolve(b || undefined), 'image/jpeg', 0.8));
+  } catch {
+    return undefined;
+  }
+};
+
+const toRecord = ({ file, previewUrl, rasterFile, revisions, ...rest }: Asset, projectId: string, position: number): AssetRecord => ({
+  ...rest,
+  projectId,
+  position,
+});
+
+export const saveAssetFiles = async (projectId: string, assets: Asset[]): Promise<void> => {
+  const records: FileRecord[] = [];
+  for (const asset of assets) {
+    records.push({
+      id: asset.id,
+      projectId,
+      file: asset.file,
+      fileName: asset.file.name,
+      fileType: asset.file.type,
+      lastModified: asset.file.lastModified,
+      raster: asset.rasterFile,
+      rasterName: asset.rasterFile?.name,
+      rasterType: asset.rasterFile?.type,
+      thumbnail: await createThumbnail(asset.rasterFile || asset.file),
+      revisions: asset.revisions?.map(({ file, ...revision }) => ({ ...revision, file, fileName: file.name, fileType: file.type })),
+    });
+  }
+  await runTransaction([FILE_STORE], 'readwrite', (tx) => {
+    const store = tx.objectStore(FILE_STORE);
+    records.forEach(r => store.put(r));
+  });
+};
+
+export const saveAssetRecords = (projectId: string, assets: Asset[]): Promise<void> =>
+  runTransaction([RECORD_STORE], 'readwrite', (tx) => {
+    const store = tx.objectStore(RECORD_STORE);
+    assets.forEach((a, i) => store.put(toRecord(a, projectId, i)));
+  });
+
+export const loadAssets = async (projectId: string): Promise<Asset[]> => {
+  const [records, files] = await Promise.all([
+    getAllByProject<AssetRecord>(RECORD_STORE, projectId),
+    getAllByProject<FileRecord>(FILE_STORE, projectId),
+  ]);
+  const fileById = new Map(files.map(f => [f.id, f]));
+
+  return records
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, projectId: _projectId, ...record }) => {
+      const stored = fileById.get(record.id);
+      const file = stored
+        ? new File([stored.file], stored.fileName, { type: stored.fileType, lastModified: stored.lastModified })
+        : new File([], record.name);
+      const rasterFile = stored?.raster
+        ? new File([stored.raster], stored.rasterName || `${record.name}.png`, { type: stored.rasterType })
+        : undefined;
+      const revisions = stored?.revisions?.map(({ file: blob, fileName, fileType, ...revision }) => ({
+        ...revision,
+        file: new File([blob], fileName, { type: fileType }),
+      }));
+      const previewSource = record.type !== 'Video' && stored?.thumbnail ? stored.thumbnail : rasterFile || file;
+      const canPreview = previewSource.type.startsWith('image/') || previewSource.type.startsWith('video/');
+      return {
+        ...record,
+        rasterFile,
+        revisions,
+        // An asset interrupted mid-generation comes back as idle so it can be re-run
+        status: record.status === 'pending' ? 'idle' : record.status,
+        file,
+        previewUrl: canPreview ? URL.createObjectURL(previewSource) : undefined,
+      };
+    });
+};
+
+export const deleteAssets = (ids: string[]): Promise<void> =>
+  runTransaction([RECORD_STORE, FILE_STORE], 'readwrite', (tx) => {
+    ids.forEach(id => {
+      tx.objectStore(RECORD_STORE).delete(id);
+      tx.objectStore(FILE_STORE).delete(id);
+    });
+  });
+
+export const clearAssets = (projectId: string): Promise<void> =>
+  runTransaction([RECORD_STORE, FILE_STORE], 'readwrite', (tx) => {
+    for (const name of [RECORD_STORE, FILE_STORE]) {
+      const store = tx.objectStore(name);
+      store.index('projectId').getAllKeys(projectId).onsuccess = (e) => {
+        ((e.target as IDBRequest<IDBValidKey[]>).result).forEach(key => store.delete(key));
+      };
+    }
+  });
+
+// Copies every record and file of a project under fresh asset IDs
+export const duplicateProjectAssets = async (fromProjectId: string, toProjectId: string): Promise<void> => {
+  const [records, files] = await Promise.all([
+    getAllByProject<AssetRecord>(RECORD_STORE, fromProjectId),
+    getAllByProject<FileRecord>(FILE_STORE, fromProjectId),
+  ]);
+  const idMap = new Map(records.map(r => [r.id, crypto.randomUUID()]));
+  await runTransaction([RECORD_STORE, FILE_STORE], 'readwrite', (tx) => {
+    records.forEach(r => tx.objectStore(RECORD_STORE).put({ ...r, id: idMap.get(r.id), projectId: toProjectId }));
+    files
+      .filter(f => idMap.has(f.id))
+      .forEach(f => tx.objectStore(FILE_STORE).put({ ...f, id: idMap.get(f.id), projectId: toProjectId }));
+  });
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+};
+
+// Asks the browser not to evict the pipeline under storage pressure
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return navigator.storage.persist();
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unit]}`;
+};
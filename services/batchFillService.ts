@@ -0,0 +1,70 @@
+import { Asset } from "../types";
+import { UploadTile } from "./portalFillers";
+import { getAnalysisImage, submissionNames } from "./vectorService";
+import { computeDHash, hammingDistance } from "./imageHashService";
+
+// Bits out of 64 that may differ before two images stop counting as the same
+export const HASH_MATCH_DISTANCE = 10;
+
+export interface TileMatch {
+  tile: UploadTile;
+  assetId: string | null;
+  method: 'filename' | 'hash' | null;
+}
+
+// Portals lowercase names, swap spaces for underscores and append suffixes
+// like "_1" or re-encode the extension, so compare only the alphanumerics.
+export const normalizeFileName = (name: string): string =>
+  name.toLowerCase().replace(/\.[a-z0-9]{2,4}$/, '').replace(/[^a-z0-9]/g, '');
+
+const hashAsset = async (asset: Asset): Promise<string | null> => {
+  if (asset.type === 'Video') return null;
+  if (asset.fingerprint?.dHash) return asset.fingerprint.dHash;
+  const image = await getAnalysisImage(asset);
+  return image ? computeDHash(image).catch(() => null) : null;
+};
+
+// Filenames are tried first; tiles still unmatched fall back to comparing
+// the portal thumbnail against the pipeline images. Each asset is used once.
+export const matchTilesToAssets = async (
+  tiles: UploadTile[],
+  assets: Asset[],
+  loadThumbnail: (url: string) => Promise<Blob>
+): Promise<TileMatch[]> => {
+  const used = new Set<string>();
+  const byName = new Map<string, Asset>();
+  assets.forEach(a => submissionNames(a).forEach(n => byName.set(normalizeFileName(n), a)));
+
+  const matches: TileMatch[] = tiles.map(tile => {
+    const asset = tile.name ? byName.get(normalizeFileName(tile.name)) : undefined;
+    if (!asset || used.has(asset.id)) return { tile, assetId: null, method: null };
+    used.add(asset.id);
+    return { tile, assetId: asset.id, method: 'filename' };
+  });
+
+  const unmatched = matches.filter(m => !m.assetId && m.tile.thumbnailUrl);
+  if (unmatched.length === 0) return matches;
+
+  const assetHashes = new Map<string, string>();
+  for (const asset of assets.filter(a => !used.has(a.id))) {
+    const hash = await hashAsset(asset);
+    if (hash) assetHashes.set(asset.id, hash);
+  }
+
+  for (const match of unmatched) {
+    const thumbHash = await loadThumbnail(match.tile.thumbnailUrl!).then(computeDHash).catch(() => null);
+    if (!thumbHash) continue;
+    let best: { id: string; distance: number } | null = null;
+    for (const [id, hash] of assetHashes) {
+      if (used.has(id)) continue;
+      const distance = hammingDistance(thumbHash, hash);
+      if (distance <= HASH_MATCH_DISTANCE && (!best || distance < best.distance)) best = { id, distance };
+    }
+    if (best) {
+      used.add(best.id);
+      match.assetId = best.id;
+      match.method = 'hash';
+    }
+  }
+  return matches;
+};
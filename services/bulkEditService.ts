@@ -0,0 +1,107 @@
+import { Asset, Metadata, Platform } from "../types";
+import { ADOBE_STOCK_CATEGORIES, DREAMSTIME_CATEGORIES, SHUTTERSTOCK_CATEGORIES } from "../constants";
+import { getMetadata, hasMetadata } from "./metadataService";
+import { keywordKey } from "./keywordService";
+
+export type TextField = 'title' | 'description';
+
+export type BulkOperation =
+  | { kind: 'addKeywords'; keywords: string }
+  | { kind: 'removeKeywords'; keywords: string }
+  | { kind: 'replaceKeyword'; find: string; replace: string }
+  | { kind: 'findReplace'; field: TextField; pattern: string; replacement: string; caseSensitive: boolean }
+  | { kind: 'setField'; field: keyof Metadata; value: string }
+  | { kind: 'template'; field: TextField; prefix: string; suffix: string };
+
+export interface FieldOption {
+  field: keyof Metadata;
+  label: string;
+  // Free text when absent
+  options?: { value: string; label: string }[];
+}
+
+// The single-value fields each portal has, for the "set field" operation
+export const SETTABLE_FIELDS: Record<Platform, FieldOption[]> = {
+  'Shutterstock': [
+    { field: 'category1', label: 'Category 1', options: SHUTTERSTOCK_CATEGORIES.map(c => ({ value: c, label: c })) },
+    { field: 'category2', label: 'Category 2', options: SHUTTERSTOCK_CATEGORIES.map(c => ({ value: c, label: c })) },
+  ],
+  'Adobe Stock': [
+    { field: 'adobeCategory', label: 'Category', options: ADOBE_STOCK_CATEGORIES.map(c => ({ value: c.id, label: `${c.id}. ${c.name}` })) },
+  ],
+  'Dreamstime': [
+    { field: 'dreamstimeCategory1', label: 'Category 1', options: DREAMSTIME_CATEGORIES.map(c => ({ value: c.id, label: c.name })) },
+    { field: 'dreamstimeCategory2', label: 'Category 2', options: DREAMSTIME_CATEGORIES.map(c => ({ value: c.id, label: c.name })) },
+  ],
+  'Teepublic': [
+    { field: 'mainTag', label: 'Main Tag' },
+  ],
+};
+
+// Throws the browser's SyntaxError message for an invalid pattern
+export const compilePattern = (pattern: string, caseSensitive: boolean): RegExp =>
+  new RegExp(pattern, caseSensitive ? 'g' : 'gi');
+
+// Template variables: {name} is the filename without its extension, {n} the
+// asset's 1-based position in the selection.
+const renderTemplate = (template: string, asset: Asset, index: number): string =>
+  template.replace(/\{name\}/g, asset.name.replace(/\.[^.]+$/, '')).replace(/\{n\}/g, String(index + 1));
+
+// Unlike parseKeywords, keeps the user's casing; only comparisons ignore it
+const splitKeywords = (value: string): string[] => value.split(',').map(k => k.trim()).filter(Boolean);
+const keyOf = (keyword: string) => keywordKey(keyword.toLowerCase().replace(/\s+/g, ' '));
+const joinKeywords = (keywords: string[]) => keywords.join(', ');
+
+export const applyBulkOperation = (metadata: Metadata, op: BulkOperation, asset: Asset, index: number): Metadata => {
+  const keywords = splitKeywords(metadata.keywords);
+  switch (op.kind) {
+    case 'addKeywords': {
+      const existing = new Set(keywords.map(keyOf));
+      const added = splitKeywords(op.keywords).filter(k => !existing.has(keyOf(k)));
+      // New keywords go first: the earliest ones carry the most weight
+      return { ...metadata, keywords: joinKeywords([...added, ...keywords]) };
+    }
+    case 'removeKeywords': {
+      const removed = new Set(splitKeywords(op.keywords).map(keyOf));
+      return { ...metadata, keywords: joinKeywords(keywords.filter(k => !removed.has(keyOf(k)))) };
+    }
+    case 'replaceKeyword': {
+      const [find] = splitKeywords(op.find);
+      const [replacement] = splitKeywords(op.replace);
+      if (!find || !replacement) return metadata;
+      const replaced = keywords.map(k => keyOf(k) === keyOf(find) ? replacement : k);
+      // The replacement may already be in the list
+      return { ...metadata, keywords: joinKeywords(replaced.filter((k, i) => replaced.findIndex(o => keyOf(o) === keyOf(k)) === i)) };
+    }
+    case 'findReplace':
+      return { ...metadata, [op.field]: metadata[op.field].replace(compilePattern(op.pattern, op.caseSensitive), op.replacement) };
+    case 'setField':
+      return { ...metadata, [op.field]: op.value };
+    case 'template': {
+      const value = `${renderTemplate(op.prefix, asset, index)}${metadata[op.field]}${renderTemplate(op.suffix, asset, index)}`;
+      return { ...metadata, [op.field]: value.trim() };
+    }
+  }
+};
+
+// Assets without metadata for the platform are left alone: there is nothing to edit
+export const applyBulkEdit = (assets: Asset[], op: BulkOperation, platform: Platform): Map<string, Metadata> => {
+  const changes = new Map<string, Metadata>();
+  assets.filter(a => hasMetadata(a, platform)).forEach((asset, index) => {
+    const before = getMetadata(asset, platform);
+    const after = applyBulkOperation(before, op, asset, index);
+    if (JSON.stringify(after) !== JSON.stringify(before)) changes.set(asset.id, after);
+  });
+  return changes;
+};
+
+export const describeBulkOperation = (op: BulkOperation): string => {
+  switch (op.kind) {
+    case 'addKeywords': return `Add keywords "${op.keywords}"`;
+    case 'removeKeywords': return `Remove keywords "${op.keywords}"`;
+    case 'replaceKeyword': return `Replace keyword "${op.find}" with "${op.replace}"`;
+    case 'findReplace': return `Replace /${op.pattern}/ in ${op.field}`;
+    case 'setField': return `Set ${op.field}`;
+    case 'template': return `Wrap ${op.field} in template`;
+  }
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { mergeImportedMetadata, parseMetadataCSV } from "./csvImportService";
+
+describe("parseMetadataCSV", () => {
+  it("reads Adobe's own export by its Filename column, not the media id", () => {
+    const csv = 'Media ID,Filename,Title,Keywords,Category\n123456,beach.jpg,Beach at dawn,"beach, dawn",Landscapes\n';
+    expect(parseMetadataCSV(csv, 'Shutterstock')).toEqual({
+      platform: 'Adobe Stock',
+      rows: [{ filename: 'beach.jpg', metadata: { title: 'Beach at dawn', description: '', keywords: 'beach, dawn', adobeCategory: '11' } }],
+    });
+  });
+
+  it("rejects a CSV without a Filename column", () => {
+    expect(() => parseMetadataCSV('Media ID,Title\n123456,Beach\n', 'Adobe Stock')).toThrow('The CSV has no Filename column');
+  });
+});
+
+describe("mergeImportedMetadata", () => {
+  const current = { 'Adobe Stock': { title: 'Old title', description: 'Kept description', keywords: 'old', adobeCategory: '5' } };
+
+  it("keeps values the import left blank or lacked", () => {
+    const imported = { 'Adobe Stock': { title: 'New title', description: '', keywords: 'beach, dawn', adobeCategory: '' } };
+    expect(mergeImportedMetadata(current, imported)).toEqual({
+      'Adobe Stock': { title: 'New title', description: 'Kept description', keywords: 'beach, dawn', adobeCategory: '5' },
+    });
+  });
+
+  it("adds platforms the asset had no metadata for", () => {
+    const imported = { Teepublic: { title: 'Cat', description: '', keywords: 'cat', mainTag: 'cat' } };
+    expect(mergeImportedMetadata(current, imported)).toEqual({
+      ...current,
+      Teepublic: { title: 'Cat', description: '', keywords: 'cat', mainTag: 'cat' },
+    });
+  });
+});
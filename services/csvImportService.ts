@@ -0,0 +1,202 @@
+import { Asset, Metadata, Platform, PlatformMetadata } from "../types";
+import { ADOBE_STOCK_CATEGORIES, DREAMSTIME_CATEGORIES, SHUTTERSTOCK_CATEGORIES } from "../constants";
+import { EMPTY_METADATA } from "./metadataService";
+import { isVectorSource, submissionNames } from "./vectorService";
+
+export interface ImportedRow {
+  filename: string;
+  metadata: Metadata;
+}
+
+export interface CsvImport {
+  platform: Platform;
+  rows: ImportedRow[];
+}
+
+type Column = keyof Metadata | 'filename' | 'categories';
+
+// Header spellings from our own exporters and the portals' catalog exports
+const HEADER_ALIASES: Record<string, Column> = {
+  'filename': 'filename',
+  'file name': 'filename',
+  'file': 'filename',
+  'original filename': 'filename',
+  'original file name': 'filename',
+  'title': 'title',
+  'image name': 'title',
+  'description': 'description',
+  'caption': 'description',
+  'keywords': 'keywords',
+  'tags': 'keywords',
+  'categories': 'categories',
+  'category': 'adobeCategory',
+  'category 1': 'dreamstimeCategory1',
+  'category 2': 'dreamstimeCategory2',
+  'main tag': 'mainTag',
+};
+
+// Headers only one portal's layout has
+const PLATFORM_MARKERS: { platform: Platform; headers: string[] }[] = [
+  { platform: 'Teepublic', headers: ['main tag'] },
+  { platform: 'Dreamstime', headers: ['image name', 'category 1', 'mr doc ids', 'w-el'] },
+  { platform: 'Shutterstock', headers: ['categories', 'mature content', 'illustration'] },
+  { platform: 'Adobe Stock', headers: ['releases', 'category'] },
+];
+
+// A row that matched no file, to become a metadata-only asset
+export interface UnmatchedImport {
+  filename: string;
+  companionName?: string;
+  metadata: PlatformMetadata;
+}
+
+export interface ImportPlan {
+  matched: Map<string, PlatformMetadata>;
+  unmatched: UnmatchedImport[];
+}
+
+export const isCsvFile = (file: File) => file.type === 'text/csv' || /\.csv$/i.test(file.name);
+
+// Portals in some locales export with semicolons or tabs
+const detectDelimiter = (headerLine: string): string => {
+  const counts = [',', ';', '\t'].map(d => ({ d, n: headerLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+// RFC 4180: quoted cells may hold delimiters, doubled quotes and line breaks
+export const parseCSV = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell || row.length > 0) rows.push([...row, cell]);
+  return rows.filter(r => r.some(value => value.trim()));
+};
+
+// Accepts either the portal's category id or its name
+const resolveCategory = (value: string, options: { id: string; name: string }[]): string => {
+  const wanted = value.trim().toLowerCase();
+  return options.find(c => c.id === wanted || c.name.toLowerCase() === wanted)?.id || '';
+};
+
+const resolveShutterstockCategory = (value: string): string =>
+  SHUTTERSTOCK_CATEGORIES.find(c => c.toLowerCase() === value.trim().toLowerCase()) || '';
+
+const detectPlatform = (headers: string[], fallback: Platform): Platform =>
+  PLATFORM_MARKERS.find(m => m.headers.some(h => headers.includes(h)))?.platform || fallback;
+
+// Simple CSVs carry no portal-specific columns and land on `fallback`
+export const parseMetadataCSV = (text: string, fallback: Platform): CsvImport => {
+  const [headerRow, ...body] = parseCSV(text);
+  if (!headerRow) throw new Error('The CSV is empty');
+  const headers = headerRow.map(h => h.trim().toLowerCase());
+  const columns = headers.map(h => HEADER_ALIASES[h]);
+  if (!columns.includes('filename')) throw new Error('The CSV has no Filename column');
+  const platform = detectPlatform(headers, fallback);
+
+  const rows = body.map(cells => {
+    const values: Partial<Record<Column, string>> = {};
+    columns.forEach((column, i) => {
+      if (column && values[column] === undefined) values[column] = (cells[i] || '').trim();
+    });
+
+    const metadata: Metadata = {
+      title: values.title || '',
+      description: values.description || '',
+      keywords: values.keywords || '',
+    };
+    // Category columns are only taken from layouts that have them, so a
+    // Simple CSV never clears categories already set on the asset
+    if (platform === 'Shutterstock' && values.categories !== undefined) {
+      const [first = '', second = ''] = (values.categories || '').split(',');
+      metadata.category1 = resolveShutterstockCategory(first);
+      metadata.category2 = resolveShutterstockCategory(second);
+    }
+    if (platform === 'Adobe Stock' && values.adobeCategory !== undefined) metadata.adobeCategory = resolveCategory(values.adobeCategory || '', ADOBE_STOCK_CATEGORIES);
+    if (platform === 'Dreamstime' && values.dreamstimeCategory1 !== undefined) {
+      metadata.dreamstimeCategory1 = resolveCategory(values.dreamstimeCategory1 || '', DREAMSTIME_CATEGORIES);
+      metadata.dreamstimeCategory2 = resolveCategory(values.dreamstimeCategory2 || '', DREAMSTIME_CATEGORIES);
+    }
+    if (platform === 'Teepublic' && values.mainTag !== undefined) metadata.mainTag = values.mainTag || '';
+    return { filename: values.filename || '', metadata };
+  });
+
+  return { platform, rows: rows.filter(r => r.filename) };
+};
+
+const stripExtension = (name: string) => name.toLowerCase().replace(/\.[a-z0-9]{2,4}$/, '');
+
+// Exact filenames win; otherwise the extension is ignored, since portals
+// re-encode uploads and export them as .jpg
+const findAsset = (assets: Asset[], filename: string): Asset | undefined => {
+  const wanted = filename.toLowerCase();
+  return assets.find(a => submissionNames(a).some(n => n.toLowerCase() === wanted))
+    || assets.find(a => submissionNames(a).some(n => stripExtension(n) === stripExtension(wanted)));
+};
+
+// Rows for an EPS/AI source and its same-named preview, as our exporter
+// writes them, collapse back into one metadata-only vector asset.
+export const planImport = (imports: CsvImport[], assets: Asset[]): ImportPlan => {
+  const matched = new Map<string, PlatformMetadata>();
+  const unmatched = new Map<string, UnmatchedImport>();
+
+  imports.forEach(({ platform, rows }) => rows.forEach(({ filename, metadata }) => {
+    const asset = findAsset(assets, filename);
+    if (asset) {
+      matched.set(asset.id, { ...matched.get(asset.id), [platform]: metadata });
+      return;
+    }
+    const key = filename.toLowerCase();
+    unmatched.set(key, { filename, metadata: { ...unmatched.get(key)?.metadata, [platform]: metadata } });
+  }));
+
+  const entries = Array.from(unmatched.values());
+  const previews = entries.filter(e => /\.(jpe?g|png)$/i.test(e.filename));
+  entries.filter(e => isVectorSource(new File([], e.filename))).forEach(source => {
+    const preview = previews.find(p => unmatched.has(p.filename.toLowerCase()) && stripExtension(p.filename) === stripExtension(source.filename));
+    if (!preview) return;
+    source.companionName = preview.filename;
+    unmatched.delete(preview.filename.toLowerCase());
+  });
+
+  return { matched, unmatched: Array.from(unmatched.values()) };
+};
+
+// Columns the file lacks or left blank keep the asset's current values
+export const mergeImportedMetadata = (current: PlatformMetadata, imported: PlatformMetadata): PlatformMetadata => {
+  const merged = { ...current };
+  (Object.keys(imported) as Platform[]).forEach(p => {
+    const present = Object.entries(imported[p]!).filter(([, value]) => typeof value === 'string' && value.trim());
+    merged[p] = { ...EMPTY_METADATA, ...current[p], ...Object.fromEntries(present) };
+  });
+  return merged;
+};
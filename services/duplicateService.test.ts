@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { Asset, Metadata } from "../types";
+import { fillExactCopies, findExactDuplicates, reuseMetadata, varyMetadata } from "./duplicateService";
+
+const KEYWORDS = Array.from({ length: 20 }, (_, i) => `keyword${i}`).join(', ');
+
+const META: Metadata = { title: 'Beach at sunset', description: 'Waves on a beach', keywords: KEYWORDS };
+
+const asset = (id: string, fields: Partial<Asset> = {}): Asset => ({
+  id,
+  file: new File([], `${id}.jpg`),
+  name: `${id}.jpg`,
+  type: 'Photo',
+  status: 'idle',
+  metadata: {},
+  fingerprint: { digest: 'same' },
+  ...fields,
+} as Asset);
+
+describe("findExactDuplicates", () => {
+  it("treats the first-added asset as the original", () => {
+    // New assets are prepended, so the list runs newest first
+    const [newest, middle, oldest] = [asset('c'), asset('b'), asset('a')];
+    const copies = findExactDuplicates([newest, middle, oldest, asset('other', { fingerprint: { digest: 'other' } })]);
+    expect(Array.from(copies.keys())).toEqual(['b', 'c']);
+    expect(copies.get('c')!.id).toBe('a');
+    expect(copies.get('b')!.id).toBe('a');
+  });
+
+  it("ignores assets that are not fingerprinted yet", () => {
+    expect(findExactDuplicates([asset('b', { fingerprint: undefined }), asset('a')]).size).toBe(0);
+  });
+});
+
+describe("reuseMetadata", () => {
+  it("fills only the platforms the copy has no metadata for", () => {
+    const source = asset('a', { status: 'success', metadata: { Shutterstock: META, 'Adobe Stock': META } });
+    const own = { ...META, title: 'My own title' };
+    const reused = reuseMetadata(source, asset('b', { metadata: { Shutterstock: own } }));
+    expect(Object.keys(reused)).toEqual(['Adobe Stock']);
+    expect(reused['Adobe Stock']!.title).toBe(META.title);
+  });
+});
+
+describe("varyMetadata", () => {
+  it("gives the same output for the same seed", () => {
+    expect(varyMetadata(META, 'b')).toEqual(varyMetadata(META, 'b'));
+  });
+
+  it("keeps the leading keywords in place and only shuffles the rest", () => {
+    const keywords = varyMetadata(META, 'b').keywords.split(', ');
+    expect(keywords.slice(0, 10)).toEqual(KEYWORDS.split(', ').slice(0, 10));
+    expect([...keywords].sort()).toEqual(KEYWORDS.split(', ').sort());
+    expect(keywords).not.toEqual(varyMetadata(META, 'c').keywords.split(', '));
+  });
+});
+
+describe("fillExactCopies", () => {
+  const original = asset('a', { status: 'success', metadata: { Shutterstock: META } });
+
+  it("fills copies of the given originals", () => {
+    const [copy] = fillExactCopies([asset('b'), original], ['a']);
+    expect(copy.status).toBe('success');
+    expect(copy.metadata.Shutterstock).toEqual(varyMetadata(META, 'b'));
+  });
+
+  it("leaves copies of other originals and copies being generated alone", () => {
+    const assets = [asset('c', { status: 'pending' }), asset('b'), original];
+    expect(fillExactCopies(assets, [])).toEqual(assets);
+    expect(fillExactCopies(assets, ['a'])[0]).toBe(assets[0]);
+  });
+});
@@ -0,0 +1,126 @@
+import { Asset, AssetFingerprint, Metadata, PlatformMetadata } from "../types";
+import { computeContentDigest, computeDHash, computePHash, hammingDistance } from "./imageHashService";
+import { withVersion } from "./historyService";
+import { hasMetadata } from "./metadataService";
+import { getAnalysisImage } from "./vectorService";
+import { captureVideoFrames } from "./videoService";
+
+// pHash bits out of 64 that may differ for two shots to count as near-duplicates
+export const NEAR_DUPLICATE_DISTANCE = 8;
+// Keyframes sampled per clip; kept small since they are decoded on import
+const FINGERPRINT_FRAMES = 4;
+const FINGERPRINT_FRAME_SIZE = 256;
+// The leading keywords carry the most search weight and stay in place
+const FIXED_KEYWORDS = 10;
+
+export interface DuplicateGroup {
+  ids: string[];
+  // Every member is a byte-for-byte copy of the others
+  exact: boolean;
+}
+
+export const fingerprintAsset = async (asset: Asset): Promise<AssetFingerprint> => {
+  const digest = await computeContentDigest(asset.file);
+  if (asset.type === 'Video') {
+    const frames = await captureVideoFrames(asset.file, FINGERPRINT_FRAMES, FINGERPRINT_FRAME_SIZE);
+    return { digest, frames: await Promise.all(frames.map(computeDHash)) };
+  }
+  const image = await getAnalysisImage(asset);
+  if (!image) return { digest };
+  const [dHash, pHash] = await Promise.all([computeDHash(image), computePHash(image)]);
+  return { digest, dHash, pHash };
+};
+
+// Clips compare keyframe by keyframe; the average distance is scaled to match
+// the single-image threshold.
+const isNearDuplicate = (a: AssetFingerprint, b: AssetFingerprint): boolean => {
+  if (a.pHash && b.pHash) return hammingDistance(a.pHash, b.pHash) <= NEAR_DUPLICATE_DISTANCE;
+  if (a.frames?.length && a.frames.length === b.frames?.length) {
+    const total = a.frames.reduce((sum, hash, i) => sum + hammingDistance(hash, b.frames![i]), 0);
+    return total / a.frames.length <= NEAR_DUPLICATE_DISTANCE;
+  }
+  return false;
+};
+
+export const findDuplicateGroups = (assets: Asset[]): DuplicateGroup[] => {
+  const hashed = assets.filter(a => a.fingerprint);
+  const parent = hashed.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      const a = hashed[i].fingerprint!;
+      const b = hashed[j].fingerprint!;
+      if (a.digest === b.digest || isNearDuplicate(a, b)) parent[root(j)] = root(i);
+    }
+  }
+
+  const groups = new Map<number, Asset[]>();
+  hashed.forEach((asset, i) => groups.set(root(i), [...(groups.get(root(i)) || []), asset]));
+  return Array.from(groups.values())
+    .filter(members => members.length > 1)
+    .map(members => ({
+      ids: members.map(a => a.id),
+      exact: members.every(a => a.fingerprint!.digest === members[0].fingerprint!.digest),
+    }));
+};
+
+// Later copies of a file already in the pipeline. New assets are prepended,
+// so the last occurrence in the list is the original.
+export const findExactDuplicates = (assets: Asset[]): Map<string, Asset> => {
+  const originals = new Map<string, Asset>();
+  const copies = new Map<string, Asset>();
+  [...assets].reverse().forEach(asset => {
+    const digest = asset.fingerprint?.digest;
+    if (!digest) return;
+    const original = originals.get(digest);
+    if (original) copies.set(asset.id, original);
+    else originals.set(digest, asset);
+  });
+  return copies;
+};
+
+const seededRandom = (seed: string) => {
+  let state = Array.from(seed).reduce((h, c) => Math.imul(h ^ c.charCodeAt(0), 16777619), 2166136261) >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+};
+
+// Shuffles the tail of the keyword list so sibling shots never submit
+// identical metadata. Seeded by asset id, so reapplying gives the same result.
+export const varyMetadata = (metadata: Metadata, seed: string): Metadata => {
+  const keywords = metadata.keywords.split(',').map(k => k.trim()).filter(Boolean);
+  const tail = keywords.slice(FIXED_KEYWORDS);
+  const random = seededRandom(seed);
+  for (let i = tail.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [tail[i], tail[j]] = [tail[j], tail[i]];
+  }
+  return { ...metadata, keywords: [...keywords.slice(0, FIXED_KEYWORDS), ...tail].join(', ') };
+};
+
+// The source's metadata for the platforms the target has none for yet
+export const reuseMetadata = (source: Asset, target: Asset): PlatformMetadata => {
+  const metadata: PlatformMetadata = {};
+  (Object.keys(source.metadata) as (keyof PlatformMetadata)[]).forEach(platform => {
+    if (hasMetadata(source, platform) && !hasMetadata(target, platform)) metadata[platform] = varyMetadata(source.metadata[platform]!, target.id);
+  });
+  return metadata;
+};
+
+// Exact copies of the given originals take over their metadata for the
+// platforms they have none for. Copies being generated are left alone.
+export const fillExactCopies = (assets: Asset[], originalIds: string[]): Asset[] => {
+  const copies = findExactDuplicates(assets);
+  const byId = new Map(assets.map(a => [a.id, a]));
+  return assets.map(asset => {
+    const original = copies.get(asset.id);
+    const source = original && originalIds.includes(original.id) ? byId.get(original.id) : undefined;
+    if (!source || source.status !== 'success' || asset.status === 'pending') return asset;
+    const reused = reuseMetadata(source, asset);
+    if (Object.keys(reused).length === 0) return asset;
+    return withVersion(asset, { ...asset, status: 'success', error: undefined, metadata: { ...asset.metadata, ...reused } }, 'reuse');
+  });
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { readExif, stripLocationFromJpeg } from "./exifService";
+
+// A little-endian TIFF block with a make, a capture date and a GPS position
+// of 46°22'12" N, 14°6'36" W. Offsets are from the start of the TIFF header.
+const buildExif = (): Uint8Array => {
+  const tiff = new Uint8Array(196);
+  const view = new DataView(tiff.buffer);
+  const ascii = (at: number, value: string) => tiff.set(new TextEncoder().encode(value), at);
+  const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+    view.setUint16(at, tag, true);
+    view.setUint16(at + 2, type, true);
+    view.setUint32(at + 4, count, true);
+    view.setUint32(at + 8, value, true);
+  };
+  const rationals = (at: number, values: [number, number][]) => values.forEach(([n, d], i) => {
+    view.setUint32(at + i * 8, n, true);
+    view.setUint32(at + i * 8 + 4, d, true);
+  });
+
+  ascii(0, 'II');
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  // IFD0: make, EXIF IFD pointer, GPS IFD pointer
+  view.setUint16(8, 3, true);
+  entry(10, 0x010f, 2, 6, 50);
+  entry(22, 0x8769, 4, 1, 56);
+  entry(34, 0x8825, 4, 1, 94);
+  ascii(50, 'Canon\0');
+  // EXIF IFD: DateTimeOriginal
+  view.setUint16(56, 1, true);
+  entry(58, 0x9003, 2, 20, 74);
+  ascii(74, '2024:05:01 18:22:10\0');
+  // GPS IFD: reference letters inline, degrees/minutes/seconds out of line
+  view.setUint16(94, 4, true);
+  entry(96, 0x0001, 2, 2, 0);
+  ascii(104, 'N');
+  entry(108, 0x0002, 5, 3, 148);
+  entry(120, 0x0003, 2, 2, 0);
+  ascii(128, 'W');
+  entry(132, 0x0004, 5, 3, 172);
+  rationals(148, [[46, 1], [22, 1], [12, 1]]);
+  rationals(172, [[14, 1], [6, 1], [36, 1]]);
+  return tiff;
+};
+
+const segment = (marker: number, data: Uint8Array): Uint8Array =>
+  new Uint8Array([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff, ...data]);
+
+const XMP = 'http://ns.adobe.com/xap/1.0/\0<x:xmpmeta><rdf:Description exif:GPSLatitude="46,22.2N" exif:GPSLongitude="14,6.6W" xmp:Rating="5"/></x:xmpmeta>';
+
+const jpeg = (): Uint8Array => {
+  const encoder = new TextEncoder();
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...segment(0xe1, new Uint8Array([...encoder.encode('Exif\0\0'), ...buildExif()])),
+    ...segment(0xe1, encoder.encode(XMP)),
+    0xff, 0xda, 0, 2, 1, 2, 3, 0xff, 0xd9,
+  ]);
+};
+
+const file = (bytes: Uint8Array | Blob) => new File([bytes], 'photo.jpg', { type: 'image/jpeg' });
+
+describe("readExif", () => {
+  it("reads the GPS position and capture date", async () => {
+    const exif = await readExif(file(jpeg()));
+    expect(exif).toMatchObject({ make: 'Canon', capturedAt: '2024-05-01T18:22:10' });
+    expect(exif!.gps!.latitude).toBeCloseTo(46.37, 6);
+    expect(exif!.gps!.longitude).toBeCloseTo(-14.11, 6);
+  });
+
+  it("returns null for files without EXIF", async () => {
+    expect(await readExif(file(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0, 2])))).toBeNull();
+  });
+});
+
+describe("stripLocationFromJpeg", () => {
+  it("blanks the GPS IFD and XMP coordinates and keeps the rest", async () => {
+    const original = jpeg();
+    const stripped = new Uint8Array(await (await stripLocationFromJpeg(file(original))).arrayBuffer());
+    expect(stripped.length).toBe(original.length);
+
+    const exif = await readExif(file(stripped));
+    expect(exif).toEqual({ make: 'Canon', capturedAt: '2024-05-01T18:22:10' });
+
+    const text = new TextDecoder('latin1').decode(stripped);
+    expect(text).not.toMatch(/GPS|46,22/);
+    expect(text).toContain('xmp:Rating="5"');
+  });
+});
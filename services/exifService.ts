@@ -0,0 +1,232 @@
+import { ExifData, GpsPosition } from "../types";
+import { readJpegSegments } from "./xmpService";
+
+const EXIF_HEADER = [0x45, 0x78, 0x69, 0x66, 0x00, 0x00]; // "Exif\0\0"
+
+const TAG = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  exifIfd: 0x8769,
+  exposureTime: 0x829a,
+  fNumber: 0x829d,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  focalLength: 0x920a,
+  lensModel: 0xa434,
+  gpsIfd: 0x8825,
+};
+
+const GPS_TAG = {
+  latitudeRef: 0x0001,
+  latitude: 0x0002,
+  longitudeRef: 0x0003,
+  longitude: 0x0004,
+  altitudeRef: 0x0005,
+  altitude: 0x0006,
+};
+
+// Bytes per component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type ExifValue = string | number[];
+
+// Reads one IFD of a TIFF structure into tag -> value. ASCII fields come back
+// as strings, everything numeric as an array (rationals already divided).
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, ExifValue> => {
+  const entries = new Map<number, ExifValue>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return entries;
+  const count = view.getUint16(start, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const valueOffset = size * components > 4 ? tiffStart + view.getUint32(entry + 8, little) : entry + 8;
+    if (valueOffset + size * components > view.byteLength) continue;
+
+    if (type === 2) {
+      let value = '';
+      for (let j = 0; j < components; j++) {
+        const code = view.getUint8(valueOffset + j);
+        if (code === 0) break;
+        value += String.fromCharCode(code);
+      }
+      entries.set(tag, value.trim());
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < components; j++) {
+      const at = valueOffset + j * size;
+      if (type === 3) values.push(view.getUint16(at, little));
+      else if (type === 4) values.push(view.getUint32(at, little));
+      else if (type === 9) values.push(view.getInt32(at, little));
+      else if (type === 5 || type === 10) {
+        const read = (o: number) => (type === 5 ? view.getUint32(o, little) : view.getInt32(o, little));
+        const denominator = read(at + 4);
+        values.push(denominator === 0 ? 0 : read(at) / denominator);
+      } else values.push(view.getUint8(at));
+    }
+    entries.set(tag, values);
+  }
+  return entries;
+};
+
+const text = (value?: ExifValue) => (typeof value === 'string' && value ? value : undefined);
+const number = (value?: ExifValue) => (Array.isArray(value) && value.length > 0 && value[0] > 0 ? value[0] : undefined);
+
+// "2024:05:01 18:22:10" -> "2024-05-01T18:22:10"
+const parseExifDate = (value?: ExifValue): string | undefined => {
+  const match = text(value)?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  return match && match[1] !== '0000' ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+// Degrees, minutes, seconds -> signed decimal degrees
+const toDegrees = (value?: ExifValue, ref?: ExifValue): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return text(ref) === 'S' || text(ref) === 'W' ? -degrees : degrees;
+};
+
+const parseGps = (gps: Map<number, ExifValue>): GpsPosition | undefined => {
+  const latitude = toDegrees(gps.get(GPS_TAG.latitude), gps.get(GPS_TAG.latitudeRef));
+  const longitude = toDegrees(gps.get(GPS_TAG.longitude), gps.get(GPS_TAG.longitudeRef));
+  // 0,0 is what cameras without a fix tend to write
+  if (latitude === undefined || longitude === undefined || (latitude === 0 && longitude === 0)) return undefined;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  const altitude = gps.get(GPS_TAG.altitude);
+  const below = Array.isArray(gps.get(GPS_TAG.altitudeRef)) && (gps.get(GPS_TAG.altitudeRef) as number[])[0] === 1;
+  return {
+    latitude,
+    longitude,
+    altitude: Array.isArray(altitude) && altitude.length > 0 ? (below ? -altitude[0] : altitude[0]) : undefined,
+  };
+};
+
+interface TiffHeader {
+  view: DataView;
+  tiffStart: number;
+  little: boolean;
+  ifd0: Map<number, ExifValue>;
+}
+
+// `data` is the APP1 payload, starting with the "Exif" header
+const readTiffHeader = (data: Uint8Array): TiffHeader | null => {
+  if (!EXIF_HEADER.every((b, i) => data[i] === b)) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const tiffStart = EXIF_HEADER.length;
+  if (tiffStart + 8 > view.byteLength) return null;
+  const order = view.getUint16(tiffStart);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  return { view, tiffStart, little, ifd0: readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little) };
+};
+
+const parseExif = (data: Uint8Array): ExifData | null => {
+  const header = readTiffHeader(data);
+  if (!header) return null;
+  const { view, tiffStart, little, ifd0 } = header;
+  const exifOffset = number(ifd0.get(TAG.exifIfd));
+  const sub = exifOffset ? readIfd(view, tiffStart, exifOffset, little) : new Map<number, ExifValue>();
+  const gpsOffset = number(ifd0.get(TAG.gpsIfd));
+
+  const exif: ExifData = {
+    make: text(ifd0.get(TAG.make)),
+    model: text(ifd0.get(TAG.model)),
+    lens: text(sub.get(TAG.lensModel)),
+    focalLength: number(sub.get(TAG.focalLength)),
+    fNumber: number(sub.get(TAG.fNumber)),
+    exposureTime: number(sub.get(TAG.exposureTime)),
+    iso: number(sub.get(TAG.iso)),
+    capturedAt: parseExifDate(sub.get(TAG.dateTimeOriginal)),
+    orientation: number(ifd0.get(TAG.orientation)),
+    gps: gpsOffset ? parseGps(readIfd(view, tiffStart, gpsOffset, little)) : undefined,
+  };
+  const found = Object.entries(exif).filter(([, v]) => v !== undefined);
+  return found.length > 0 ? Object.fromEntries(found) as ExifData : null;
+};
+
+// EXIF from a JPEG, or null when there is none
+export const readExif = async (file: File): Promise<ExifData | null> => {
+  const segments = await readJpegSegments(file);
+  const app1 = segments?.find(s => s.marker === 0xe1 && EXIF_HEADER.every((b, i) => s.data[i] === b));
+  return app1 ? parseExif(app1.data) : null;
+};
+
+// Empties the GPS IFD in place: its entries and their out-of-line values are
+// zeroed and its entry count set to 0, so no other offsets move.
+const clearGpsIfd = (data: Uint8Array) => {
+  const header = readTiffHeader(data);
+  const gpsOffset = header && number(header.ifd0.get(TAG.gpsIfd));
+  if (!header || !gpsOffset) return;
+  const { view, tiffStart, little } = header;
+  const start = tiffStart + gpsOffset;
+  if (start + 2 > view.byteLength) return;
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const size = (TYPE_SIZES[view.getUint16(entry + 2, little)] || 0) * view.getUint32(entry + 4, little);
+    if (size > 4) {
+      const valueOffset = tiffStart + view.getUint32(entry + 8, little);
+      if (valueOffset + size <= view.byteLength) data.fill(0, valueOffset, valueOffset + size);
+    }
+    data.fill(0, entry, entry + 12);
+  }
+  view.setUint16(start, 0, little);
+};
+
+// XMP copies of the coordinates (exif:GPSLatitude and friends), as attributes
+// or elements, are blanked to spaces of the same length.
+const XMP_GPS_PATTERN = /exif:GPS\w+="[^"]*"|<exif:(GPS\w+)[^>]*>[\s\S]*?<\/exif:\1>|<exif:GPS\w+[^>]*\/>/g;
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+
+// A copy of a JPEG with its GPS position removed, or the blob itself when it
+// is not a JPEG. Every edit keeps byte lengths, so the file is patched in place.
+export const stripLocationFromJpeg = async (image: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return image;
+  const latin1 = new TextDecoder('latin1');
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const data = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1) {
+      clearGpsIfd(data);
+      const text = latin1.decode(data);
+      if (text.startsWith(XMP_HEADER)) {
+        for (const match of text.matchAll(XMP_GPS_PATTERN)) data.fill(0x20, match.index!, match.index! + match[0].length);
+      }
+    }
+    offset += 2 + length;
+  }
+  return new Blob([bytes], { type: image.type || 'image/jpeg' });
+};
+
+// "Canon EOS R5", without repeating the make when the model already has it
+export const formatCamera = (exif: ExifData): string => {
+  const make = exif.make || '';
+  const model = exif.model || '';
+  if (!make) return model;
+  return model.toLowerCase().startsWith(make.split(' ')[0].toLowerCase()) ? model : `${make} ${model}`.trim();
+};
+
+export const formatShutter = (seconds: number): string =>
+  seconds >= 1 ? `${Math.round(seconds * 10) / 10}s` : `1/${Math.round(1 / seconds)}s`;
+
+export const formatCaptureDate = (capturedAt: string): string => {
+  const [year, month, day] = capturedAt.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+};
@@ -0,0 +1,157 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { Asset, Metadata, Platform } from "../types";
+import { PLATFORMS } from "../constants";
+import { MetadataProvider } from "./providers";
+import { generateAssetMetadata } from "./geminiService";
+import { buildCSV, buildTranslationsCSV, hasLocalizedColumns } from "./exportService";
+
+const golden = (name: string) => readFileSync(path.join(__dirname, '__fixtures__/export', `${name}.csv`), 'utf8');
+
+const forAllPlatforms = (metadata: Metadata) => Object.fromEntries(PLATFORMS.map(p => [p, metadata]));
+
+const asset = (fields: Partial<Asset>): Asset => ({
+  id: fields.name!,
+  file: new File([], fields.name!),
+  type: 'Photo',
+  status: 'success',
+  metadata: {},
+  ...fields,
+} as Asset);
+
+const ASSETS: Asset[] = [
+  asset({
+    name: 'beach.jpg',
+    metadata: forAllPlatforms({
+      title: 'Beach at sunset, "golden hour"',
+      description: 'Waves, sand and a "perfect" sunset',
+      keywords: 'beach, sunset, waves',
+      mainTag: 'beach',
+      category1: 'Nature',
+      category2: 'Backgrounds/Textures',
+      adobeCategory: '11',
+      dreamstimeCategory1: '112',
+      dreamstimeCategory2: '44',
+    }),
+  }),
+  // EPS source with its JPG preview: one row per submitted file
+  asset({
+    name: 'badge.eps',
+    companionName: 'badge.jpg',
+    type: 'Vector',
+    metadata: forAllPlatforms({
+      title: 'Round badge',
+      description: 'Round badge on white',
+      keywords: 'badge, round, emblem',
+      mainTag: 'badge',
+      category1: 'Abstract',
+      category2: 'Miscellaneous',
+      adobeCategory: '8',
+      dreamstimeCategory1: '39',
+    }),
+  }),
+  asset({
+    name: 'parade.jpg',
+    editorial: true,
+    rights: { people: ['woman in red coat'], logos: [], landmarks: [], mature: true },
+    modelReleases: ['jane.pdf'],
+    propertyReleases: ['house.pdf'],
+    metadata: forAllPlatforms({
+      title: 'Parade',
+      description: 'Bled, Slovenia - May 01, 2024: Crowd at the parade\nSecond line',
+      keywords: 'parade, crowd',
+      mainTag: 'parade',
+      category1: 'Holidays',
+      adobeCategory: '15',
+      dreamstimeCategory1: '15',
+    }),
+  }),
+];
+
+const GOLDEN_FILES: Record<Platform, string> = {
+  'Shutterstock': 'shutterstock',
+  'Adobe Stock': 'adobe_stock',
+  'Dreamstime': 'dreamstime',
+  'Teepublic': 'teepublic',
+};
+
+describe("buildCSV", () => {
+  it.each(PLATFORMS)("writes the %s contributor CSV", (platform) => {
+    expect(buildCSV(ASSETS, 'Contributor-specific CSV', platform)).toBe(golden(GOLDEN_FILES[platform]));
+  });
+
+  it("writes the simple CSV", () => {
+    expect(buildCSV(ASSETS, 'Simple CSV', 'Adobe Stock')).toBe(golden('simple'));
+  });
+
+  it("adds clip properties to the simple CSV when it holds videos", () => {
+    const clip = asset({
+      name: 'waves.mp4',
+      type: 'Video',
+      video: { duration: 12.345, width: 1920, height: 1080, fps: 29.97 },
+      metadata: forAllPlatforms({ title: 'Waves', description: 'Waves rolling in', keywords: 'waves, sea' }),
+    });
+    expect(buildCSV([clip, ASSETS[0]], 'Simple CSV', 'Adobe Stock')).toBe([
+      'Filename,Title,Description,Keywords,Duration,Resolution,Frame Rate',
+      '"waves.mp4","Waves","Waves rolling in","waves, sea","12.35","1920x1080","29.97"',
+      '"beach.jpg","Beach at sunset, ""golden hour""","Waves, sand and a ""perfect"" sunset","beach, sunset, waves","","",""',
+    ].join('\n'));
+    expect(buildCSV([clip], 'Contributor-specific CSV', 'Adobe Stock').split('\r\n')[0]).toBe('Filename,Title,Keywords,Category,Releases');
+  });
+
+  it("writes Dreamstime category IDs the model picked and blanks unknown ones", async () => {
+    const provider = {
+      generate: async () => ({
+        title: 'Beach at sunset, "golden hour"',
+        description: 'Waves, sand and a "perfect" sunset',
+        keywords: Array.from({ length: 60 }, (_, i) => `keyword${i}`).join(', '),
+        dreamstimeCategory1: '112',
+        dreamstimeCategory2: 'Abstract - Textures',
+      }),
+    } as unknown as MetadataProvider;
+    const generated = asset({ name: 'beach.jpg', type: 'Video' });
+    const { metadata } = await generateAssetMetadata(generated, ['Dreamstime'], { provider });
+    const [, row] = buildCSV([{ ...generated, metadata }], 'Contributor-specific CSV', 'Dreamstime').split('\r\n');
+    expect(row.split('","').slice(3, 6)).toEqual(['112', '', '']);
+  });
+});
+
+describe("translations", () => {
+  const translated: Asset = {
+    ...ASSETS[0],
+    localized: { 'Adobe Stock': { de: { title: 'Strand bei Sonnenuntergang', description: 'Wellen und Sand', sourceTitle: '', sourceDescription: '' } } },
+  };
+  const localization = { languages: ['de' as const], glossary: { de: { beach: 'Strand', sunset: 'Sonnenuntergang' } } };
+
+  it("adds the fields Adobe Stock and Dreamstime accept to their CSVs", () => {
+    expect(buildCSV([translated], 'Contributor-specific CSV', 'Adobe Stock', localization).split('\r\n')).toEqual([
+      'Filename,Title,Keywords,Category,Releases,Title (de),Keywords (de)',
+      'beach.jpg,"Beach at sunset, ""golden hour""","beach, sunset, waves",11,,Strand bei Sonnenuntergang,"Strand, Sonnenuntergang, waves"',
+    ]);
+    expect(buildCSV([translated], 'Contributor-specific CSV', 'Dreamstime', localization).split('\r\n')[0])
+      .toMatch(/,"?Pr Docs"?,Title \(de\),Description \(de\),Keywords \(de\)$/);
+    expect(hasLocalizedColumns('Contributor-specific CSV', 'Adobe Stock')).toBe(true);
+  });
+
+  it("keeps them out of the Shutterstock and Teepublic CSVs", () => {
+    (['Shutterstock', 'Teepublic'] as Platform[]).forEach(platform => {
+      expect(buildCSV([translated], 'Contributor-specific CSV', platform, localization)).toBe(buildCSV([translated], 'Contributor-specific CSV', platform));
+      expect(hasLocalizedColumns('Contributor-specific CSV', platform)).toBe(false);
+    });
+  });
+
+  it("adds them to the simple CSV", () => {
+    expect(buildCSV([translated], 'Simple CSV', 'Adobe Stock', localization).split('\n')[0])
+      .toBe('Filename,Title,Description,Keywords,Title (de),Description (de),Keywords (de)');
+  });
+
+  it("writes them to a file of their own, keeping unknown keywords in English", () => {
+    expect(buildTranslationsCSV([translated, ASSETS[1]], 'Adobe Stock', localization)).toBe([
+      'Filename,Title (de),Description (de),Keywords (de)',
+      '"beach.jpg","Strand bei Sonnenuntergang","Wellen und Sand","Strand, Sonnenuntergang, waves"',
+      '"badge.eps","","","badge, round, emblem"',
+      '"badge.jpg","","","badge, round, emblem"',
+    ].join('\n'));
+  });
+});
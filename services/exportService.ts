@@ -0,0 +1,208 @@
+import { Asset, ExportFormat, Language, Metadata, Platform } from "../types";
+import { getMetadata } from "./metadataService";
+import { getCurrentRevision } from "./revisionService";
+import { submissionNames } from "./vectorService";
+import { embedMetadata, isJpegFile, XmpTranslations } from "./xmpService";
+import { getLocalized, KeywordGlossary, localizeKeywords } from "./translationService";
+import { stripLocationFromJpeg } from "./exifService";
+import { createZip, ZipEntry } from "./zipService";
+
+export interface CsvExporter {
+  headers: string[];
+  delimiter: string;
+  lineBreak: string;
+  // 'always' wraps every cell in quotes, 'minimal' only cells that need it
+  quoting: 'always' | 'minimal';
+  row: (asset: Asset, metadata: Metadata) => string[];
+  // Fields repeated per export language as "Title (de)" style columns. Portals
+  // without them get the translations in a file of their own.
+  localizedFields?: readonly LocalizedField[];
+}
+
+const LOCALIZED_FIELDS = ['title', 'description', 'keywords'] as const;
+
+type LocalizedField = typeof LOCALIZED_FIELDS[number];
+
+const LOCALIZED_LABELS: Record<LocalizedField, string> = { title: 'Title', description: 'Description', keywords: 'Keywords' };
+
+export interface ExportLocalization {
+  languages: Language[];
+  glossary: KeywordGlossary;
+}
+
+const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+
+const releases = (names?: string[]) => (names || []).join(',');
+
+// Clip properties, added to the simple CSV when the export holds videos.
+// Portal CSVs read them from the uploaded file instead.
+const VIDEO_HEADERS = ['Duration', 'Resolution', 'Frame Rate'];
+
+const videoCells = ({ video }: Asset): string[] =>
+  video ? [String(Math.round(video.duration * 100) / 100), `${video.width}x${video.height}`, video.fps ? String(video.fps) : ''] : ['', '', ''];
+
+const SIMPLE_EXPORTER: CsvExporter = {
+  headers: ['Filename', 'Title', 'Description', 'Keywords'],
+  delimiter: ',',
+  lineBreak: '\n',
+  quoting: 'always',
+  row: (a, m) => [a.name, m.title, m.description, m.keywords],
+  localizedFields: LOCALIZED_FIELDS,
+};
+
+export const CONTRIBUTOR_EXPORTERS: Record<Platform, CsvExporter> = {
+  'Shutterstock': {
+    headers: ['Filename', 'Description', 'Keywords', 'Categories', 'Editorial', 'Mature Content', 'Illustration'],
+    delimiter: ',',
+    lineBreak: '\n',
+    quoting: 'always',
+    row: (a, m) => [
+      a.name,
+      m.description,
+      m.keywords,
+      [m.category1, m.category2].filter(Boolean).join(','),
+      yesNo(Boolean(a.editorial)),
+      yesNo(Boolean(a.rights?.mature)),
+      yesNo(a.type === 'Vector'),
+    ],
+  },
+  'Adobe Stock': {
+    headers: ['Filename', 'Title', 'Keywords', 'Category', 'Releases'],
+    delimiter: ',',
+    lineBreak: '\r\n',
+    quoting: 'minimal',
+    row: (a, m) => [a.name, m.title, m.keywords, m.adobeCategory || '', releases([...(a.modelReleases || []), ...(a.propertyReleases || [])])],
+    localizedFields: ['title', 'keywords'],
+  },
+  'Dreamstime': {
+    headers: ['Filename', 'Image Name', 'Description', 'Category 1', 'Category 2', 'Category 3', 'keywords', 'Free', 'W-EL', 'P-EL', 'SR-EL', 'SR-Price', 'Editorial', 'MR doc Ids', 'Pr Docs'],
+    delimiter: ',',
+    lineBreak: '\r\n',
+    quoting: 'always',
+    row: (a, m) => [
+      a.name,
+      m.title,
+      m.description,
+      m.dreamstimeCategory1 || '',
+      m.dreamstimeCategory2 || '',
+      '',
+      m.keywords,
+      '0',
+      // Extended licenses are not sold for editorial content
+      a.editorial ? '0' : '1',
+      a.editorial ? '0' : '1',
+      '0',
+      '0',
+      a.editorial ? '1' : '0',
+      releases(a.modelReleases),
+      releases(a.propertyReleases),
+    ],
+    localizedFields: LOCALIZED_FIELDS,
+  },
+  'Teepublic': {
+    headers: ['Filename', 'Title', 'Description', 'Keywords', 'Main Tag'],
+    delimiter: ',',
+    lineBreak: '\n',
+    quoting: 'always',
+    row: (a, m) => [a.name, m.title, m.description, m.keywords, m.mainTag || ''],
+  },
+};
+
+export const getExporter = (format: ExportFormat, platform: Platform): CsvExporter =>
+  format === 'Simple CSV' ? SIMPLE_EXPORTER : CONTRIBUTOR_EXPORTERS[platform];
+
+const escapeCell = (value: string, exporter: CsvExporter): string => {
+  const s = value || '';
+  const needsQuotes = exporter.quoting === 'always'
+    || s.includes(exporter.delimiter)
+    || s.includes('"')
+    || /[\r\n]/.test(s);
+  return needsQuotes ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const localizedHeaders = (languages: Language[], fields: readonly LocalizedField[]): string[] =>
+  languages.flatMap(l => fields.map(f => `${LOCALIZED_LABELS[f]} (${l})`));
+
+const localizedCells = (asset: Asset, platform: Platform, fields: readonly LocalizedField[], localization?: ExportLocalization): string[] =>
+  (localization?.languages || []).flatMap(language => {
+    const localized = getLocalized(asset, platform, language);
+    return fields.map(field => field === 'keywords'
+      ? localizeKeywords(getMetadata(asset, platform).keywords, language, localization!.glossary).keywords.join(', ')
+      : localized?.[field] || '');
+  });
+
+const joinRows = (exporter: CsvExporter, headers: string[], rows: string[][]): string => [
+  headers.join(exporter.delimiter),
+  ...rows.map(cells => cells.map(cell => escapeCell(cell, exporter)).join(exporter.delimiter)),
+].join(exporter.lineBreak);
+
+// Whether translations go into the CSV itself rather than a separate file
+export const hasLocalizedColumns = (format: ExportFormat, platform: Platform): boolean =>
+  Boolean(getExporter(format, platform).localizedFields);
+
+export const buildCSV = (assets: Asset[], format: ExportFormat, platform: Platform, localization?: ExportLocalization): string => {
+  const exporter = getExporter(format, platform);
+  const withVideo = exporter === SIMPLE_EXPORTER && assets.some(a => a.video);
+  const fields = exporter.localizedFields || [];
+  const languages = fields.length > 0 ? localization?.languages || [] : [];
+  const headers = [...exporter.headers, ...(withVideo ? VIDEO_HEADERS : []), ...localizedHeaders(languages, fields)];
+  // EPS/AI + JPG pairs get one row per submitted file, sharing the same metadata
+  const rows = assets.flatMap(a => submissionNames(a).map(name => [
+    ...exporter.row({ ...a, name }, getMetadata(a, platform)),
+    ...(withVideo ? videoCells(a) : []),
+    ...(languages.length > 0 ? localizedCells(a, platform, fields, localization) : []),
+  ]));
+  return joinRows(exporter, headers, rows);
+};
+
+// The translations for a portal CSV without localized columns, one row per
+// submitted file
+export const buildTranslationsCSV = (assets: Asset[], platform: Platform, localization: ExportLocalization): string => {
+  const rows = assets.flatMap(a => submissionNames(a).map(name => [name, ...localizedCells(a, platform, LOCALIZED_FIELDS, localization)]));
+  return joinRows(SIMPLE_EXPORTER, ['Filename', ...localizedHeaders(localization.languages, LOCALIZED_FIELDS)], rows);
+};
+
+const xmpTranslations = (asset: Asset, platform: Platform, languages: Language[]): XmpTranslations =>
+  Object.fromEntries(languages.flatMap(l => {
+    const localized = getLocalized(asset, platform, l);
+    return localized ? [[l, { title: localized.title || localized.description, description: localized.description }]] : [];
+  }));
+
+export const csvFilename = (format: ExportFormat | 'Translations', platform: Platform): string => {
+  const slug = platform.toLowerCase().replace(' ', '_');
+  const suffix = format === 'Simple CSV' ? '_simple' : format === 'Translations' ? '_translations' : '';
+  return `autometagen_${slug}${suffix}_${new Date().getTime()}.csv`;
+};
+
+// The submitted files with metadata embedded in every JPEG among them.
+// A chosen AI edit goes in place of the original; EPS/AI sources travel
+// untouched beside their tagged preview; files with nothing to tag are left
+// out and reported back by name.
+export const buildTaggedZip = async (assets: Asset[], platform: Platform, languages: Language[] = []): Promise<{ zip: Blob; skipped: string[] }> => {
+  const entries: ZipEntry[] = [];
+  const skipped: string[] = [];
+  for (const asset of assets) {
+    const metadata = getMetadata(asset, platform);
+    // Shutterstock has no title field, so its description doubles as one
+    const embedded = { ...metadata, title: metadata.title || metadata.description };
+    const translations = xmpTranslations(asset, platform, languages);
+    const tag = async (file: Blob) => embedMetadata(asset.stripLocation ? await stripLocationFromJpeg(file) : file, embedded, translations);
+    const revision = getCurrentRevision(asset);
+    if (revision) {
+      entries.push({ name: revision.file.name, data: await tag(revision.file) });
+      continue;
+    }
+    const preview = asset.companionName ? asset.rasterFile : undefined;
+    const taggable = preview || asset.file;
+    if (taggable.size === 0 || !isJpegFile(taggable)) {
+      skipped.push(asset.name);
+      continue;
+    }
+    if (preview) entries.push({ name: asset.name, data: asset.file });
+    entries.push({ name: preview ? asset.companionName! : asset.name, data: await tag(taggable) });
+  }
+  return { zip: await createZip(entries), skipped };
+};
+
+export const zipFilename = (platform: Platform): string =>
+  `autometagen_${platform.toLowerCase().replace(' ', '_')}_tagged_${new Date().getTime()}.zip`;
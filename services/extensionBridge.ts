@@ -0,0 +1,126 @@
+import { Metadata, Platform } from "../types";
+import { FillFlags, FillReport, UploadTile } from "./portalFillers";
+
+export interface PortalPage {
+  tabId: number;
+  url: string;
+  platform: Platform | null;
+  // False until the content script answers, e.g. on a tab opened before install
+  connected: boolean;
+}
+
+const PORTAL_HOSTS: { test: (host: string) => boolean; platform: Platform }[] = [
+  { test: h => h === 'contributor.stock.adobe.com', platform: 'Adobe Stock' },
+  { test: h => h.endsWith('dreamstime.com'), platform: 'Dreamstime' },
+  { test: h => h.endsWith('shutterstock.com'), platform: 'Shutterstock' },
+  { test: h => h.endsWith('teepublic.com'), platform: 'Teepublic' },
+];
+
+// chrome is only defined when the app runs as the extension side panel
+export const isExtensionContext = (): boolean =>
+  typeof chrome !== 'undefined' && Boolean(chrome.tabs?.sendMessage);
+
+const GEMINI_KEY_STORAGE = 'tabo_gemini_key';
+
+let storedGeminiKey: string | undefined;
+
+// The side panel's own key when one is saved, otherwise the key the web app
+// is hosted or built with. Extension builds carry no key of their own.
+export const getGeminiApiKey = (): string | undefined => storedGeminiKey || process.env.API_KEY;
+
+export const loadGeminiKey = async (): Promise<boolean> => {
+  const items = await chrome.storage.local.get(GEMINI_KEY_STORAGE);
+  const key = items[GEMINI_KEY_STORAGE];
+  storedGeminiKey = typeof key === 'string' && key ? key : undefined;
+  return Boolean(storedGeminiKey);
+};
+
+export const saveGeminiKey = async (key: string) => {
+  await chrome.storage.local.set({ [GEMINI_KEY_STORAGE]: key });
+  storedGeminiKey = key;
+};
+
+export const detectPortal = (url: string): Platform | null => {
+  try {
+    const host = new URL(url).hostname;
+    return PORTAL_HOSTS.find(p => p.test(host))?.platform ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const getActiveTab = async (): Promise<{ id: number; url?: string } | null> => {
+  const [tab] = await chrome.tabs.query({ active: true, lastFocusedWindow: true });
+  return tab?.id !== undefined ? { id: tab.id, url: tab.url } : null;
+};
+
+const sendToTab = <T>(tabId: number, message: object): Promise<T> =>
+  new Promise((resolve, reject) => {
+    chrome.tabs.sendMessage(tabId, message, (response?: T & { error?: string }) => {
+      const error = chrome.runtime.lastError;
+      if (error) reject(new Error(error.message || 'The page did not respond. Reload it and try again.'));
+      else if (response?.error) reject(new Error(response.error));
+      else resolve(response as T);
+    });
+  });
+
+export const getActivePortalPage = async (): Promise<PortalPage | null> => {
+  const tab = await getActiveTab();
+  if (!tab) return null;
+  const url = tab.url || '';
+  const fallback: PortalPage = { tabId: tab.id, url, platform: detectPortal(url), connected: false };
+  try {
+    const info = await sendToTab<{ site: Platform | null; url: string }>(tab.id, { action: 'detect_page' });
+    return { tabId: tab.id, url: info.url || url, platform: info.site ?? fallback.platform, connected: true };
+  } catch {
+    return fallback;
+  }
+};
+
+// Calls `onChange` whenever the user switches tabs or the active tab navigates
+export const watchActivePortalPage = (onChange: (page: PortalPage | null) => void): (() => void) => {
+  const refresh = () => getActivePortalPage().then(onChange).catch(() => onChange(null));
+  const handleUpdated = (_tabId: number, info: { status?: string }) => {
+    if (info.status === 'complete') refresh();
+  };
+  chrome.tabs.onActivated.addListener(refresh);
+  chrome.tabs.onUpdated.addListener(handleUpdated);
+  refresh();
+  return () => {
+    chrome.tabs.onActivated.removeListener(refresh);
+    chrome.tabs.onUpdated.removeListener(handleUpdated);
+  };
+};
+
+const fileNameFromUrl = (url: string, type: string): string => {
+  const last = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+  if (/\.(jpe?g|png|webp)$/i.test(last)) return last;
+  return `${last.replace(/\.[^.]+$/, '') || 'portal-image'}.${type.split('/')[1] || 'jpg'}`;
+};
+
+// Downloads the portal's preview of the asset currently open in the tab.
+// The side panel fetches it itself; host permissions cover the portal CDNs.
+export const grabPageImage = async (page: PortalPage): Promise<File> => {
+  const { url } = await sendToTab<{ url: string; site: string }>(page.tabId, { action: 'get_page_image' });
+  const blob = await fetchImage(url);
+  return new File([blob], fileNameFromUrl(url, blob.type), { type: blob.type || 'image/jpeg' });
+};
+
+export const fillPage = async (page: PortalPage, metadata: Metadata, platform: Platform, flags: FillFlags = {}): Promise<FillReport> => {
+  const { report } = await sendToTab<{ success: boolean; report: FillReport }>(page.tabId, { action: 'fill_form', metadata, platform, flags });
+  return report;
+};
+
+export const listUploadTiles = async (page: PortalPage, platform: Platform): Promise<UploadTile[]> => {
+  const { tiles } = await sendToTab<{ tiles: UploadTile[] }>(page.tabId, { action: 'list_tiles', platform });
+  return tiles;
+};
+
+export const selectUploadTile = (page: PortalPage, platform: Platform, index: number): Promise<{ success: boolean }> =>
+  sendToTab(page.tabId, { action: 'select_tile', platform, index });
+
+export const fetchImage = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Image download failed (${response.status})`);
+  return response.blob();
+};
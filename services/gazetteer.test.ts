@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { formatLocation, reverseGeocode } from "./gazetteer";
+
+const place = (latitude: number, longitude: number) => {
+  const location = reverseGeocode({ latitude, longitude });
+  return location && formatLocation(location);
+};
+
+describe("reverseGeocode", () => {
+  it("names a listed city close by", () => {
+    expect(place(46.369, 14.114)).toBe('Bled, Upper Carniola, Slovenia');
+  });
+
+  it.each([
+    ['Kehl', 48.572, 7.815, 'Germany'],
+    ['Windsor', 42.317, -83.036, 'Canada'],
+    ['Luxembourg', 49.611, 6.130, 'Luxembourg'],
+    ['Vaduz', 47.141, 9.521, 'Liechtenstein'],
+    ['Monaco', 43.738, 7.424, 'Monaco'],
+  ])("takes the country of %s from its borders, not from the nearest city", (_, latitude, longitude, country) => {
+    const location = reverseGeocode({ latitude, longitude })!;
+    expect(location.country).toBe(country);
+    expect(formatLocation(location)).toMatch(new RegExp(`${country}$`));
+  });
+
+  it("never names a city across the border", () => {
+    expect(place(48.572, 7.815)).not.toContain('Strasbourg');
+    expect(place(42.317, -83.036)).not.toContain('Detroit');
+  });
+
+  it("counts overseas territories as their own country", () => {
+    expect(place(-17.535, -149.569)).toBe('Papeete, Tahiti, French Polynesia');
+  });
+
+  it("returns null at sea", () => {
+    expect(reverseGeocode({ latitude: 40, longitude: -40 })).toBeNull();
+  });
+});
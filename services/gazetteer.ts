@@ -0,0 +1,63 @@
+import { feature, iso1A2Code } from "@rapideditor/country-coder";
+import { GeoLocation, GpsPosition } from "../types";
+import gazetteer from "../data/cities.json";
+
+// Offline reverse geocoding: the country comes from bundled border polygons,
+// the place from the nearest city in that country out of a list of capitals,
+// major cities and popular stock-shoot spots. A city is only named within
+// CITY_RADIUS_KM and its region within REGION_RADIUS_KM; further out only the
+// country is known.
+const CITY_RADIUS_KM = 30;
+const REGION_RADIUS_KM = 120;
+
+interface City {
+  name: string;
+  region: string;
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+}
+
+// Preferred short names; other countries use the border data's English name
+const COUNTRIES: Record<string, string> = gazetteer.countries;
+const CITIES: City[] = gazetteer.cities;
+
+const EARTH_RADIUS_KM = 6371;
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+export const distanceKm = (a: GpsPosition, b: GpsPosition): number => {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Null out at sea. Territories such as French Polynesia count as their own
+// country, as they do in place names.
+export const reverseGeocode = (position: GpsPosition): GeoLocation | null => {
+  const countryCode = iso1A2Code([position.longitude, position.latitude], { level: 'territory' });
+  if (!countryCode) return null;
+
+  let nearest: City | null = null;
+  let nearestKm = Infinity;
+  for (const city of CITIES) {
+    if (city.countryCode !== countryCode) continue;
+    const km = distanceKm(position, city);
+    if (km < nearestKm) {
+      nearest = city;
+      nearestKm = km;
+    }
+  }
+
+  return {
+    city: nearest && nearestKm <= CITY_RADIUS_KM ? nearest.name : undefined,
+    region: nearest && nearestKm <= REGION_RADIUS_KM && nearest.region !== nearest.name ? nearest.region : undefined,
+    country: COUNTRIES[countryCode] || feature(countryCode)?.properties.nameEn || countryCode,
+    countryCode,
+    distanceKm: nearest ? Math.round(nearestKm) : undefined,
+  };
+};
+
+// "Bled, Upper Carniola, Slovenia"
+export const formatLocation = (location: GeoLocation): string =>
+  [location.city, location.region, location.country].filter(Boolean).join(', ');
@@ -1,7 +1,16 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Asset, Platform, Metadata } from "../types";
-import { SHUTTERSTOCK_CATEGORIES } from "../constants";
+import { GoogleGenAI } from "@google/genai";
+import { Asset, Platform, Metadata, PlatformMetadata, PromptPreset, RightsAssessment, VideoProperties } from "../types";
+import { extractVideoFrames, formatVideoProperties } from "./videoService";
+import { getAnalysisImage } from "./vectorService";
+import { stripLocationFromJpeg } from "./exifService";
+import { MetadataProvider } from "./providers";
+import { getGeminiApiKey } from "./extensionBridge";
+import { parseKeywords, processKeywords, KeywordContext } from "./keywordService";
+import { sanitizeText } from "./validationService";
+import { parseRightsAssessment } from "./rightsService";
+import { BUILT_IN_PRESETS, buildPromptVariables, groupPlatformsByTemplate, promptLimits, renderTemplate } from "./promptTemplateService";
+import { SHUTTERSTOCK_CATEGORIES, ADOBE_STOCK_CATEGORIES, DREAMSTIME_CATEGORIES, PLATFORM_RULES } from "../constants";
 
 const fileToGenerativePart = async (file: File | Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -16,167 +25,201 @@ const fileToGenerativePart = async (file: File | Blob): Promise<string> => {
   });
 };
 
-interface EngineContext {
-  engine: 'gemini' | 'groq';
-  groqKey?: string;
+export interface EngineContext {
+  provider: MetadataProvider;
+  // Aborts the in-flight request when the job queue is cancelled
+  signal?: AbortSignal;
+  preset?: PromptPreset;
+  // Project notes, available to templates as {notes}
+  notes?: string;
 }
 
-// Utility for retrying failed requests (Exponential Backoff)
-const fetchWithRetry = async (fn: () => Promise<any>, retries = 3, delay = 2000): Promise<any> => {
-  try {
-    return await fn();
-  } catch (error: any) {
-    if (retries <= 0) throw error;
-    const isRetryable = error?.message?.includes('429') || error?.message?.includes('500') || error?.message?.includes('503') || error?.status === 429;
-    if (isRetryable) {
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return fetchWithRetry(fn, retries - 1, delay * 2);
-    }
-    throw error;
-  }
+// The rendered template followed by the parts the response parser depends
+// on: per-platform field instructions and the JSON shape.
+export const buildMetadataPrompt = (
+  asset: Asset,
+  platforms: Platform[],
+  template: string,
+  notes?: string,
+  clip?: VideoProperties
+): string => {
+  const isTeepublic = platforms.includes('Teepublic');
+  const isShutterstock = platforms.includes('Shutterstock');
+  const isAdobe = platforms.includes('Adobe Stock');
+  const isDreamstime = platforms.includes('Dreamstime');
+  const { keywordCount } = promptLimits(platforms);
+  const variables = buildPromptVariables(asset, platforms, notes);
+  // Templates that place these themselves don't get them twice
+  const unless = (name: string, line: string) => (variables[name] && !template.includes(`{${name}}`) ? line : '');
+  const settings = [variables['exif.focalLength'], variables['exif.aperture'], variables['exif.shutter'], variables['exif.iso'] && `ISO ${variables['exif.iso']}`].filter(Boolean);
+
+  const context = [
+    asset.companionName ? `- Submitted as ${asset.name} + ${asset.companionName}.` : '',
+    unless('location', `- Approximate location from the camera's GPS (nearest listed place, offline lookup): ${variables.location}. Name the place in the title and keywords only when the scene is consistent with it.`),
+    unless('exif.date', `- Captured on ${variables['exif.date']}; let the season inform the description if it is visible.`),
+    settings.length > 0 ? `- Camera settings: ${settings.join(', ')}. Use them to judge the shot (telephoto, macro, long exposure), not as keywords.` : '',
+    asset.editorial ? '- Licensed as editorial: write the description as a factual caption of who, what and where. Leave out the place and date prefix; it is added afterwards.' : '',
+    clip ? `- Clip: ${formatVideoProperties(clip)}. The attached images are keyframes sampled in order across the clip; describe the footage as a whole, including camera motion implied between frames.` : '',
+  ].filter(Boolean);
+  const fields = [
+    isTeepublic ? '- TEEPUBLIC: Select a single, extremely relevant "Main Tag".' : '',
+    isShutterstock ? `- SHUTTERSTOCK: Select the two most accurate categories from: ${SHUTTERSTOCK_CATEGORIES.join(', ')}.` : '',
+    isAdobe ? `- ADOBE STOCK: Select the single most accurate category ID from: ${ADOBE_STOCK_CATEGORIES.map(c => `${c.id}=${c.name}`).join(', ')}.` : '',
+    isDreamstime ? `- DREAMSTIME: Select the two most accurate category IDs from: ${DREAMSTIME_CATEGORIES.map(c => `${c.id}=${c.name}`).join(', ')}.` : '',
+  ].filter(Boolean);
+
+  return [
+    renderTemplate(template, variables),
+    context.length > 0 ? `ASSET CONTEXT:\n${context.join('\n')}` : '',
+    fields.length > 0 ? `PLATFORM FIELDS:\n${fields.join('\n')}` : '',
+    `RIGHTS CHECK (use empty lists when nothing applies):
+- people: each person recognizable by face or identifying features, briefly described, e.g. "man in blue jacket".
+- logos: visible logos, brand names, trademarks, copyrighted characters or artwork, including any printed on clothing or products.
+- landmarks: buildings, artworks or private property that could need a property release.
+- mature: true for nudity, violence or other adult content.`,
+    `STRICT JSON OUTPUT:
+{
+  "title": "string",
+  "description": "string",
+  "keywords": "k1, k2, ..., k${keywordCount}",
+  "mainTag": "string"${isShutterstock ? ', "category1": "CategoryName", "category2": "CategoryName"' : ''}${isAdobe ? ', "adobeCategory": "ID"' : ''}${isDreamstime ? ', "dreamstimeCategory1": "ID", "dreamstimeCategory2": "ID"' : ''},
+  "rights": { "people": ["string"], "logos": ["string"], "landmarks": ["string"], "mature": false }
+}`,
+  ].filter(Boolean).join('\n\n');
 };
 
+export interface GeneratedMetadata {
+  metadata: PlatformMetadata;
+  rights?: RightsAssessment;
+  // Clip properties, so a measurement made here is kept on the asset
+  video?: VideoProperties;
+}
+
+// Generates metadata for one or more platforms from a single visual analysis:
+// the shared fields come back once and platform-specific fields are requested
+// side by side, then each platform gets its own sanitized copy. Platforms with
+// their own template override get a request of their own.
 export const generateAssetMetadata = async (
   asset: Asset,
-  platform: Platform,
+  platforms: Platform[],
   context: EngineContext
-): Promise<Metadata> => {
-  const isTeepublic = platform === 'Teepublic';
-  const isShutterstock = platform === 'Shutterstock';
-  
-  const prompt = `
-    You are a high-level Stock Media Strategist. Your goal is to generate metadata that is 100% ACCURATE to the visual content provided. 
-    Analyze the actual image data carefully.
-
-    ASSET INFO:
-    - Filename: ${asset.name}
-    - Type: ${asset.type}
-    - Platform: ${platform}
-
-    INSTRUCTIONS:
-    1. VISUAL ANALYSIS: Look at the main subject, subject count, background, lighting, and colors.
-    2. TITLE (Max 120 chars): A literal, descriptive sentence. No fluff.
-    3. DESCRIPTION (Max 200 chars): Detailed scene description.
-    4. KEYWORDS (EXACTLY 49): Specific, non-duplicate, niche keywords.
-    ${isTeepublic ? '5. TEEPUBLIC: Select a single, extremely relevant "Main Tag".' : ''}
-    ${isShutterstock ? `6. SHUTTERSTOCK: Select the two most accurate categories from: ${SHUTTERSTOCK_CATEGORIES.join(', ')}.` : ''}
+): Promise<GeneratedMetadata> => {
+  // Videos are analyzed through a handful of sampled keyframes
+  const videoFrames = asset.type === 'Video' && asset.file.size > 0
+    ? await extractVideoFrames(asset.file, asset.video).catch((e) => {
+        console.error("Frame extraction failed", e);
+        return null;
+      })
+    : null;
+  const analysisImage = asset.type !== 'Video' ? await getAnalysisImage(asset) : null;
+  // Small JPEGs reach the provider byte for byte, EXIF included
+  const sentImage = analysisImage && asset.stripLocation ? await stripLocationFromJpeg(analysisImage) : analysisImage;
+  const images = videoFrames ? videoFrames.frames : sentImage ? [sentImage] : [];
+
+  const preset = context.preset || BUILT_IN_PRESETS[0];
+  const results: GeneratedMetadata = { metadata: {}, video: videoFrames?.properties };
+  for (const group of groupPlatformsByTemplate(preset, platforms)) {
+    const prompt = buildMetadataPrompt(asset, group.platforms, group.template, context.notes, videoFrames?.properties);
+    const generated = await generateForPlatforms(prompt, images, group.platforms, context);
+    Object.assign(results.metadata, generated.metadata);
+    // Every group looks at the same image; the first assessment stands
+    results.rights = results.rights || generated.rights;
+  }
+  return results;
+};
+
+const generateForPlatforms = async (
+  prompt: string,
+  images: Blob[],
+  platforms: Platform[],
+  context: EngineContext
+): Promise<GeneratedMetadata> => {
+  // Retries and rate limiting are owned by the job queue
+  const data = await context.provider.generate({
+    system: 'You are an expert metadata AI. Output raw JSON only.',
+    prompt,
+    images,
+    signal: context.signal,
+  });
+
+  const keywordContext: KeywordContext = { title: String(data.title ?? ''), description: String(data.description ?? '') };
+  let keywords = parseKeywords(String(data.keywords ?? ''));
+  const shortfall = Math.max(...platforms.map(p => PLATFORM_RULES[p].keywords.target - processKeywords(keywords, p, keywordContext).length));
+  if (shortfall > 0 && keywords.length > 0) {
+    const extra = await requestMoreKeywords(keywords, shortfall, keywordContext, context).catch((e) => {
+      console.error("Keyword follow-up failed", e);
+      return [];
+    });
+    keywords = [...keywords, ...extra];
+  }
+
+  return {
+    metadata: Object.fromEntries(platforms.map(p => [p, sanitizeMetadata(data, p, processKeywords(keywords, p, keywordContext))])),
+    rights: parseRightsAssessment(data.rights),
+  };
+};
+
+// Cleaning drops duplicates, brands and filler, so a short list is topped up
+// with a cheap text-only request instead of being padded.
+const requestMoreKeywords = async (
+  existing: string[],
+  count: number,
+  keywordContext: KeywordContext,
+  context: EngineContext
+): Promise<string[]> => {
+  const data = await context.provider.generate({
+    system: 'You are an expert metadata AI. Output raw JSON only.',
+    prompt: `
+    A stock asset is titled "${keywordContext.title}" and described as "${keywordContext.description}".
+    It already has these keywords: ${existing.join(', ')}.
+    Suggest ${count + 10} MORE specific, relevant keywords that are not in the list and are not plurals or variants of listed ones.
+    No brand names, no generic words like "stock", "photo" or "image".
 
     STRICT JSON OUTPUT:
-    { 
-      "title": "string", 
-      "description": "string", 
-      "keywords": "k1, k2, ..., k49", 
-      "mainTag": "string"${isShutterstock ? ', "category1": "CategoryName", "category2": "CategoryName"' : ''} 
-    }
-  `;
-
-  return fetchWithRetry(async () => {
-    if (context.engine === 'groq') {
-      if (!context.groqKey) throw new Error("Groq API Key missing");
-      
-      const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${context.groqKey}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: 'llama-3.3-70b-versatile',
-          messages: [
-            { role: 'system', content: 'You are an expert metadata AI. Output raw JSON only.' },
-            { role: 'user', content: prompt }
-          ],
-          response_format: { type: 'json_object' }
-        })
-      });
-
-      if (!response.ok) {
-        const err = await response.json();
-        throw new Error(err.error?.message || `Groq API Error ${response.status}`);
-      }
-
-      const json = await response.json();
-      const data = JSON.parse(json.choices[0].message.content);
-      return sanitizeMetadata(data, platform);
-
-    } else {
-      // CRITICAL: Always create new instance to use most up-to-date API key
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const responseSchema = {
-        type: Type.OBJECT,
-        properties: {
-          title: { type: Type.STRING },
-          description: { type: Type.STRING },
-          keywords: { type: Type.STRING },
-          mainTag: { type: Type.STRING },
-          category1: { type: Type.STRING },
-          category2: { type: Type.STRING },
-        },
-        required: ["title", "description", "keywords"],
-      };
-
-      const parts: any[] = [{ text: prompt }];
-
-      if (asset.type !== 'Video' && asset.file.type.startsWith('image/')) {
-        const base64Data = await fileToGenerativePart(asset.file);
-        parts.push({
-          inlineData: {
-            mimeType: asset.file.type,
-            data: base64Data
-          }
-        });
-      }
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: { parts },
-        config: {
-          responseMimeType: "application/json",
-          responseSchema: responseSchema,
-          temperature: 0.1,
-        },
-      });
-
-      const data = JSON.parse(response.text || "{}");
-      return sanitizeMetadata(data, platform);
-    }
+    { "keywords": "k1, k2, ..." }
+  `,
+    images: [],
+    signal: context.signal,
+    response: 'keywords',
   });
+  return parseKeywords(String(data.keywords ?? ''));
 };
 
-const sanitizeMetadata = (data: any, platform: Platform): Metadata => {
+const pickCategoryId = (value: unknown, options: { id: string }[], fallback: string): string => {
+  const id = String(value ?? '').trim();
+  return options.some(c => c.id === id) ? id : fallback;
+};
+
+const sanitizeMetadata = (data: any, platform: Platform, kw: string[]): Metadata => {
   const isTeepublic = platform === 'Teepublic';
   const isShutterstock = platform === 'Shutterstock';
-  
-  let kw = (data.keywords || "").split(',').map((s: string) => s.trim().toLowerCase()).filter(Boolean);
-  
-  if (kw.length > 49) {
-    kw = kw.slice(0, 49);
-  } else if (kw.length < 49 && kw.length > 0) {
-    const originalCount = kw.length;
-    for (let i = 0; kw.length < 49; i++) {
-      kw.push(`${kw[i % originalCount]} concept`);
-    }
-  }
-  
+  const isAdobe = platform === 'Adobe Stock';
+  const isDreamstime = platform === 'Dreamstime';
+
   return {
-    title: (data.title || "Untitled Stock Asset").substring(0, 120),
-    description: (data.description || "High quality commercial stock asset.").substring(0, 200),
+    title: sanitizeText(data.title || "Untitled Stock Asset", 'title', platform),
+    description: sanitizeText(data.description || "High quality commercial stock asset.", 'description', platform),
     keywords: kw.join(', '),
     mainTag: isTeepublic ? (data.mainTag || kw[0] || "graphic") : (data.mainTag || kw[0] || ""),
     category1: isShutterstock ? (SHUTTERSTOCK_CATEGORIES.includes(data.category1) ? data.category1 : SHUTTERSTOCK_CATEGORIES[0]) : undefined,
     category2: isShutterstock ? (SHUTTERSTOCK_CATEGORIES.includes(data.category2) ? data.category2 : SHUTTERSTOCK_CATEGORIES[1]) : undefined,
+    adobeCategory: isAdobe ? pickCategoryId(data.adobeCategory, ADOBE_STOCK_CATEGORIES, '') : undefined,
+    dreamstimeCategory1: isDreamstime ? pickCategoryId(data.dreamstimeCategory1, DREAMSTIME_CATEGORIES, '') : undefined,
+    dreamstimeCategory2: isDreamstime ? pickCategoryId(data.dreamstimeCategory2, DREAMSTIME_CATEGORIES, '') : undefined,
   };
 };
 
-export const editImageAsset = async (asset: Asset, editPrompt: string): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const base64Data = await fileToGenerativePart(asset.file);
+export const editImageAsset = async (asset: Asset, editPrompt: string): Promise<Blob> => {
+  const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
+  // Edits chain: the current revision, if any, is what gets edited
+  const source = (await getAnalysisImage(asset)) || asset.file;
+  const base64Data = await fileToGenerativePart(source);
   
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash-image',
     contents: {
       parts: [
-        { inlineData: { data: base64Data, mimeType: asset.file.type } },
+        { inlineData: { data: base64Data, mimeType: source.type } },
         { text: editPrompt }
       ]
     }
@@ -184,7 +227,8 @@ export const editImageAsset = async (asset: Asset, editPrompt: string): Promise<
 
   for (const part of response.candidates[0].content.parts) {
     if (part.inlineData) {
-      return `data:image/png;base64,${part.inlineData.data}`;
+      const bytes = Uint8Array.from(atob(part.inlineData.data), c => c.charCodeAt(0));
+      return new Blob([bytes], { type: part.inlineData.mimeType || 'image/png' });
     }
   }
   throw new Error("No image data returned from AI editor");
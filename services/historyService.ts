@@ -0,0 +1,157 @@
+import { Asset, AssetStatus, MetadataVersion, PromptUsage, VersionSource } from "../types";
+import { MAX_ASSET_VERSIONS, MAX_UNDO_ENTRIES } from "../constants";
+
+// --- Undo/redo ---
+
+export type AssetSnapshot = Pick<Asset, 'metadata' | 'localized' | 'editorial' | 'rights' | 'modelReleases' | 'propertyReleases' | 'ipOverrides' | 'stripLocation' | 'status' | 'error' | 'previewUrl' | 'currentRevisionId'>;
+
+// Compared by reference to tell whether an asset changed in an undoable way
+const UNDOABLE_FIELDS = ['metadata', 'localized', 'editorial', 'rights', 'modelReleases', 'propertyReleases', 'ipOverrides', 'stripLocation', 'previewUrl', 'currentRevisionId'] as const;
+
+export interface UndoEntry {
+  label: string;
+  at: number;
+  before: Record<string, AssetSnapshot>;
+  after: Record<string, AssetSnapshot>;
+  // Consecutive keystrokes in one field share a key and collapse into one entry
+  coalesceKey?: string;
+}
+
+export interface ChangeLabel {
+  label: string;
+  coalesceKey?: string;
+}
+
+const COALESCE_WINDOW_MS = 1500;
+
+// A job caught mid-flight comes back settled rather than spinning forever
+const settledStatus = (asset: Asset): AssetStatus =>
+  asset.status !== 'pending' ? asset.status : Object.keys(asset.metadata).length > 0 ? 'success' : 'idle';
+
+const snapshot = (asset: Asset): AssetSnapshot => ({
+  metadata: asset.metadata,
+  localized: asset.localized,
+  editorial: asset.editorial,
+  rights: asset.rights,
+  modelReleases: asset.modelReleases,
+  propertyReleases: asset.propertyReleases,
+  ipOverrides: asset.ipOverrides,
+  stripLocation: asset.stripLocation,
+  status: settledStatus(asset),
+  error: asset.error,
+  previewUrl: asset.previewUrl,
+  currentRevisionId: asset.currentRevisionId,
+});
+
+// Only metadata, translation, license, rights, release, trademark override,
+// location, preview and current-revision changes are undoable; status flips,
+// probes and fingerprints are not. Assets added or removed in between are ignored.
+export const diffAssets = (previous: Asset[], next: Asset[], label: ChangeLabel | null): UndoEntry | null => {
+  const byId = new Map(previous.map(a => [a.id, a]));
+  const before: Record<string, AssetSnapshot> = {};
+  const after: Record<string, AssetSnapshot> = {};
+  const changed: Asset[] = [];
+
+  next.forEach(asset => {
+    const old = byId.get(asset.id);
+    if (!old || UNDOABLE_FIELDS.every(field => old[field] === asset[field])) return;
+    before[asset.id] = snapshot(old);
+    after[asset.id] = snapshot(asset);
+    changed.push(asset);
+  });
+  if (changed.length === 0) return null;
+
+  const generated = changed.every(a => byId.get(a.id)!.status === 'pending');
+  const fallback = changed.length === 1
+    ? `${generated ? 'Generate' : 'Edit'} ${changed[0].name}`
+    : `${generated ? 'Generate' : 'Edit'} ${changed.length} assets`;
+  return { label: label?.label || fallback, at: Date.now(), before, after, coalesceKey: label?.coalesceKey };
+};
+
+export const pushUndoEntry = (stack: UndoEntry[], entry: UndoEntry): UndoEntry[] => {
+  const top = stack[stack.length - 1];
+  if (top && entry.coalesceKey && top.coalesceKey === entry.coalesceKey && entry.at - top.at < COALESCE_WINDOW_MS) {
+    return [...stack.slice(0, -1), { ...entry, before: top.before }];
+  }
+  return [...stack, entry].slice(-MAX_UNDO_ENTRIES);
+};
+
+export const applySnapshots = (assets: Asset[], snapshots: Record<string, AssetSnapshot>): Asset[] =>
+  assets.map(a => snapshots[a.id] ? { ...a, ...snapshots[a.id] } : a);
+
+// --- Per-asset versions ---
+
+const MANUAL_VERSION_WINDOW_MS = 60 * 1000;
+
+const hasAnyMetadata = (asset: Asset) => Object.keys(asset.metadata).length > 0;
+
+// Records `next`'s metadata as a new version of the asset. Manual edits made
+// within a minute of each other count as one version.
+export const withVersion = (previous: Asset, next: Asset, source: VersionSource, engine?: string, prompt?: PromptUsage): Asset => {
+  const now = Date.now();
+  // Metadata from before history existed is kept as the starting point
+  const versions: MetadataVersion[] = previous.versions
+    || (hasAnyMetadata(previous) ? [{ id: crypto.randomUUID(), at: now, source: 'original', metadata: previous.metadata }] : []);
+  const last = versions[versions.length - 1];
+  const version: MetadataVersion = { id: crypto.randomUUID(), at: now, source, engine, prompt, metadata: next.metadata };
+
+  const updated = source === 'manual' && last?.source === 'manual' && now - last.at < MANUAL_VERSION_WINDOW_MS
+    ? [...versions.slice(0, -1), { ...last, at: now, metadata: next.metadata }]
+    : [...versions, version];
+  return { ...next, versions: updated.slice(-MAX_ASSET_VERSIONS) };
+};
+
+// --- Diffing ---
+
+export interface DiffPart {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+// Word-level LCS diff; whitespace stays attached to the word before it
+export const diffWords = (a: string, b: string): DiffPart[] => {
+  const left = a.match(/\S+\s*/g) || [];
+  const right = b.match(/\S+\s*/g) || [];
+  const lengths = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i][j] = left[i].trim() === right[j].trim() ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i].trim() === right[j].trim()) {
+      push(right[j], 'same');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(left[i++], 'removed');
+    } else {
+      push(right[j++], 'added');
+    }
+  }
+  left.slice(i).forEach(w => push(w, 'removed'));
+  right.slice(j).forEach(w => push(w, 'added'));
+  return parts;
+};
+
+export const diffKeywords = (a: string, b: string): { added: string[]; removed: string[]; kept: string[] } => {
+  const split = (value: string) => value.split(',').map(k => k.trim()).filter(Boolean);
+  const left = split(a);
+  const right = split(b);
+  const leftKeys = new Set(left.map(k => k.toLowerCase()));
+  const rightKeys = new Set(right.map(k => k.toLowerCase()));
+  return {
+    added: right.filter(k => !leftKeys.has(k.toLowerCase())),
+    removed: left.filter(k => !rightKeys.has(k.toLowerCase())),
+    kept: right.filter(k => leftKeys.has(k.toLowerCase())),
+  };
+};
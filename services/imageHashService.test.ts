@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { computeContentDigest } from "./imageHashService";
+
+const CHUNK = 8 * 1024 * 1024;
+
+describe("computeContentDigest", () => {
+  it("gives identical files the same digest", async () => {
+    const bytes = new TextEncoder().encode('the same bytes');
+    expect(await computeContentDigest(new Blob([bytes]))).toBe(await computeContentDigest(new Blob([bytes])));
+  });
+
+  it("tells apart large files that differ only in the middle", async () => {
+    const a = new Uint8Array(CHUNK * 2 + 10);
+    const b = a.slice();
+    b[CHUNK + 5] = 1;
+    expect(await computeContentDigest(new Blob([a]))).not.toBe(await computeContentDigest(new Blob([b])));
+  });
+
+  it("hashes empty files", async () => {
+    expect(await computeContentDigest(new Blob([]))).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,97 @@
+// Perceptual hashes survive the resizing and recompression portals apply to
+// previews, so a thumbnail can be matched back to the original upload.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+const toGrayscale = async (image: Blob, width: number, height: number): Promise<number[]> => {
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const gray: number[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    gray.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+  }
+  return gray;
+};
+
+const bitsToHex = (bits: boolean[]): string => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)).toString(16);
+  }
+  return hex;
+};
+
+// Difference hash: 64 bits, one per horizontally adjacent pixel pair
+export const computeDHash = async (image: Blob): Promise<string> => {
+  const gray = await toGrayscale(image, HASH_WIDTH, HASH_HEIGHT);
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      bits.push(gray[y * HASH_WIDTH + x] < gray[y * HASH_WIDTH + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const DCT_SIZE = 32;
+const DCT_KEEP = 8;
+
+// Precomputed DCT-II basis for one 32-sample row or column
+const DCT_COSINES: number[][] = Array.from({ length: DCT_KEEP }, (_, k) =>
+  Array.from({ length: DCT_SIZE }, (_, n) => Math.cos(((2 * n + 1) * k * Math.PI) / (2 * DCT_SIZE)))
+);
+
+// Perceptual hash: the low-frequency 8x8 corner of a 32x32 DCT compared to
+// its median. More tolerant of crops and colour shifts than dHash.
+export const computePHash = async (image: Blob): Promise<string> => {
+  const gray = await toGrayscale(image, DCT_SIZE, DCT_SIZE);
+  const rows = Array.from({ length: DCT_SIZE }, (_, y) =>
+    DCT_COSINES.map(basis => basis.reduce((sum, c, x) => sum + c * gray[y * DCT_SIZE + x], 0))
+  );
+  const coefficients: number[] = [];
+  for (let v = 0; v < DCT_KEEP; v++) {
+    for (let u = 0; u < DCT_KEEP; u++) {
+      coefficients.push(DCT_COSINES[v].reduce((sum, c, y) => sum + c * rows[y][u], 0));
+    }
+  }
+  // The DC term is overall brightness and says nothing about structure
+  const ac = coefficients.slice(1);
+  const median = [...ac].sort((a, b) => a - b)[Math.floor(ac.length / 2)];
+  return bitsToHex(coefficients.map((c, i) => i > 0 && c > median));
+};
+
+const DIGEST_CHUNK = 8 * 1024 * 1024;
+
+const sha256 = (data: BufferSource): Promise<ArrayBuffer> => crypto.subtle.digest('SHA-256', data);
+
+// SHA-256 of the SHA-256s of every 8 MB chunk, so multi-gigabyte clips are
+// hashed in full without ever being read into memory at once
+export const computeContentDigest = async (file: Blob): Promise<string> => {
+  const chunks: ArrayBuffer[] = [];
+  for (let offset = 0; offset < file.size || offset === 0; offset += DIGEST_CHUNK) {
+    chunks.push(await sha256(await file.slice(offset, offset + DIGEST_CHUNK).arrayBuffer()));
+  }
+  const digest = await sha256(await new Blob(chunks).arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
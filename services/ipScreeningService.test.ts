@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { Asset, Metadata, Platform } from "../types";
+import { isBlocking, screenAsset, toggleOverride } from "./ipScreeningService";
+
+const asset = (metadata: Partial<Metadata>, fields: Partial<Asset> = {}): Asset => ({
+  id: 'a',
+  file: new File([], 'a.jpg'),
+  name: 'a.jpg',
+  type: 'Photo',
+  status: 'success',
+  metadata: { Shutterstock: { title: '', description: '', keywords: '', ...metadata } },
+  ...fields,
+} as Asset);
+
+const screen = (metadata: Partial<Metadata>, platform: Platform = 'Shutterstock') => screenAsset(asset(metadata), platform);
+
+describe("screenAsset", () => {
+  it("matches a listed name exactly, however it is spelled out", () => {
+    expect(screen({ title: 'Spider Man mask' })).toMatchObject([{ term: 'spider-man', category: 'character', field: 'title', exact: true }]);
+    expect(screen({ keywords: 'shoes, Coca-Cola' })).toMatchObject([{ term: 'coca cola', field: 'keywords', exact: true }]);
+  });
+
+  it("matches plurals as exact", () => {
+    expect(screen({ keywords: 'pokemons' })).toMatchObject([{ term: 'pokemon', exact: true }]);
+    expect(screen({ keywords: 'minions' })).toMatchObject([{ term: 'minion', exact: true, common: true }]);
+  });
+
+  it("flags typos as near misses", () => {
+    expect(screen({ title: 'Pickachu plush' })).toMatchObject([{ term: 'pikachu', found: 'pickachu', exact: false }]);
+  });
+
+  it("leaves ordinary words a typo away from a name alone", () => {
+    expect(screen({ keywords: 'tv channel, samba dancers, gender roles, role model' })).toEqual([]);
+  });
+
+  it("only warns about names that are also everyday words", () => {
+    const matches = screenAsset(asset({ title: 'Goofy dog', keywords: 'hulk, grinch, olympic, olympics' }), 'Shutterstock');
+    expect(matches.map(m => m.term).sort()).toEqual(['goofy', 'grinch', 'hulk', 'olympic']);
+    expect(matches.every(m => m.common)).toBe(true);
+    expect(matches.some(m => isBlocking(asset({}), 'Shutterstock', m))).toBe(false);
+  });
+});
+
+describe("isBlocking", () => {
+  const nike = asset({ keywords: 'nike' });
+  const [match] = screenAsset(nike, 'Shutterstock');
+
+  it("blocks exact matches of unambiguous names", () => {
+    expect(isBlocking(nike, 'Shutterstock', match)).toBe(true);
+  });
+
+  it("lets an override through", () => {
+    expect(isBlocking(toggleOverride(nike, 'nike'), 'Shutterstock', match)).toBe(false);
+    expect(isBlocking(toggleOverride(toggleOverride(nike, 'nike'), 'nike'), 'Shutterstock', match)).toBe(true);
+  });
+
+  it("allows names in editorial stock but never on print-on-demand", () => {
+    const editorial = { ...nike, editorial: true };
+    expect(isBlocking(editorial, 'Shutterstock', match)).toBe(false);
+    expect(isBlocking(editorial, 'Teepublic', match)).toBe(true);
+  });
+});
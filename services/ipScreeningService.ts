@@ -0,0 +1,189 @@
+import { Asset, IpCategory, Metadata, Platform } from "../types";
+import { TRADEMARK_TERMS } from "../constants";
+import { getMetadata } from "./metadataService";
+
+// Names that get submissions rejected or designs taken down. Add new names to
+// the matching list in lower case and singular (plurals match too); spacing,
+// hyphens and accents don't matter.
+const BLOCKLIST: Record<Exclude<IpCategory, 'logo'>, string[]> = {
+  brand: [
+    ...TRADEMARK_TERMS,
+    'apple', 'amazon', 'windows', 'puma', 'android', 'mercedes', 'marvel',
+    'rolex', 'louis vuitton', 'chanel', 'prada', 'versace', 'hermes', 'burberry', 'dior', 'fendi', 'balenciaga',
+    'ray-ban', 'harley-davidson', 'porsche', 'lamborghini', 'audi', 'volkswagen', 'toyota', 'honda', 'chevrolet',
+    'ikea', 'red bull', 'budweiser', 'heineken', 'nutella', 'oreo', 'kitkat', 'burger king', 'kfc', 'netflix',
+    'spotify', 'snapchat', 'whatsapp', 'linkedin', 'pinterest', 'uber', 'airbnb', 'mastercard', 'paypal',
+    'nfl', 'nba', 'fifa', 'olympic', 'the north face', 'levis', 'gopro', 'nvidia', 'playmobil',
+    'hot wheels', 'nerf', 'play-doh', 'rubiks cube',
+  ],
+  character: [
+    'mickey mouse', 'minnie mouse', 'donald duck', 'goofy', 'winnie the pooh', 'spider-man', 'batman', 'superman',
+    'wonder woman', 'captain america', 'hulk', 'deadpool', 'harley quinn', 'darth vader', 'yoda', 'grogu',
+    'stormtrooper', 'mandalorian', 'pikachu', 'pokemon', 'charizard', 'super mario', 'luigi', 'sonic the hedgehog',
+    'pac-man', 'minecraft', 'fortnite', 'hello kitty', 'snoopy', 'garfield', 'scooby-doo', 'shrek', 'simba',
+    'buzz lightyear', 'harry potter', 'hogwarts', 'gandalf', 'bugs bunny', 'spongebob', 'peppa pig', 'paw patrol',
+    'bluey', 'optimus prime', 'godzilla', 'totoro', 'naruto', 'dragon ball', 'sailor moon', 'groot', 'grinch',
+    'smurf', 'ninja turtles', 'rick and morty', 'simpsons', 'squid game', 'stranger things', 'game of thrones',
+    'lord of the rings', 'care bears', 'my little pony', 'tinkerbell', 'mario', 'joker', 'thor', 'elsa', 'olaf',
+    'minion', 'iron man',
+  ],
+  celebrity: [
+    'taylor swift', 'beyonce', 'rihanna', 'kanye west', 'elon musk', 'donald trump', 'joe biden', 'barack obama',
+    'kim kardashian', 'lady gaga', 'ariana grande', 'justin bieber', 'billie eilish', 'ed sheeran', 'harry styles',
+    'bad bunny', 'blackpink', 'michael jackson', 'elvis presley', 'marilyn monroe', 'albert einstein', 'frida kahlo',
+    'bob marley', 'kurt cobain', 'freddie mercury', 'david bowie', 'john lennon', 'the beatles', 'lionel messi',
+    'cristiano ronaldo', 'michael jordan', 'lebron james', 'serena williams', 'tom brady', 'keanu reeves',
+    'leonardo dicaprio', 'brad pitt', 'angelina jolie', 'tom cruise', 'dwayne johnson', 'oprah winfrey', 'zendaya',
+    'snoop dogg', 'eminem', 'audrey hepburn', 'bruce lee', 'princess diana', 'queen elizabeth', 'pope francis',
+    'bts', 'drake', 'madonna',
+  ],
+};
+
+// Names that are also everyday words. They only warn, and only on an exact match.
+// Too generic to list at all: shell, target, dove, jaguar, subway and the like.
+const COMMON_WORD_TERMS = new Set([
+  'apple', 'amazon', 'windows', 'puma', 'mercedes', 'android', 'marvel', 'hermes', 'mario', 'joker', 'thor', 'elsa', 'olaf',
+  'minion', 'iron man', 'drake', 'madonna', 'smurf', 'olympic', 'goofy', 'hulk', 'grinch',
+]);
+
+// Ordinary words one typo away from a listed name
+const FUZZY_EXCEPTIONS = new Set([
+  'goggle', 'goggles', 'boatman', 'marble', 'honey', 'channel', 'channels', 'samba', 'role', 'roles',
+]);
+
+export interface IpMatch {
+  term: string;
+  category: IpCategory;
+  field: keyof Metadata | 'rights';
+  // The text that matched, as normalized for comparison
+  found: string;
+  exact: boolean;
+  common: boolean;
+}
+
+const LEET: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+// Lower case without accents or punctuation. Digits inside words ("p0kemon")
+// are read as the letters they stand in for.
+const normalize = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/\s+/)
+    .map(word => (/[a-z]/.test(word) ? word.replace(/[0-9@$]/g, c => LEET[c] || c) : word))
+    .join(' ')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+const compact = (words: string[]) => words.join('');
+
+// Damerau-Levenshtein (optimal string alignment) distance, giving up past `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before = new Array<number>(b.length + 1).fill(0);
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  let current = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) current[j] = Math.min(current[j], before[j - 2] + 1);
+      best = Math.min(best, current[j]);
+    }
+    if (best > max) return max + 1;
+    [before, previous, current] = [previous, current, before];
+  }
+  return previous[b.length];
+};
+
+// Longer names tolerate more typos; short ones must match exactly
+const allowedTypos = (length: number) => (length >= 9 ? 2 : length >= 5 ? 1 : 0);
+
+// Cheap pre-check before the edit distance: typos seldom hit both of the
+// first two letters
+const couldBeTypo = (candidate: string, key: string) => candidate[0] === key[0] || candidate[1] === key[1];
+
+interface Entry {
+  term: string;
+  category: IpCategory;
+  key: string; // compact normalized form
+  words: number;
+  common: boolean;
+}
+
+// Spellings of one name ("coca cola", "coca-cola") share an entry, which is
+// common when any of them is
+const ENTRIES: Entry[] = Array.from((Object.keys(BLOCKLIST) as (keyof typeof BLOCKLIST)[]).reduce((byKey, category) => {
+  BLOCKLIST[category].forEach(term => {
+    const words = normalize(term);
+    const key = compact(words);
+    const common = COMMON_WORD_TERMS.has(term);
+    const existing = byKey.get(key);
+    if (existing) existing.common = existing.common || common;
+    else byKey.set(key, { term, category, key, words: words.length, common });
+  });
+  return byKey;
+}, new Map<string, Entry>()).values());
+
+// Keywords are screened one by one so a match never spans two of them
+const segments = (metadata: Metadata): { field: keyof Metadata; words: string[] }[] => [
+  { field: 'title', words: normalize(metadata.title) },
+  { field: 'description', words: normalize(metadata.description) },
+  ...metadata.keywords.split(',').map(k => ({ field: 'keywords' as const, words: normalize(k) })),
+  { field: 'mainTag', words: normalize(metadata.mainTag || '') },
+];
+
+// Entries by key length, so each piece of text is only compared with names
+// it could be a typo of
+const BY_LENGTH = new Map<number, Entry[]>();
+ENTRIES.forEach(entry => BY_LENGTH.set(entry.key.length, [...(BY_LENGTH.get(entry.key.length) || []), entry]));
+
+const MAX_WINDOW = Math.max(...ENTRIES.map(e => e.words)) + 1;
+
+const screenWords = (words: string[], field: keyof Metadata, matches: Map<string, IpMatch>) => {
+  for (let size = 1; size <= Math.min(MAX_WINDOW, words.length); size++) {
+    for (let start = 0; start + size <= words.length; start++) {
+      const candidate = compact(words.slice(start, start + size));
+      for (let length = candidate.length - 2; length <= candidate.length + 2; length++) {
+        (BY_LENGTH.get(length) || []).forEach(entry => {
+          // One word more or fewer than the name catches "spiderman" and "coca cola" alike
+          if (Math.abs(size - entry.words) > 1) return;
+          // A near miss can still be upgraded by an exact match later on
+          const previous = matches.get(entry.term);
+          if (previous?.exact) return;
+          const exact = candidate === entry.key || candidate === `${entry.key}s` || `${candidate}s` === entry.key;
+          const typos = previous || entry.common || FUZZY_EXCEPTIONS.has(candidate) ? 0 : allowedTypos(entry.key.length);
+          if (!exact && (typos === 0 || !couldBeTypo(candidate, entry.key) || editDistance(candidate, entry.key, typos) > typos)) return;
+          matches.set(entry.term, { term: entry.term, category: entry.category, field, found: words.slice(start, start + size).join(' '), exact, common: entry.common });
+        });
+      }
+    }
+  }
+};
+
+// Blocklisted names in the title, description, keywords and main tag, plus
+// the logos the vision model saw. Each name is reported once, for the first
+// field it turns up in.
+export const screenAsset = (asset: Asset, platform: Platform): IpMatch[] => {
+  const matches = new Map<string, IpMatch>();
+  segments(getMetadata(asset, platform)).forEach(({ field, words }) => screenWords(words, field, matches));
+  (asset.rights?.logos || []).forEach(logo => {
+    if (!matches.has(logo)) matches.set(logo, { term: logo, category: 'logo', field: 'rights', found: logo, exact: true, common: false });
+  });
+  return [...matches.values()];
+};
+
+export const isOverridden = (asset: Asset, match: IpMatch): boolean => Boolean(asset.ipOverrides?.includes(match.term));
+
+// Editorial stock may name brands and people; print-on-demand designs never can
+export const isBlocking = (asset: Asset, platform: Platform, match: IpMatch): boolean =>
+  match.exact && !match.common && !isOverridden(asset, match) && !(asset.editorial && platform !== 'Teepublic');
+
+export const toggleOverride = (asset: Asset, term: string): Asset => {
+  const overrides = asset.ipOverrides || [];
+  const next = overrides.includes(term) ? overrides.filter(t => t !== term) : [...overrides, term];
+  return { ...asset, ipOverrides: next.length > 0 ? next : undefined };
+};
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ProviderLimits } from "../types";
+import { ProviderError } from "./providers";
+import { createJobQueue, JobQueueOptions, QueueSnapshot } from "./jobQueue";
+
+const setup = (limits: ProviderLimits, run: JobQueueOptions['run']) => {
+  const snapshots: QueueSnapshot[] = [];
+  const queue = createJobQueue({
+    maxRetries: 2,
+    getLimits: () => limits,
+    estimateTokens: () => 100,
+    run,
+    onRetry: () => {},
+    onFailed: () => {},
+    onChange: snapshot => snapshots.push(snapshot),
+  });
+  return { queue, snapshots };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("acquire", () => {
+  it("counts every request of a job against the requests-per-minute budget", async () => {
+    const started: number[] = [];
+    const { queue } = setup({ concurrency: 1, requestsPerMinute: 2 }, async (_id, signal) => {
+      // A generation followed by a keyword top-up
+      await queue.acquire(100, signal);
+      started.push(Date.now());
+      await queue.acquire(100, signal);
+      started.push(Date.now());
+    });
+    queue.enqueue(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(started).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(31_000);
+    expect(started).toHaveLength(4);
+  });
+
+  it("waits out a cooldown", async () => {
+    let calls = 0;
+    const { queue } = setup({ concurrency: 1 }, async (_id, signal) => {
+      await queue.acquire(100, signal);
+      if (++calls === 1) throw new ProviderError('Rate limited', 429, 10_000);
+    });
+    queue.enqueue(['a']);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(9_000);
+    expect(calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(1_100);
+    expect(calls).toBe(2);
+  });
+
+  it("gives up when the job is cancelled", async () => {
+    const { queue } = setup({ concurrency: 1, requestsPerMinute: 1 }, async () => {});
+    await queue.acquire(100);
+    const controller = new AbortController();
+    const waiting = queue.acquire(100, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow('Aborted');
+  });
+});
+
+describe("resume", () => {
+  it("reports the state when resumed during a cooldown", async () => {
+    const { queue, snapshots } = setup({ concurrency: 1 }, async () => {
+      throw new ProviderError('Rate limited', 429, 10_000);
+    });
+    queue.enqueue(['a', 'b']);
+    await vi.advanceTimersByTimeAsync(0);
+    queue.pause();
+    const before = snapshots.length;
+    queue.resume();
+    expect(snapshots.length).toBeGreaterThan(before);
+    expect(snapshots[snapshots.length - 1]).toMatchObject({ state: 'running', queued: 2 });
+    expect(snapshots[snapshots.length - 1].cooldownUntil).not.toBeNull();
+    queue.cancelAll();
+  });
+});
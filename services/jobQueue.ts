@@ -0,0 +1,254 @@
+import { ProviderLimits } from "../types";
+import { errorMessage, errorStatus, ProviderError } from "./providers";
+
+const WINDOW_MS = 60_000;
+const BASE_RETRY_DELAY = 2000;
+
+export type QueueState = 'idle' | 'running' | 'paused';
+
+export interface QueueSnapshot {
+  state: QueueState;
+  total: number;
+  completed: number;
+  failed: number;
+  active: number;
+  queued: number;
+  etaMs: number | null;
+  // Set while the whole queue waits out a rate limit
+  cooldownUntil: number | null;
+}
+
+export interface JobQueueOptions {
+  maxRetries: number;
+  getLimits: () => ProviderLimits;
+  estimateTokens: (id: string) => number;
+  run: (id: string, signal: AbortSignal) => Promise<void>;
+  onRetry: (id: string, error: unknown, delayMs: number) => void;
+  onFailed: (id: string, error: unknown) => void;
+  onChange: (snapshot: QueueSnapshot) => void;
+}
+
+export interface JobQueue {
+  enqueue: (ids: string[], startPaused?: boolean) => void;
+  pause: () => void;
+  resume: () => void;
+  cancelAll: () => string[];
+  // Resolves once the rate budget admits one more provider request, and
+  // counts it. Every request a job makes goes through here.
+  acquire: (tokens: number, signal?: AbortSignal) => Promise<void>;
+  // IDs that have not finished yet, in the order they will run
+  unfinishedIds: () => string[];
+  snapshot: () => QueueSnapshot;
+}
+
+interface Job {
+  id: string;
+  attempts: number;
+  notBefore: number;
+}
+
+interface WindowEntry {
+  time: number;
+  tokens: number;
+}
+
+export const isRetryableError = (error: unknown): boolean => {
+  const status = errorStatus(error);
+  if (status === 429 || status === 408 || (status !== undefined && status >= 500)) return true;
+  const message = errorMessage(error);
+  return message.includes('429') || message.includes('500') || message.includes('503') || message.includes('RESOURCE_EXHAUSTED');
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+  let state: QueueState = 'idle';
+  let queue: Job[] = [];
+  const active = new Map<string, AbortController>();
+  let usage: WindowEntry[] = [];
+  let durations: number[] = [];
+  let total = 0;
+  let completed = 0;
+  let failed = 0;
+  let cooldownUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const snapshot = (): QueueSnapshot => {
+    const remaining = queue.length + active.size;
+    const limits = options.getLimits();
+    const avg = durations.length ? durations.reduce((a, b) => a + b, 0) / durations.length : null;
+    const byConcurrency = avg !== null ? (remaining * avg) / Math.max(1, limits.concurrency) : null;
+    // With a request budget the queue can never go faster than the RPM allows
+    const byRate = limits.requestsPerMinute ? (queue.length / limits.requestsPerMinute) * WINDOW_MS : 0;
+    return {
+      state,
+      total,
+      completed,
+      failed,
+      active: active.size,
+      queued: queue.length,
+      etaMs: remaining === 0 ? 0 : byConcurrency !== null ? Math.max(byConcurrency, byRate) : null,
+      cooldownUntil: cooldownUntil > Date.now() ? cooldownUntil : null,
+    };
+  };
+
+  const emit = () => options.onChange(snapshot());
+
+  const schedule = (delayMs: number) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      pump();
+    }, Math.max(0, delayMs));
+  };
+
+  // Milliseconds until the rolling one-minute budget admits a job of this size
+  const budgetWait = (tokens: number, now: number): number => {
+    const limits = options.getLimits();
+    usage = usage.filter(e => now - e.time < WINDOW_MS);
+    const usedTokens = usage.reduce((sum, e) => sum + e.tokens, 0);
+    const overRequests = limits.requestsPerMinute !== undefined && usage.length >= limits.requestsPerMinute;
+    const overTokens = limits.tokensPerMinute !== undefined && usage.length > 0 && usedTokens + tokens > limits.tokensPerMinute;
+    if (!overRequests && !overTokens) return 0;
+    return WINDOW_MS - (now - usage[0].time) + 50;
+  };
+
+  const acquire = async (tokens: number, signal?: AbortSignal) => {
+    for (;;) {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      const now = Date.now();
+      const wait = Math.max(cooldownUntil - now, budgetWait(tokens, now));
+      if (wait <= 0) {
+        usage.push({ time: now, tokens });
+        return;
+      }
+      await sleep(wait, signal);
+    }
+  };
+
+  const finishIfDrained = () => {
+    if (queue.length === 0 && active.size === 0 && state !== 'idle') state = 'idle';
+  };
+
+  const start = (job: Job) => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    active.set(job.id, controller);
+
+    options.run(job.id, controller.signal)
+      .then(() => {
+        if (controller.signal.aborted) return;
+        durations = [...durations.slice(-19), Date.now() - startedAt];
+        completed++;
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted) return;
+        if (isRetryableError(error) && job.attempts < options.maxRetries) {
+          const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+          const delay = retryAfterMs ?? BASE_RETRY_DELAY * 2 ** job.attempts;
+          // A 429 means the provider budget is spent: hold every job, not just this one
+          if (errorStatus(error) === 429 || retryAfterMs) cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+          queue.unshift({ id: job.id, attempts: job.attempts + 1, notBefore: Date.now() + delay });
+          options.onRetry(job.id, error, delay);
+        } else {
+          failed++;
+          options.onFailed(job.id, error);
+        }
+      })
+      .finally(() => {
+        if (active.get(job.id) === controller) active.delete(job.id);
+        finishIfDrained();
+        emit();
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (state !== 'running') return;
+    const limits = options.getLimits();
+    let now = Date.now();
+
+    if (cooldownUntil > now) {
+      schedule(cooldownUntil - now);
+      emit();
+      return;
+    }
+
+    while (active.size < Math.max(1, limits.concurrency) && queue.length > 0) {
+      now = Date.now();
+      const index = queue.findIndex(j => j.notBefore <= now);
+      if (index === -1) {
+        schedule(Math.min(...queue.map(j => j.notBefore)) - now);
+        break;
+      }
+      const wait = budgetWait(options.estimateTokens(queue[index].id), now);
+      if (wait > 0) {
+        schedule(wait);
+        break;
+      }
+      const [job] = queue.splice(index, 1);
+      start(job);
+    }
+    finishIfDrained();
+    emit();
+  };
+
+  return {
+    enqueue: (ids, startPaused = false) => {
+      const known = new Set([...queue.map(j => j.id), ...active.keys()]);
+      const fresh = ids.filter(id => !known.has(id));
+      if (state === 'idle') {
+        total = 0;
+        completed = 0;
+        failed = 0;
+        state = startPaused ? 'paused' : 'running';
+      }
+      total += fresh.length;
+      queue.push(...fresh.map(id => ({ id, attempts: 0, notBefore: 0 })));
+      finishIfDrained();
+      emit();
+      pump();
+    },
+    pause: () => {
+      if (state !== 'running') return;
+      state = 'paused';
+      emit();
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'running';
+      pump();
+    },
+    cancelAll: () => {
+      const cancelled = [...active.keys(), ...queue.map(j => j.id)];
+      active.forEach(controller => controller.abort());
+      active.clear();
+      queue = [];
+      cooldownUntil = 0;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      state = 'idle';
+      emit();
+      return cancelled;
+    },
+    acquire,
+    unfinishedIds: () => [...active.keys(), ...queue.map(j => j.id)],
+    snapshot,
+  };
+};
+
+export const formatEta = (ms: number | null): string => {
+  if (ms === null) return 'Estimating...';
+  const seconds = Math.ceil(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
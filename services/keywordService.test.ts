@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { Asset } from "../types";
+import { MetadataProvider, MetadataRequest } from "./providers";
+import { generateAssetMetadata } from "./geminiService";
+import { dedupeKeywords, orderByRelevance, processKeywords, removeForbidden, singularize, splitPhrases } from "./keywordService";
+
+const context = { title: 'Red apple on a wooden table', description: 'A fresh red apple lit by window light.' };
+
+describe("removeForbidden", () => {
+  it("strips brand names wherever they appear", () => {
+    expect(removeForbidden(['nike shoes', 'running', 'star wars fan', 'coca-cola'], 'Shutterstock')).toEqual(['running']);
+  });
+
+  it("keeps brands that are also everyday words", () => {
+    expect(removeForbidden(['apple tree', 'amazon rainforest', 'open windows', 'puma', 'marvel'], 'Shutterstock'))
+      .toEqual(['apple tree', 'amazon rainforest', 'open windows', 'puma', 'marvel']);
+  });
+
+  it("strips filler only when it is the whole keyword", () => {
+    expect(removeForbidden(['stock', 'stock photo', 'royalty free', 'hd', 'mirror image', 'gluten-free', 'stock market'], 'Adobe Stock'))
+      .toEqual(['mirror image', 'gluten-free', 'stock market']);
+  });
+
+  it("strips the platform's own forbidden terms", () => {
+    expect(removeForbidden(['cat shirt', 'cat', 'shutterstock'], 'Teepublic')).toEqual(['cat', 'shutterstock']);
+    expect(removeForbidden(['shutterstock exclusive', 'cat'], 'Shutterstock')).toEqual(['cat']);
+  });
+});
+
+describe("singularize", () => {
+  it.each([
+    ['cats', 'cat'], ['boxes', 'box'], ['churches', 'church'], ['berries', 'berry'], ['cities', 'city'],
+    ['children', 'child'], ['leaves', 'leaf'], ['glass', 'glass'], ['series', 'series'], ['cactus', 'cactus'],
+  ])("%s → %s", (plural, singular) => {
+    expect(singularize(plural)).toBe(singular);
+  });
+
+  it.each([
+    ['movies', 'movie'], ['cookies', 'cookie'], ['calories', 'calorie'], ['brownies', 'brownie'], ['zombies', 'zombie'],
+    ['hippies', 'hippie'], ['selfies', 'selfie'], ['rookies', 'rookie'], ['hoodies', 'hoodie'], ['pies', 'pie'],
+    ['ties', 'tie'], ['lies', 'lie'],
+  ])("keeps the ie of %s", (plural, singular) => {
+    expect(singularize(plural)).toBe(singular);
+  });
+
+  it.each([
+    ['tomatoes', 'tomato'], ['potatoes', 'potato'], ['heroes', 'hero'], ['echoes', 'echo'], ['volcanoes', 'volcano'],
+    ['mosquitoes', 'mosquito'], ['tornadoes', 'tornado'], ['torpedoes', 'torpedo'], ['dominoes', 'domino'],
+    ['mangoes', 'mango'], ['shoes', 'shoe'], ['toes', 'toe'],
+  ])("drops the es of %s only when the singular ends in o", (plural, singular) => {
+    expect(singularize(plural)).toBe(singular);
+  });
+});
+
+describe("dedupeKeywords", () => {
+  it("keeps the first of keywords that differ only by plural or hyphen", () => {
+    expect(dedupeKeywords(['cat', 'cats', 'ice-cream', 'ice cream', 'movies', 'movie', 'tomato', 'tomatoes', 'dog']))
+      .toEqual(['cat', 'ice-cream', 'movies', 'tomato', 'dog']);
+  });
+});
+
+describe("splitPhrases", () => {
+  it("splits phrases into words without stop words", () => {
+    expect(splitPhrases(['cup of coffee', 'morning', 'in the kitchen'])).toEqual(['cup', 'coffee', 'morning', 'kitchen']);
+  });
+});
+
+describe("orderByRelevance", () => {
+  it("puts title words first, then description words, then the original order", () => {
+    expect(orderByRelevance(['fruit', 'light', 'tables', 'apples', 'healthy'], context))
+      .toEqual(['apples', 'tables', 'light', 'fruit', 'healthy']);
+  });
+});
+
+describe("processKeywords", () => {
+  it("runs every stage for the platform", () => {
+    const keywords = ['red apples', 'nike', 'stock photo', 'fruit', 'fruits', 'wooden table', 'healthy'];
+    expect(processKeywords(keywords, 'Adobe Stock', context)).toEqual(['red apples', 'wooden table', 'fruit', 'healthy']);
+    expect(processKeywords(keywords, 'Dreamstime', context)).toEqual(['red', 'apples', 'wooden', 'table', 'fruit', 'healthy']);
+  });
+
+  it("cuts the list to the platform's target", () => {
+    const keywords = Array.from({ length: 30 }, (_, i) => `keyword${i}`);
+    expect(processKeywords(keywords, 'Teepublic', context)).toHaveLength(15);
+  });
+});
+
+describe("keyword top-up", () => {
+  const asset = { id: 'a', file: new File([], 'clip.mp4'), name: 'clip.mp4', type: 'Video', status: 'pending', metadata: {} } as unknown as Asset;
+
+  const fakeProvider = (responses: object[]) => {
+    const requests: MetadataRequest[] = [];
+    const provider = {
+      generate: async (request: MetadataRequest) => {
+        requests.push(request);
+        if (requests.length > responses.length) throw new Error('Rate limited');
+        return responses[requests.length - 1];
+      },
+    } as unknown as MetadataProvider;
+    return { provider, requests };
+  };
+
+  it("asks for more keywords when cleaning leaves the list short", async () => {
+    const extra = Array.from({ length: 20 }, (_, i) => `extra${i}`).join(', ');
+    const { provider, requests } = fakeProvider([
+      { title: 'Beach at sunset', description: 'Waves on a beach.', keywords: 'beach, beaches, sunset, nike, stock photo, waves' },
+      { keywords: extra },
+    ]);
+    const result = await generateAssetMetadata(asset, ['Teepublic'], { provider });
+    expect(requests).toHaveLength(2);
+    expect(requests[1].response).toBe('keywords');
+    expect(requests[1].prompt).toContain('beach, beaches, sunset, nike, stock photo, waves');
+    const keywords = result.metadata.Teepublic!.keywords.split(', ');
+    expect(keywords).toHaveLength(15);
+    expect(keywords.slice(0, 3)).toEqual(['beach', 'sunset', 'waves']);
+  });
+
+  it("skips the follow-up when the list is long enough", async () => {
+    const keywords = Array.from({ length: 20 }, (_, i) => `keyword${i}`).join(', ');
+    const { provider, requests } = fakeProvider([{ title: 'Title', description: 'Description', keywords }]);
+    await generateAssetMetadata(asset, ['Teepublic'], { provider });
+    expect(requests).toHaveLength(1);
+  });
+
+  it("keeps the cleaned list when the follow-up fails", async () => {
+    const { provider } = fakeProvider([{ title: 'Beach', description: 'Beach.', keywords: 'beach, beaches, sunset' }]);
+    const result = await generateAssetMetadata(asset, ['Teepublic'], { provider });
+    expect(result.metadata.Teepublic!.keywords).toBe('beach, sunset');
+  });
+});
@@ -0,0 +1,100 @@
+import { Platform } from "../types";
+import { BANNED_KEYWORDS, PLATFORM_RULES, TRADEMARK_TERMS } from "../constants";
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// Words ending in "s" that are already singular
+const SINGULAR_EXCEPTIONS = new Set(['series', 'species', 'news', 'glass', 'grass', 'bus', 'gas', 'lens', 'canvas', 'physics', 'mathematics', 'jeans', 'scissors', 'christmas', 'always', 'various']);
+
+const IRREGULAR_PLURALS: Record<string, string> = {
+  children: 'child', people: 'person', men: 'man', women: 'woman', feet: 'foot', teeth: 'tooth',
+  mice: 'mouse', geese: 'goose', leaves: 'leaf', knives: 'knife', wolves: 'wolf', lives: 'life',
+};
+
+// Singulars ending in "ie", whose plurals would otherwise become "-y"
+const IE_SINGULARS = new Set([
+  'movie', 'cookie', 'calorie', 'brownie', 'zombie', 'hippie', 'selfie', 'rookie', 'hoodie', 'genie',
+  'prairie', 'pixie', 'smoothie', 'goalie', 'veggie', 'freebie', 'newbie', 'birdie', 'collie', 'foodie',
+  'junkie', 'magpie', 'necktie', 'pie', 'tie', 'lie', 'die', 'boogie', 'sweetie', 'auntie', 'budgie',
+]);
+
+// Singulars ending in "o" that take "-es"
+const OES_SINGULARS = new Set(['tomato', 'potato', 'hero', 'echo', 'volcano', 'mosquito', 'tornado', 'torpedo', 'domino', 'mango', 'buffalo', 'cargo']);
+
+export interface KeywordContext {
+  title: string;
+  description: string;
+}
+
+export const parseKeywords = (value: string): string[] =>
+  value.split(',').map(k => k.trim().toLowerCase().replace(/\s+/g, ' ')).filter(Boolean);
+
+export const singularize = (word: string): string => {
+  if (IRREGULAR_PLURALS[word]) return IRREGULAR_PLURALS[word];
+  if (word.length <= 3 || SINGULAR_EXCEPTIONS.has(word)) return word;
+  if (word.endsWith('ies')) return IE_SINGULARS.has(word.slice(0, -1)) ? word.slice(0, -1) : `${word.slice(0, -3)}y`;
+  if (word.endsWith('oes') && OES_SINGULARS.has(word.slice(0, -2))) return word.slice(0, -2);
+  if (/(ss|x|ch|sh|zz)es$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+  return word;
+};
+
+// Two keywords are duplicates when their words match after singularizing
+export const keywordKey = (keyword: string): string =>
+  keyword.split(/[\s-]+/).map(singularize).join(' ');
+
+export const dedupeKeywords = (keywords: string[]): string[] => {
+  const seen = new Set<string>();
+  return keywords.filter(k => {
+    const key = keywordKey(k);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const splitPhrases = (keywords: string[]): string[] =>
+  keywords.flatMap(k => k.split(/\s+/).filter(w => !STOP_WORDS.has(w)));
+
+const containsTerm = (keyword: string, term: string): boolean =>
+  keyword === term || new RegExp(`(^|[\\s-])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[\\s-])`).test(keyword);
+
+// Filler is dropped only when it is the whole keyword ("stock photo"), never
+// as a word inside one ("mirror image"). Brands and portal names are dropped
+// wherever they appear.
+const isFiller = (keyword: string): boolean =>
+  BANNED_KEYWORDS.includes(keyword) || keyword.split(/[\s-]+/).every(word => BANNED_KEYWORDS.includes(word));
+
+export const removeForbidden = (keywords: string[], platform: Platform): string[] => {
+  const forbidden = [...TRADEMARK_TERMS, ...PLATFORM_RULES[platform].forbiddenKeywords];
+  return keywords.filter(k => !isFiller(k) && !forbidden.some(term => containsTerm(k, term)));
+};
+
+const parseWords = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(w => w && !STOP_WORDS.has(w)).map(singularize);
+
+// Keywords that also describe the title or description come first; otherwise
+// the model's own order is kept. Adobe Stock weights the first ten most.
+export const orderByRelevance = (keywords: string[], context: KeywordContext): string[] => {
+  const titleWords = new Set(parseWords(context.title));
+  const descriptionWords = new Set(parseWords(context.description));
+  const score = (keyword: string, index: number) => {
+    const words = keywordKey(keyword).split(' ');
+    const inTitle = words.filter(w => titleWords.has(w)).length / words.length;
+    const inDescription = words.filter(w => descriptionWords.has(w)).length / words.length;
+    return inTitle * 2 + inDescription + (1 - index / Math.max(1, keywords.length));
+  };
+  return keywords
+    .map((keyword, index) => ({ keyword, score: score(keyword, index) }))
+    .sort((a, b) => b.score - a.score)
+    .map(k => k.keyword);
+};
+
+// Runs every stage for one platform. The result may be shorter than the
+// target; callers ask the model for more rather than padding.
+export const processKeywords = (keywords: string[], platform: Platform, context: KeywordContext): string[] => {
+  const rules = PLATFORM_RULES[platform].keywords;
+  const split = rules.singleWords ? splitPhrases(keywords) : keywords;
+  const cleaned = dedupeKeywords(removeForbidden(split, platform));
+  return orderByRelevance(cleaned, context).slice(0, rules.target);
+};
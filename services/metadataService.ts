@@ -0,0 +1,29 @@
+import { Asset, Metadata, Platform, PlatformMetadata } from "../types";
+
+export const EMPTY_METADATA: Metadata = { title: '', description: '', keywords: '' };
+
+export const getMetadata = (asset: Asset, platform: Platform): Metadata =>
+  asset.metadata[platform] || EMPTY_METADATA;
+
+export const hasMetadata = (asset: Asset, platform: Platform): boolean =>
+  Boolean(asset.metadata[platform]);
+
+export const updateMetadataField = (
+  asset: Asset,
+  platform: Platform,
+  field: keyof Metadata,
+  value: string
+): Asset => ({
+  ...asset,
+  metadata: { ...asset.metadata, [platform]: { ...getMetadata(asset, platform), [field]: value } },
+});
+
+// Assets saved before per-platform metadata held a single Metadata object,
+// which belonged to whatever platform the pipeline was targeting at the time.
+export const normalizeMetadata = (metadata: unknown, platform: Platform): PlatformMetadata => {
+  if (!metadata || typeof metadata !== 'object') return {};
+  const legacy = metadata as Partial<Metadata>;
+  if (typeof legacy.title !== 'string') return metadata as PlatformMetadata;
+  const isEmpty = !legacy.title && !legacy.description && !legacy.keywords;
+  return isEmpty ? {} : { [platform]: legacy as Metadata };
+};
@@ -0,0 +1,165 @@
+// @vitest-environment jsdom
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { Asset, Metadata, Platform } from "../types";
+import { fillFlagsFor, fillPortalForm, listUploadTiles, selectUploadTile } from "./portalFillers";
+
+const FIXTURES: Record<Platform, string> = {
+  'Adobe Stock': 'adobe_stock',
+  'Shutterstock': 'shutterstock',
+  'Dreamstime': 'dreamstime',
+  'Teepublic': 'teepublic',
+};
+
+const loadPortal = (platform: Platform) => {
+  document.documentElement.innerHTML = readFileSync(path.join(__dirname, '__fixtures__/portals', `${FIXTURES[platform]}.html`), 'utf8');
+};
+
+const value = (selector: string) => document.querySelector<HTMLInputElement>(selector)!.value;
+const checked = (selector: string) => document.querySelector<HTMLInputElement>(selector)!.checked;
+
+const METADATA: Metadata = {
+  title: 'Beach at sunset',
+  description: 'Waves rolling onto a sandy beach at sunset',
+  keywords: 'beach, sunset, waves',
+  mainTag: 'beach',
+  category1: 'Nature',
+  category2: 'Backgrounds/Textures',
+  adobeCategory: '11',
+  dreamstimeCategory1: '112',
+  dreamstimeCategory2: '44',
+};
+
+beforeEach(() => {
+  document.documentElement.innerHTML = '';
+});
+
+describe("fillPortalForm", () => {
+  it("fills the Adobe Stock content tagger", () => {
+    loadPortal('Adobe Stock');
+    const report = fillPortalForm(document, 'Adobe Stock', METADATA, { illustration: true });
+    expect(report.filled).toEqual(['title', 'keywords', 'category1', 'illustration']);
+    expect(report.skipped).toEqual([]);
+    expect(value('textarea[name="title"]')).toBe('Beach at sunset');
+    expect(value('textarea[name="keywordsUITextArea"]')).toBe('beach, sunset, waves');
+    expect(value('select[name="category"]')).toBe('11');
+    expect(checked('input[name="isIllustration"]')).toBe(true);
+  });
+
+  it("types Shutterstock keywords as chips and picks categories by label", () => {
+    loadPortal('Shutterstock');
+    // Stands in for the portal's chip widget, which commits a tag on Enter
+    const input = document.querySelector<HTMLInputElement>('input[data-testid="keywords-input"]')!;
+    const chips: string[] = [];
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && input.value) chips.push(input.value);
+    });
+
+    const report = fillPortalForm(document, 'Shutterstock', METADATA, { editorial: false, illustration: false, mature: false });
+    expect(report.filled).toEqual(['description', 'keywords', 'category1', 'category2', 'editorial', 'illustration', 'mature']);
+    expect(value('textarea[name="description"]')).toBe('Waves rolling onto a sandy beach at sunset');
+    expect(chips).toEqual(['beach', 'sunset', 'waves']);
+    expect(input.value).toBe('');
+    expect(value('select[name="category1"]')).toBe('26');
+    expect(value('select[name="category2"]')).toBe('3');
+  });
+
+  it("ticks the Shutterstock editorial box for editorial assets", () => {
+    loadPortal('Shutterstock');
+    fillPortalForm(document, 'Shutterstock', METADATA, { editorial: true, illustration: false });
+    expect(checked('input[name="editorial"]')).toBe(true);
+    expect(checked('input[name="illustration"]')).toBe(false);
+  });
+
+  it("ticks the Shutterstock mature content box for mature assets", () => {
+    loadPortal('Shutterstock');
+    fillPortalForm(document, 'Shutterstock', METADATA, { mature: true });
+    expect(checked('input[name="mature"]')).toBe(true);
+  });
+
+  it("fills the Dreamstime form with category IDs", () => {
+    loadPortal('Dreamstime');
+    const report = fillPortalForm(document, 'Dreamstime', METADATA, { editorial: true });
+    expect(report.filled).toEqual(['title', 'description', 'keywords', 'category1', 'category2', 'editorial']);
+    expect(value('#title')).toBe('Beach at sunset');
+    expect(value('#keywords_tag')).toBe('beach, sunset, waves');
+    expect(value('#category1')).toBe('112');
+    expect(value('#category2')).toBe('44');
+    expect(checked('#editorial')).toBe(true);
+  });
+
+  it("reports a Dreamstime category the form does not offer", () => {
+    loadPortal('Dreamstime');
+    const report = fillPortalForm(document, 'Dreamstime', { ...METADATA, dreamstimeCategory2: '999' });
+    expect(report.skipped).toEqual([{ field: 'category2', reason: 'no option "999"' }]);
+    expect(value('#category2')).toBe('0');
+  });
+
+  it("fills the Teepublic design form", () => {
+    loadPortal('Teepublic');
+    const report = fillPortalForm(document, 'Teepublic', METADATA);
+    expect(report.filled).toEqual(['title', 'description', 'mainTag', 'keywords']);
+    expect(value('#design_design_title')).toBe('Beach at sunset');
+    expect(value('#design_primary_tag')).toBe('beach');
+    expect(value('#design_design_tag_list')).toBe('beach, sunset, waves');
+  });
+
+  it("reports fields missing from the page", () => {
+    loadPortal('Teepublic');
+    const report = fillPortalForm(document, 'Adobe Stock', METADATA, { illustration: true });
+    expect(report.filled).toEqual([]);
+    expect(report.skipped.map(s => s.field)).toEqual(['title', 'keywords', 'category1', 'illustration']);
+  });
+
+  it("fires input and change events the portal frameworks listen for", () => {
+    loadPortal('Dreamstime');
+    const events: string[] = [];
+    const title = document.querySelector('#title')!;
+    title.addEventListener('input', () => events.push('input'));
+    title.addEventListener('change', () => events.push('change'));
+    fillPortalForm(document, 'Dreamstime', METADATA);
+    expect(events).toEqual(['input', 'change']);
+  });
+});
+
+describe("listUploadTiles", () => {
+  it("reads names from the tile, its title or the image alt text", () => {
+    loadPortal('Shutterstock');
+    expect(listUploadTiles(document, 'Shutterstock')).toEqual([
+      { index: 0, name: 'beach_1.jpg', thumbnailUrl: 'https://submit.shutterstock.com/thumbs/beach_1.jpg' },
+      { index: 1, name: 'parade.jpg', thumbnailUrl: 'https://submit.shutterstock.com/thumbs/parade.jpg' },
+    ]);
+  });
+
+  it("lists the Adobe Stock and Dreamstime queues", () => {
+    loadPortal('Adobe Stock');
+    expect(listUploadTiles(document, 'Adobe Stock').map(t => t.name)).toEqual(['beach.jpg', 'badge.jpg']);
+    loadPortal('Dreamstime');
+    expect(listUploadTiles(document, 'Dreamstime').map(t => t.name)).toEqual(['beach.jpg']);
+  });
+
+  it("finds nothing on portals without an upload queue", () => {
+    loadPortal('Teepublic');
+    expect(listUploadTiles(document, 'Teepublic')).toEqual([]);
+  });
+});
+
+describe("selectUploadTile", () => {
+  it("clicks the tile at the index", () => {
+    loadPortal('Adobe Stock');
+    const clicked: number[] = [];
+    document.querySelectorAll('div.upload-tile').forEach((tile, i) => tile.addEventListener('click', () => clicked.push(i)));
+    expect(selectUploadTile(document, 'Adobe Stock', 1)).toBe(true);
+    expect(selectUploadTile(document, 'Adobe Stock', 5)).toBe(false);
+    expect(clicked).toEqual([1]);
+  });
+});
+
+describe("fillFlagsFor", () => {
+  it("derives the checkboxes from the asset", () => {
+    expect(fillFlagsFor({ type: 'Vector' } as Asset)).toEqual({ editorial: false, illustration: true, mature: false });
+    expect(fillFlagsFor({ type: 'Photo', editorial: true } as Asset)).toEqual({ editorial: true, illustration: false, mature: false });
+    expect(fillFlagsFor({ type: 'Photo', rights: { people: [], logos: [], landmarks: [], mature: true } } as Asset)).toEqual({ editorial: false, illustration: false, mature: true });
+  });
+});
@@ -0,0 +1,273 @@
+import { Asset, Metadata, Platform } from "../types";
+import { parseKeywords } from "./keywordService";
+
+// DOM-only helpers used by the content script. Everything takes the target
+// Document explicitly so fillers can run against saved portal HTML in jsdom.
+
+export interface FillFlags {
+  editorial?: boolean;
+  illustration?: boolean;
+  mature?: boolean;
+}
+
+// The checkboxes the asset's license, type and content call for
+export const fillFlagsFor = (asset: Asset): FillFlags => ({
+  editorial: Boolean(asset.editorial),
+  illustration: asset.type === 'Vector',
+  mature: Boolean(asset.rights?.mature),
+});
+
+export interface FillReport {
+  platform: Platform;
+  filled: string[];
+  skipped: { field: string; reason: string }[];
+}
+
+type FieldName = 'title' | 'description' | 'keywords' | 'mainTag' | 'category1' | 'category2' | 'editorial' | 'illustration' | 'mature';
+
+// Candidate selectors per field, tried in order; portals rename things often
+export type SelectorMap = Partial<Record<FieldName, string[]>>;
+
+export interface UploadTile {
+  index: number;
+  name: string;
+  thumbnailUrl?: string;
+}
+
+// Where the portal lists pending uploads; clicking a tile loads its form
+export interface UploadQueueSelectors {
+  tile: string[];
+  name: string[];
+  thumbnail: string[];
+}
+
+export interface PortalFiller {
+  platform: Platform;
+  selectors: SelectorMap;
+  queue?: UploadQueueSelectors;
+  // How keywords are entered: one comma-separated text field, or a chip
+  // widget that turns each Enter-terminated entry into a tag
+  keywordMode: 'text' | 'chips';
+  // Metadata fields holding the category values for category1/category2
+  categoryFields: (keyof Metadata)[];
+}
+
+export const PORTAL_FILLERS: Record<Platform, PortalFiller> = {
+  'Adobe Stock': {
+    platform: 'Adobe Stock',
+    selectors: {
+      title: ['textarea[name="title"]', 'textarea[data-t="asset-title-content-tagger"]', 'input[name="title"]'],
+      keywords: ['textarea[name="keywordsUITextArea"]', 'textarea[name="keywords"]', 'textarea[data-t="content-keywords-ui-textarea"]'],
+      category1: ['select[name="category"]', 'select[data-t="asset-category-select"]'],
+      illustration: ['input[name="isIllustration"]'],
+    },
+    queue: {
+      tile: ['div.upload-tile', '[data-t="asset-tile"]'],
+      name: ['.upload-tile__filename', '[data-t="asset-tile-filename"]'],
+      thumbnail: ['img.upload-tile__thumbnail', 'img'],
+    },
+    keywordMode: 'text',
+    categoryFields: ['adobeCategory'],
+  },
+  'Shutterstock': {
+    platform: 'Shutterstock',
+    selectors: {
+      description: ['textarea[name="description"]', 'textarea[data-testid="description"]', '#description'],
+      keywords: ['input[data-testid="keywords-input"]', 'input[name="keywords"]', 'input[placeholder*="keyword" i]'],
+      category1: ['select[name="category1"]', 'select[data-testid="category-1"]'],
+      category2: ['select[name="category2"]', 'select[data-testid="category-2"]'],
+      editorial: ['input[name="editorial"]', 'input[data-testid="editorial-checkbox"]'],
+      illustration: ['input[name="illustration"]', 'input[data-testid="illustration-checkbox"]'],
+      mature: ['input[name="mature"]', 'input[data-testid="mature-content-checkbox"]'],
+    },
+    queue: {
+      tile: ['[data-testid="asset-card"]', '[data-testid="pending-asset"]'],
+      name: ['[data-testid="asset-card-filename"]', '[data-testid="filename"]'],
+      thumbnail: ['img'],
+    },
+    keywordMode: 'chips',
+    categoryFields: ['category1', 'category2'],
+  },
+  'Dreamstime': {
+    platform: 'Dreamstime',
+    selectors: {
+      title: ['#title', 'input[name="title"]'],
+      description: ['#description', 'textarea[name="description"]'],
+      keywords: ['#keywords_tag', 'textarea[name="keywords"]'],
+      category1: ['#category1', 'select[name="cat1"]'],
+      category2: ['#category2', 'select[name="cat2"]'],
+      editorial: ['#editorial', 'input[name="editorial"]'],
+    },
+    queue: {
+      tile: ['.upload-item', '.js-upload-item'],
+      name: ['.upload-item__filename', '.filename'],
+      thumbnail: ['img'],
+    },
+    keywordMode: 'text',
+    categoryFields: ['dreamstimeCategory1', 'dreamstimeCategory2'],
+  },
+  'Teepublic': {
+    platform: 'Teepublic',
+    selectors: {
+      title: ['#design_design_title', 'input[name="design[design_title]"]'],
+      description: ['#design_design_description', 'textarea[name="design[design_description]"]'],
+      mainTag: ['#design_primary_tag', 'input[name="design[primary_tag]"]'],
+      keywords: ['#design_design_tag_list', 'input[name="design[design_tag_list]"]'],
+    },
+    keywordMode: 'text',
+    categoryFields: [],
+  },
+};
+
+type FormElement = HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement;
+
+export const findElement = <T extends Element = FormElement>(doc: Document, selectors: string[] = []): T | null => {
+  for (const selector of selectors) {
+    const el = doc.querySelector<T>(selector);
+    if (el) return el;
+  }
+  return null;
+};
+
+const fire = (el: Element, type: string) => {
+  const win = el.ownerDocument.defaultView;
+  el.dispatchEvent(win ? new win.Event(type, { bubbles: true }) : new Event(type, { bubbles: true }));
+};
+
+// React and Angular track the last value they rendered; assigning `.value`
+// directly is swallowed. Going through the prototype setter makes the
+// framework see a real change when the input event fires.
+export const setNativeValue = (el: FormElement, value: string) => {
+  const win = el.ownerDocument.defaultView as (Window & typeof globalThis) | null;
+  const proto = !win ? Object.getPrototypeOf(el)
+    : el instanceof win.HTMLTextAreaElement ? win.HTMLTextAreaElement.prototype
+    : el instanceof win.HTMLSelectElement ? win.HTMLSelectElement.prototype
+    : win.HTMLInputElement.prototype;
+  const setter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
+  if (setter) setter.call(el, value);
+  else el.value = value;
+  fire(el, 'input');
+  fire(el, 'change');
+};
+
+const pressEnter = (el: Element) => {
+  const win = el.ownerDocument.defaultView;
+  const Keyboard = win?.KeyboardEvent || KeyboardEvent;
+  ['keydown', 'keypress', 'keyup'].forEach(type => {
+    el.dispatchEvent(new Keyboard(type, { key: 'Enter', code: 'Enter', keyCode: 13, which: 13, bubbles: true } as KeyboardEventInit));
+  });
+};
+
+// Chip widgets commit a tag on Enter, so each keyword is typed and submitted
+export const typeChips = (input: HTMLInputElement, keywords: string[]) => {
+  keywords.forEach(keyword => {
+    input.focus();
+    setNativeValue(input, keyword);
+    pressEnter(input);
+  });
+  setNativeValue(input, '');
+};
+
+// Matches an option by value first, then by visible label
+export const selectOption = (select: HTMLSelectElement, value: string): boolean => {
+  const wanted = value.trim().toLowerCase();
+  const option = Array.from(select.options).find(o => o.value.toLowerCase() === wanted)
+    || Array.from(select.options).find(o => o.text.trim().toLowerCase() === wanted);
+  if (!option) return false;
+  setNativeValue(select, option.value);
+  return true;
+};
+
+// Frameworks listen for clicks on checkboxes, not property changes
+export const setChecked = (input: HTMLInputElement, checked: boolean) => {
+  if (input.checked !== checked) input.click();
+};
+
+export const fillPortalForm = (doc: Document, platform: Platform, metadata: Metadata, flags: FillFlags = {}): FillReport => {
+  const filler = PORTAL_FILLERS[platform];
+  const report: FillReport = { platform, filled: [], skipped: [] };
+  const skip = (field: string, reason: string) => report.skipped.push({ field, reason });
+
+  const fillText = (field: 'title' | 'description' | 'mainTag', value: string | undefined) => {
+    if (!filler.selectors[field]) return;
+    if (!value) return skip(field, 'empty');
+    const el = findElement(doc, filler.selectors[field]);
+    if (!el) return skip(field, 'field not found');
+    setNativeValue(el, value);
+    report.filled.push(field);
+  };
+
+  fillText('title', metadata.title);
+  fillText('description', metadata.description);
+  fillText('mainTag', metadata.mainTag);
+
+  const keywords = parseKeywords(metadata.keywords);
+  const keywordEl = findElement(doc, filler.selectors.keywords);
+  if (!keywordEl) skip('keywords', 'field not found');
+  else if (keywords.length === 0) skip('keywords', 'empty');
+  else {
+    if (filler.keywordMode === 'chips' && keywordEl instanceof (doc.defaultView?.HTMLInputElement || HTMLInputElement)) typeChips(keywordEl, keywords);
+    else setNativeValue(keywordEl, keywords.join(', '));
+    report.filled.push('keywords');
+  }
+
+  (['category1', 'category2'] as const).forEach((field, i) => {
+    const source = filler.categoryFields[i];
+    if (!filler.selectors[field] || !source) return;
+    const value = metadata[source];
+    if (!value) return skip(field, 'empty');
+    const select = findElement<HTMLSelectElement>(doc, filler.selectors[field]);
+    if (!select || select.tagName !== 'SELECT') return skip(field, 'field not found');
+    if (!selectOption(select, value)) return skip(field, `no option "${value}"`);
+    report.filled.push(field);
+  });
+
+  (['editorial', 'illustration', 'mature'] as const).forEach(field => {
+    if (!filler.selectors[field] || flags[field] === undefined) return;
+    const checkbox = findElement<HTMLInputElement>(doc, filler.selectors[field]);
+    if (!checkbox) return skip(field, 'field not found');
+    setChecked(checkbox, Boolean(flags[field]));
+    report.filled.push(field);
+  });
+
+  return report;
+};
+
+const findTiles = (doc: Document, selectors: string[]): Element[] => {
+  for (const selector of selectors) {
+    const tiles = Array.from(doc.querySelectorAll(selector));
+    if (tiles.length > 0) return tiles;
+  }
+  return [];
+};
+
+const findWithin = <T extends Element>(root: Element, selectors: string[]): T | null => {
+  for (const selector of selectors) {
+    const el = root.querySelector<T>(selector);
+    if (el) return el;
+  }
+  return null;
+};
+
+// Portals show the original filename on the tile, or at least as image alt text
+export const listUploadTiles = (doc: Document, platform: Platform): UploadTile[] => {
+  const queue = PORTAL_FILLERS[platform].queue;
+  if (!queue) return [];
+  return findTiles(doc, queue.tile).map((tile, index) => {
+    const image = findWithin<HTMLImageElement>(tile, queue.thumbnail);
+    const name = findWithin(tile, queue.name)?.textContent?.trim()
+      || tile.getAttribute('title')
+      || image?.getAttribute('alt')
+      || '';
+    return { index, name, thumbnailUrl: image?.src || undefined };
+  });
+};
+
+export const selectUploadTile = (doc: Document, platform: Platform, index: number): boolean => {
+  const queue = PORTAL_FILLERS[platform].queue;
+  const tile = queue ? findTiles(doc, queue.tile)[index] : undefined;
+  if (!(tile instanceof (doc.defaultView?.HTMLElement || HTMLElement))) return false;
+  tile.scrollIntoView?.({ block: 'center' });
+  tile.click();
+  return true;
+};
@@ -0,0 +1,52 @@
+import { AIEngine, Platform, Project } from "../types";
+import { DEFAULT_PROJECT_ID } from "../constants";
+
+const PROJECTS_KEY = 'autometagen_projects';
+const ACTIVE_PROJECT_KEY = 'autometagen_active_project';
+
+export const createProject = (name: string, platform: Platform, engine: AIEngine, id: string = crypto.randomUUID()): Project => {
+  const now = Date.now();
+  return { id, name, platform, engine, archived: false, createdAt: now, updatedAt: now };
+};
+
+export const loadProjects = (fallbackEngine: AIEngine): Project[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROJECTS_KEY) || '[]');
+    if (Array.isArray(saved) && saved.length > 0) return saved;
+  } catch (e) {
+    console.error("Failed to restore projects", e);
+  }
+  // The default project adopts the pipeline stored before projects existed
+  return [createProject('My First Project', 'Shutterstock', fallbackEngine, DEFAULT_PROJECT_ID)];
+};
+
+export const saveProjects = (projects: Project[]) => {
+  localStorage.setItem(PROJECTS_KEY, JSON.stringify(projects));
+};
+
+export const loadActiveProjectId = (projects: Project[]): string => {
+  const saved = localStorage.getItem(ACTIVE_PROJECT_KEY);
+  const active = projects.find(p => p.id === saved && !p.archived) || projects.find(p => !p.archived) || projects[0];
+  return active.id;
+};
+
+export const saveActiveProjectId = (id: string) => {
+  localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+};
+
+// Unfinished generation jobs, so a reload can pick the queue back up
+const queueKey = (projectId: string) => `autometagen_queue_${projectId}`;
+
+export const loadQueuedAssetIds = (projectId: string): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(queueKey(projectId)) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveQueuedAssetIds = (projectId: string, ids: string[]) => {
+  if (ids.length === 0) localStorage.removeItem(queueKey(projectId));
+  else localStorage.setItem(queueKey(projectId), JSON.stringify(ids));
+};
@@ -0,0 +1,155 @@
+import { Asset, Platform, PromptPreset, PromptUsage } from "../types";
+import { PLATFORM_RULES } from "../constants";
+import { formatCamera, formatCaptureDate, formatShutter } from "./exifService";
+import { formatLocation } from "./gazetteer";
+
+const PRESETS_KEY = 'tabo_prompt_presets';
+
+export const DEFAULT_PRESET_ID = 'default';
+
+export const DEFAULT_TEMPLATE = `You are a high-level Stock Media Strategist. Your goal is to generate metadata that is 100% ACCURATE to the visual content provided.
+Analyze the actual image data carefully.
+
+ASSET INFO:
+- Filename: {filename}
+- Type: {type}
+- Platform: {platform}
+- Project notes: {notes}
+
+INSTRUCTIONS:
+1. VISUAL ANALYSIS: Look at the main subject, subject count, background, lighting, and colors.
+2. TITLE (Max {titleMax} chars): A literal, descriptive sentence. No fluff.
+3. DESCRIPTION (Max {descriptionMax} chars): Detailed scene description.
+4. KEYWORDS (EXACTLY {keywordCount}): Specific, non-duplicate, niche keywords.`;
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  { id: DEFAULT_PRESET_ID, name: 'Stock Media Strategist', template: DEFAULT_TEMPLATE, overrides: {}, builtIn: true },
+];
+
+export const PROMPT_VARIABLES: { name: string; description: string }[] = [
+  { name: 'filename', description: 'File name with extension' },
+  { name: 'basename', description: 'File name without extension, separators as spaces' },
+  { name: 'type', description: 'Photo, Vector or Video' },
+  { name: 'platform', description: 'Target platforms, comma separated' },
+  { name: 'titleMax', description: 'Title length limit' },
+  { name: 'descriptionMax', description: 'Description length limit' },
+  { name: 'keywordCount', description: 'Keywords to ask for' },
+  { name: 'notes', description: 'Project notes' },
+  { name: 'location', description: 'Approximate place name from GPS, e.g. Bled, Upper Carniola, Slovenia' },
+  { name: 'gps', description: 'GPS coordinates as latitude, longitude' },
+  { name: 'exif.camera', description: 'Camera make and model' },
+  { name: 'exif.lens', description: 'Lens model' },
+  { name: 'exif.focalLength', description: 'Focal length, e.g. 35mm' },
+  { name: 'exif.aperture', description: 'Aperture, e.g. f/2.8' },
+  { name: 'exif.shutter', description: 'Shutter speed, e.g. 1/250s' },
+  { name: 'exif.iso', description: 'ISO sensitivity' },
+  { name: 'exif.date', description: 'Capture date, e.g. May 1, 2024' },
+];
+
+const VARIABLE_PATTERN = /\{([a-zA-Z.]+)\}/g;
+
+// Built-ins are always present and read-only; only user presets are stored
+export const loadPromptPresets = (): PromptPreset[] => {
+  let saved: PromptPreset[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to restore prompt presets", e);
+  }
+  return [...BUILT_IN_PRESETS, ...(Array.isArray(saved) ? saved.filter(p => !p.builtIn) : [])];
+};
+
+export const savePromptPresets = (presets: PromptPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
+
+export const findPreset = (presets: PromptPreset[], id?: string): PromptPreset =>
+  presets.find(p => p.id === id) || presets.find(p => p.id === DEFAULT_PRESET_ID) || BUILT_IN_PRESETS[0];
+
+// One response serves every target platform, so ask for what fits the strictest
+export const promptLimits = (platforms: Platform[]) => {
+  const rules = platforms.map(p => PLATFORM_RULES[p]);
+  return {
+    titleMax: Math.min(...rules.map(r => r.title.max)),
+    descriptionMax: Math.min(...rules.map(r => r.description.max)),
+    keywordCount: Math.max(...rules.map(r => r.keywords.target)),
+  };
+};
+
+export const buildPromptVariables = (asset: Asset, platforms: Platform[], notes = ''): Record<string, string> => {
+  const limits = promptLimits(platforms);
+  const exif = asset.exif || {};
+  // Stripped assets render as if they had no position at all
+  const gps = asset.stripLocation ? undefined : exif.gps;
+  const location = asset.stripLocation ? undefined : asset.location;
+  return {
+    filename: asset.name,
+    basename: asset.name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim(),
+    type: asset.type,
+    platform: platforms.join(', '),
+    titleMax: String(limits.titleMax),
+    descriptionMax: String(limits.descriptionMax),
+    keywordCount: String(limits.keywordCount),
+    notes: notes.trim(),
+    location: location ? formatLocation(location) : '',
+    gps: gps ? `${gps.latitude.toFixed(5)}, ${gps.longitude.toFixed(5)}` : '',
+    'exif.camera': formatCamera(exif),
+    'exif.lens': exif.lens || '',
+    'exif.focalLength': exif.focalLength ? `${Math.round(exif.focalLength)}mm` : '',
+    'exif.aperture': exif.fNumber ? `f/${Math.round(exif.fNumber * 10) / 10}` : '',
+    'exif.shutter': exif.exposureTime ? formatShutter(exif.exposureTime) : '',
+    'exif.iso': exif.iso ? String(exif.iso) : '',
+    'exif.date': exif.capturedAt ? formatCaptureDate(exif.capturedAt) : '',
+  };
+};
+
+// Fills in {variables}. A line whose variables all came out empty is dropped,
+// so "- Lens: {exif.lens}" disappears for files without EXIF. Unknown names
+// are left as written.
+export const renderTemplate = (template: string, variables: Record<string, string>): string =>
+  template
+    .split('\n')
+    .flatMap(line => {
+      const names = [...line.matchAll(VARIABLE_PATTERN)].map(m => m[1]).filter(name => name in variables);
+      if (names.length > 0 && names.every(name => !variables[name])) return [];
+      return [line.replace(VARIABLE_PATTERN, (token, name) => (name in variables ? variables[name] : token))];
+    })
+    .join('\n')
+    .trim();
+
+export const unknownVariables = (template: string): string[] => {
+  const known = new Set(PROMPT_VARIABLES.map(v => v.name));
+  return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map(m => m[1]).filter(name => !known.has(name)))];
+};
+
+export const templateFor = (preset: PromptPreset, platform: Platform): string =>
+  preset.overrides[platform]?.trim() ? preset.overrides[platform]! : preset.template;
+
+// Platforms sharing a template are generated together; an override splits
+// its platform off into a request of its own.
+export const groupPlatformsByTemplate = (preset: PromptPreset, platforms: Platform[]): { template: string; platforms: Platform[] }[] => {
+  const groups = new Map<string, Platform[]>();
+  platforms.forEach(p => {
+    const template = templateFor(preset, p);
+    groups.set(template, [...(groups.get(template) || []), p]);
+  });
+  return [...groups].map(([template, grouped]) => ({ template, platforms: grouped }));
+};
+
+export const promptUsage = (preset: PromptPreset, platforms: Platform[], notes?: string): PromptUsage => ({
+  presetId: preset.id,
+  presetName: preset.name,
+  templates: Object.fromEntries(platforms.map(p => [p, templateFor(preset, p)])),
+  notes: notes?.trim() || undefined,
+});
+
+// A preset rebuilt from what an asset was generated with, for repeating the run
+export const presetFromUsage = (usage: PromptUsage): PromptPreset => {
+  const templates = Object.values(usage.templates);
+  return {
+    id: crypto.randomUUID(),
+    name: `${usage.presetName} (as used)`,
+    template: templates[0] || DEFAULT_TEMPLATE,
+    overrides: Object.fromEntries(Object.entries(usage.templates).filter(([, t]) => t !== templates[0])),
+  };
+};
@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ProviderConfig } from "../types";
+import { BUILT_IN_PROVIDERS, isLocalUrl, probeProvider } from "./providers";
+
+const LOCAL = BUILT_IN_PROVIDERS.find(p => p.id === 'local') as ProviderConfig;
+
+const stubServer = (responses: Record<string, { status: number; body?: object }>) =>
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const response = responses[url];
+    if (!response) throw new TypeError('Failed to fetch');
+    return new Response(JSON.stringify(response.body || {}), { status: response.status });
+  }));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("isLocalUrl", () => {
+  it.each([
+    ['http://localhost:11434/v1', true], ['http://127.0.0.1:8080/v1', true], ['http://[::1]:1234/v1', true],
+    ['https://openrouter.ai/api/v1', false], ['http://192.168.1.20:11434/v1', false], ['', false], ['not a url', false],
+  ])("%s → %s", (url, local) => {
+    expect(isLocalUrl(url)).toBe(local);
+  });
+});
+
+describe("probeProvider", () => {
+  it("reports a healthy server and its models", async () => {
+    stubServer({
+      'http://localhost:11434/health': { status: 200 },
+      'http://localhost:11434/v1/models': { status: 200, body: { data: [{ id: 'llava' }, { id: 'qwen2-vl' }] } },
+    });
+    const result = await probeProvider(LOCAL);
+    expect(result).toMatchObject({ healthy: true, models: ['llava', 'qwen2-vl'] });
+    expect(result.error).toBeUndefined();
+  });
+
+  it("falls back to the root for servers without /health", async () => {
+    stubServer({
+      'http://localhost:11434': { status: 200 },
+      'http://localhost:11434/v1/models': { status: 200, body: { models: [{ name: 'llava' }] } },
+    });
+    expect(await probeProvider(LOCAL)).toMatchObject({ healthy: true, models: ['llava'] });
+  });
+
+  it("is unhealthy when only the model list answers", async () => {
+    stubServer({
+      'http://localhost:11434/health': { status: 503 },
+      'http://localhost:11434': { status: 503 },
+      'http://localhost:11434/v1/models': { status: 200, body: { data: [{ id: 'llava' }] } },
+    });
+    expect(await probeProvider(LOCAL)).toMatchObject({ healthy: false, models: ['llava'] });
+  });
+
+  it("reports an unreachable server", async () => {
+    stubServer({});
+    expect(await probeProvider(LOCAL)).toMatchObject({ healthy: false, models: [], error: 'Failed to fetch' });
+  });
+});
@@ -0,0 +1,420 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { ProviderCapabilities, ProviderConfig } from "../types";
+import { getGeminiApiKey } from "./extensionBridge";
+
+export interface MetadataRequest {
+  system: string;
+  prompt: string;
+  images: Blob[];
+  signal?: AbortSignal;
+  // 'keywords' asks only for a keyword list, used to top up short results;
+  // 'translation' for translated fields and keyword pairs
+  response?: 'metadata' | 'keywords' | 'translation';
+}
+
+// The parsed JSON object returned by the model. Nothing about its fields is
+// guaranteed; callers check each one they read.
+export type ModelResponse = Record<string, unknown>;
+
+export interface MetadataProvider {
+  config: ProviderConfig;
+  capabilities: ProviderCapabilities;
+  generate: (request: MetadataRequest) => Promise<ModelResponse>;
+}
+
+export class ProviderError extends Error {
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Errors come from provider SDKs, fetch and the queue alike, so their shape
+// is read defensively
+export const errorStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null | undefined)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export const errorMessage = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  const message = (error as { message?: unknown } | null | undefined)?.message;
+  return typeof message === 'string' ? message : '';
+};
+
+export const GROQ_MODELS: { id: string; label: string; vision: boolean }[] = [
+  { id: 'meta-llama/llama-4-scout-17b-16e-instruct', label: 'Llama 4 Scout (Vision)', vision: true },
+  { id: 'meta-llama/llama-4-maverick-17b-128e-instruct', label: 'Llama 4 Maverick (Vision)', vision: true },
+  { id: 'llama-3.3-70b-versatile', label: 'Llama 3.3 70B (Text only)', vision: false },
+];
+
+export const BUILT_IN_PROVIDERS: ProviderConfig[] = [
+  {
+    id: 'gemini',
+    label: 'Gemini',
+    kind: 'gemini',
+    model: 'gemini-3-flash-preview',
+    requiresKey: true,
+    builtIn: true,
+    capabilities: { vision: true, jsonMode: true, maxImageSize: 3072, maxImages: 8 },
+    limits: { concurrency: 5, requestsPerMinute: 60 },
+  },
+  {
+    id: 'groq',
+    label: 'Groq',
+    kind: 'openai-compatible',
+    baseUrl: 'https://api.groq.com/openai/v1',
+    model: GROQ_MODELS[0].id,
+    requiresKey: true,
+    builtIn: true,
+    capabilities: { vision: true, jsonMode: true, maxImageSize: 1568, maxImages: 5 },
+    limits: { concurrency: 3, requestsPerMinute: 30, tokensPerMinute: 30000 },
+  },
+  {
+    id: 'local',
+    label: 'Local',
+    kind: 'openai-compatible',
+    baseUrl: 'http://localhost:11434/v1',
+    model: '',
+    requiresKey: false,
+    local: true,
+    builtIn: true,
+    capabilities: { vision: true, jsonMode: true, maxImageSize: 1024, maxImages: 4 },
+    limits: { concurrency: 1 },
+  },
+];
+
+// Starting points for the "Add endpoint" form; every field stays editable
+export const PROVIDER_TEMPLATES: Omit<ProviderConfig, 'id'>[] = [
+  {
+    label: 'OpenRouter',
+    kind: 'openai-compatible',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    model: 'google/gemini-2.5-flash',
+    requiresKey: true,
+    capabilities: { vision: true, jsonMode: true, maxImageSize: 2048, maxImages: 8 },
+    limits: { concurrency: 4, requestsPerMinute: 20 },
+  },
+  {
+    label: 'Ollama',
+    kind: 'openai-compatible',
+    baseUrl: 'http://localhost:11434/v1',
+    model: 'llava',
+    requiresKey: false,
+    local: true,
+    capabilities: { vision: true, jsonMode: true, maxImageSize: 1024, maxImages: 4 },
+    limits: { concurrency: 1 },
+  },
+  {
+    label: 'LM Studio',
+    kind: 'openai-compatible',
+    baseUrl: 'http://localhost:1234/v1',
+    model: 'qwen2-vl-7b-instruct',
+    requiresKey: false,
+    local: true,
+    capabilities: { vision: true, jsonMode: false, maxImageSize: 1024, maxImages: 4 },
+    limits: { concurrency: 1 },
+  },
+];
+
+const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+// Downscales an image so its longest side fits the provider's limit
+const fitImage = async (image: Blob, maxSize: number): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = maxSize / Math.max(bitmap.width, bitmap.height);
+    if (scale >= 1) {
+      bitmap.close();
+      return image;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise(resolve => canvas.toBlob(b => resolve(b || image), 'image/jpeg', 0.9));
+  } catch {
+    return image;
+  }
+};
+
+const prepareImages = (images: Blob[], capabilities: ProviderCapabilities): Promise<Blob[]> => {
+  if (!capabilities.vision) return Promise.resolve([]);
+  return Promise.all(images.slice(0, capabilities.maxImages).map(img => fitImage(img, capabilities.maxImageSize)));
+};
+
+// Models without a JSON mode tend to wrap the object in prose or code fences
+const asModelResponse = (value: unknown): ModelResponse => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) throw new ProviderError('Model did not return a JSON object');
+  return value as ModelResponse;
+};
+
+const parseJsonResponse = (text: string): ModelResponse => {
+  try {
+    return asModelResponse(JSON.parse(text));
+  } catch (error) {
+    if (error instanceof ProviderError) throw error;
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) throw new ProviderError('Model did not return JSON');
+    return asModelResponse(JSON.parse(text.slice(start, end + 1)));
+  }
+};
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const createGeminiProvider = (config: ProviderConfig): MetadataProvider => ({
+  config,
+  capabilities: config.capabilities,
+  generate: async ({ system, prompt, images, signal, response: responseKind = 'metadata' }) => {
+    // CRITICAL: Always create new instance to use most up-to-date API key
+    const ai = new GoogleGenAI({ apiKey: getGeminiApiKey() });
+    const parts: any[] = [{ text: prompt }];
+    for (const image of await prepareImages(images, config.capabilities)) {
+      parts.push({ inlineData: { mimeType: image.type, data: await blobToBase64(image) } });
+    }
+
+    const response = await ai.models.generateContent({
+      model: config.model,
+      contents: { parts },
+      config: {
+        systemInstruction: system,
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: responseKind === 'keywords' ? {
+          type: Type.OBJECT,
+          properties: { keywords: { type: Type.STRING } },
+          required: ["keywords"],
+        } : responseKind === 'translation' ? {
+          type: Type.OBJECT,
+          properties: {
+            translations: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  language: { type: Type.STRING },
+                  title: { type: Type.STRING },
+                  description: { type: Type.STRING },
+                  keywords: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: { source: { type: Type.STRING }, translation: { type: Type.STRING } },
+                      required: ["source", "translation"],
+                    },
+                  },
+                },
+                required: ["language", "keywords"],
+              },
+            },
+          },
+          required: ["translations"],
+        } : {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            description: { type: Type.STRING },
+            keywords: { type: Type.STRING },
+            mainTag: { type: Type.STRING },
+            category1: { type: Type.STRING },
+            category2: { type: Type.STRING },
+            adobeCategory: { type: Type.STRING },
+            dreamstimeCategory1: { type: Type.STRING },
+            dreamstimeCategory2: { type: Type.STRING },
+            rights: {
+              type: Type.OBJECT,
+              properties: {
+                people: { type: Type.ARRAY, items: { type: Type.STRING } },
+                logos: { type: Type.ARRAY, items: { type: Type.STRING } },
+                landmarks: { type: Type.ARRAY, items: { type: Type.STRING } },
+                mature: { type: Type.BOOLEAN },
+              },
+            },
+          },
+          required: ["title", "description", "keywords"],
+        },
+        temperature: 0.1,
+      },
+    });
+
+    return asModelResponse(JSON.parse(response.text || "{}"));
+  },
+});
+
+const createOpenAICompatibleProvider = (config: ProviderConfig): MetadataProvider => ({
+  config,
+  capabilities: config.capabilities,
+  generate: async ({ system, prompt, images, signal }) => {
+    if (!config.model) throw new ProviderError(`No model selected for ${config.label}. Pick one in provider settings.`);
+    const prepared = await prepareImages(images, config.capabilities);
+    const imageParts = await Promise.all(prepared.map(async (image) => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.type};base64,${await blobToBase64(image)}` },
+    })));
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${(config.baseUrl || '').replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: 0.1,
+        messages: [
+          { role: 'system', content: system },
+          {
+            role: 'user',
+            content: imageParts.length > 0 ? [{ type: 'text', text: prompt }, ...imageParts] : prompt,
+          },
+        ],
+        ...(config.capabilities.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const err = await response.json().catch(() => ({}));
+      throw new ProviderError(
+        err.error?.message || `${config.label} API Error ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    const json = await response.json();
+    return parseJsonResponse(json.choices?.[0]?.message?.content || '');
+  },
+});
+
+export interface ProbeResult {
+  healthy: boolean;
+  models: string[];
+  latencyMs: number;
+  error?: string;
+}
+
+const fetchWithTimeout = (url: string, init: RequestInit = {}, timeoutMs = 4000): Promise<Response> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  return fetch(url, { ...init, signal: controller.signal }).finally(() => clearTimeout(timer));
+};
+
+// Checks that an OpenAI-compatible server answers and lists its models.
+// llama.cpp server exposes /health next to /v1; Ollama answers on its root.
+export const probeProvider = async (config: ProviderConfig): Promise<ProbeResult> => {
+  const started = performance.now();
+  const baseUrl = (config.baseUrl || '').replace(/\/$/, '');
+  const root = baseUrl.replace(/\/v1$/, '');
+  const headers: Record<string, string> = config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+
+  try {
+    let healthy = false;
+    for (const url of [`${root}/health`, root]) {
+      const res = await fetchWithTimeout(url).catch(() => null);
+      if (res?.ok) {
+        healthy = true;
+        break;
+      }
+    }
+
+    const res = await fetchWithTimeout(`${baseUrl}/models`, { headers });
+    if (!res.ok) throw new ProviderError(`Model list request failed (${res.status})`, res.status);
+    const json = await res.json();
+    const models: string[] = (json.data || json.models || [])
+      .map((m: { id?: string; name?: string; model?: string }) => m.id || m.name || m.model)
+      .filter(Boolean);
+
+    // A server still loading its model lists models but fails /health
+    return { healthy, models, latencyMs: Math.round(performance.now() - started) };
+  } catch (error) {
+    return {
+      healthy: false,
+      models: [],
+      latencyMs: Math.round(performance.now() - started),
+      error: error instanceof Error && error.name === 'AbortError' ? 'Server did not respond' : errorMessage(error) || 'Server unreachable',
+    };
+  }
+};
+
+// Holds each request until `acquire` lets it through, so follow-up and
+// translation requests count against the same rate budget as the first
+export const withRequestBudget = (provider: MetadataProvider, acquire: (request: MetadataRequest) => Promise<void>): MetadataProvider => ({
+  ...provider,
+  generate: async (request) => {
+    await acquire(request);
+    return provider.generate(request);
+  },
+});
+
+// Loopback servers work offline and keep images on this machine
+export const isLocalUrl = (baseUrl?: string): boolean => {
+  try {
+    const { hostname } = new URL(baseUrl || '');
+    return hostname === 'localhost' || hostname === '[::1]' || hostname === '0.0.0.0' || /^127\./.test(hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const createProvider = (config: ProviderConfig): MetadataProvider =>
+  config.kind === 'gemini' ? createGeminiProvider(config) : createOpenAICompatibleProvider(config);
+
+const PROVIDERS_KEY = 'tabo_providers';
+
+// Built-ins are always present; saved entries override their editable fields
+// (model, key, limits) and append user-defined endpoints.
+export const loadProviderConfigs = (): ProviderConfig[] => {
+  let saved: ProviderConfig[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(PROVIDERS_KEY) || '[]');
+  } catch (e) {
+    console.error("Failed to restore providers", e);
+  }
+  const legacyGroqKey = localStorage.getItem('tabo_groq_key') || undefined;
+
+  const builtIns = BUILT_IN_PROVIDERS.map(base => {
+    const override = saved.find(p => p.id === base.id);
+    const apiKey = override?.apiKey ?? (base.id === 'groq' ? legacyGroqKey : undefined);
+    const model = override?.model || base.model;
+    const baseUrl = override?.baseUrl || base.baseUrl;
+    const groqModel = base.id === 'groq' ? GROQ_MODELS.find(m => m.id === model) : undefined;
+    return {
+      ...base,
+      model,
+      baseUrl,
+      local: base.kind === 'gemini' ? undefined : isLocalUrl(baseUrl) || undefined,
+      apiKey,
+      limits: override?.limits || base.limits,
+      capabilities: groqModel ? { ...base.capabilities, vision: groqModel.vision } : base.capabilities,
+    };
+  });
+  const custom = saved
+    .filter(p => !p.builtIn)
+    .map(p => ({ ...p, local: isLocalUrl(p.baseUrl) || undefined, limits: p.limits || { concurrency: 2 } }));
+  return [...builtIns, ...custom];
+};
+
+export const saveProviderConfigs = (configs: ProviderConfig[]) => {
+  localStorage.setItem(PROVIDERS_KEY, JSON.stringify(configs));
+};
@@ -0,0 +1,43 @@
+import { Asset, FileRevision } from "../types";
+
+const REVISION_JPEG_QUALITY = 0.95;
+
+// Portals want JPEGs, and only JPEGs can carry embedded XMP/IPTC, so edit
+// output is re-encoded on a white background (PNG edits may be transparent).
+const toJpeg = async (image: Blob): Promise<Blob> => {
+  if (image.type === 'image/jpeg') return image;
+  const bitmap = await createImageBitmap(image);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Failed to encode JPEG'))), 'image/jpeg', REVISION_JPEG_QUALITY);
+  });
+};
+
+// "beach.jpg" becomes "beach_edit1.jpg", "beach_edit2.jpg" and so on
+export const createRevision = async (asset: Asset, image: Blob, prompt: string): Promise<FileRevision> => {
+  const number = (asset.revisions?.length || 0) + 1;
+  const name = `${asset.name.replace(/\.[^.]+$/, '')}_edit${number}.jpg`;
+  const jpeg = await toJpeg(image);
+  return {
+    id: crypto.randomUUID(),
+    file: new File([jpeg], name, { type: 'image/jpeg' }),
+    prompt,
+    createdAt: Date.now(),
+  };
+};
+
+export const revisionLabel = (asset: Asset, revisionId?: string): string => {
+  const index = asset.revisions?.findIndex(r => r.id === revisionId) ?? -1;
+  return index === -1 ? 'Original' : `Edit ${index + 1}`;
+};
+
+export const getCurrentRevision = (asset: Asset): FileRevision | undefined =>
+  asset.currentRevisionId ? asset.revisions?.find(r => r.id === asset.currentRevisionId) : undefined;
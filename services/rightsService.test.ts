@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { Asset, RightsAssessment } from "../types";
+import { dismissFlag, mergeRightsAssessment, setMature } from "./rightsService";
+
+const assessment = (fields: Partial<RightsAssessment> = {}): RightsAssessment =>
+  ({ people: ['woman in red coat'], logos: ['Nike swoosh'], landmarks: [], mature: false, ...fields });
+
+describe("mergeRightsAssessment", () => {
+  it("takes the new assessment when the user made no calls", () => {
+    const next = assessment({ mature: true });
+    expect(mergeRightsAssessment(assessment(), next)).toEqual(next);
+  });
+
+  it("keeps the user's mature call and dismissed flags", () => {
+    let asset = { rights: assessment() } as Asset;
+    asset = setMature(asset, true);
+    asset = dismissFlag(asset, 'logos', 'Nike swoosh');
+    const merged = mergeRightsAssessment(asset.rights, assessment({ people: [], mature: false }));
+    expect(merged).toMatchObject({ people: [], logos: [], mature: true });
+  });
+
+  it("keeps the previous assessment when the model returned none", () => {
+    const previous = assessment();
+    expect(mergeRightsAssessment(previous, undefined)).toBe(previous);
+  });
+});
@@ -0,0 +1,79 @@
+import { Asset, Platform, RightsAssessment } from "../types";
+import { EDITORIAL_DATELINE, MONTHS, PLATFORM_RULES } from "../constants";
+import { truncateText } from "./validationService";
+
+const toList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : []).map(v => String(v ?? '').trim()).filter(Boolean);
+
+// The "rights" object of a generation response, or undefined when the model left it out
+export const parseRightsAssessment = (value: unknown): RightsAssessment | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const rights = value as Record<string, unknown>;
+  return {
+    people: toList(rights.people),
+    logos: toList(rights.logos),
+    landmarks: toList(rights.landmarks),
+    mature: rights.mature === true || rights.mature === 'true',
+  };
+};
+
+// Flags no release can clear: people without a model release, and logos
+export const suggestsEditorial = (asset: Asset): boolean =>
+  Boolean(asset.rights && ((asset.rights.people.length > 0 && !asset.modelReleases?.length) || asset.rights.logos.length > 0));
+
+// "Bled, Slovenia - May 01, 2024", or null without a place and capture date
+export const editorialDateline = (asset: Asset): string | null => {
+  const location = asset.stripLocation ? undefined : asset.location;
+  const place = location?.city || location?.region;
+  const capturedAt = asset.exif?.capturedAt;
+  if (!location || !place || !capturedAt) return null;
+  const [year, month, day] = capturedAt.slice(0, 10).split('-');
+  return `${place}, ${location.country} - ${MONTHS[Number(month) - 1]} ${day}, ${year}`;
+};
+
+const stripDateline = (description: string): string => description.replace(EDITORIAL_DATELINE, '');
+
+// The caption is shortened, never the dateline, when both don't fit
+const withDateline = (description: string, dateline: string, platform: Platform): string => {
+  const prefix = `${dateline}: `;
+  return prefix + truncateText(stripDateline(description), PLATFORM_RULES[platform].description.max - prefix.length);
+};
+
+// Switching to editorial prefixes every platform's description with the
+// dateline where one can be built; switching back removes it.
+export const setEditorial = (asset: Asset, editorial: boolean): Asset => {
+  const dateline = editorialDateline(asset);
+  const metadata = Object.fromEntries(Object.entries(asset.metadata).map(([p, m]) => {
+    const description = !editorial ? stripDateline(m!.description)
+      : dateline && p !== 'Teepublic' && m!.description.trim() ? withDateline(m!.description, dateline, p as Platform)
+      : m!.description;
+    return [p, { ...m!, description }];
+  }));
+  return { ...asset, editorial: editorial || undefined, metadata };
+};
+
+// Overrides the model's call; Shutterstock's Mature Content column follows it
+export const setMature = (asset: Asset, mature: boolean): Asset =>
+  ({ ...asset, rights: { ...(asset.rights || { people: [], logos: [], landmarks: [] }), mature, matureSetByUser: true } });
+
+export const dismissFlag = (asset: Asset, kind: 'people' | 'logos' | 'landmarks', flag: string): Asset =>
+  asset.rights ? {
+    ...asset,
+    rights: { ...asset.rights, [kind]: asset.rights[kind].filter(f => f !== flag), dismissed: [...(asset.rights.dismissed || []), flag] },
+  } : asset;
+
+// A fresh assessment from regeneration, with the user's mature call and
+// dismissed flags carried over from the previous one
+export const mergeRightsAssessment = (previous: RightsAssessment | undefined, next: RightsAssessment | undefined): RightsAssessment | undefined => {
+  if (!next || !previous) return next || previous;
+  const dismissed = previous.dismissed || [];
+  const keep = (flags: string[]) => flags.filter(f => !dismissed.includes(f));
+  return {
+    people: keep(next.people),
+    logos: keep(next.logos),
+    landmarks: keep(next.landmarks),
+    mature: previous.matureSetByUser ? previous.mature : next.mature,
+    matureSetByUser: previous.matureSetByUser,
+    dismissed: previous.dismissed,
+  };
+};
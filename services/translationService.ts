@@ -0,0 +1,162 @@
+import { Asset, Language, LocalizedMetadata, Platform } from "../types";
+import { LANGUAGES } from "../constants";
+import { getMetadata } from "./metadataService";
+import { EngineContext } from "./geminiService";
+import { sanitizeText } from "./validationService";
+
+const GLOSSARY_KEY = 'tabo_keyword_translations';
+
+// English keyword (lowercased) -> its translation, per language. Shared by
+// every asset and project so a keyword is always translated the same way.
+export type KeywordGlossary = Partial<Record<Language, Record<string, string>>>;
+
+export const loadGlossary = (): KeywordGlossary => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GLOSSARY_KEY) || '{}');
+    return saved && typeof saved === 'object' ? saved : {};
+  } catch (e) {
+    console.error("Failed to restore keyword translations", e);
+    return {};
+  }
+};
+
+export const saveGlossary = (glossary: KeywordGlossary) => {
+  localStorage.setItem(GLOSSARY_KEY, JSON.stringify(glossary));
+};
+
+export const languageName = (code: Language): string => LANGUAGES.find(l => l.code === code)?.name || code;
+
+const glossaryKey = (keyword: string) => keyword.trim().toLowerCase();
+
+const splitKeywords = (keywords: string) => keywords.split(',').map(k => k.trim()).filter(Boolean);
+
+// The English keywords in `language`, in the same order. Keywords the
+// glossary has no entry for stay in English and are reported as missing.
+export const localizeKeywords = (keywords: string, language: Language, glossary: KeywordGlossary): { keywords: string[]; missing: string[] } => {
+  const entries = glossary[language] || {};
+  const seen = new Set<string>();
+  const translated: string[] = [];
+  const missing: string[] = [];
+  splitKeywords(keywords).forEach(k => {
+    const entry = entries[glossaryKey(k)];
+    if (!entry) missing.push(k);
+    const translation = entry || k;
+    // Two English keywords can share a translation
+    const key = translation.toLowerCase();
+    if (seen.has(key)) return;
+    seen.add(key);
+    translated.push(translation);
+  });
+  return { keywords: translated, missing };
+};
+
+export const getLocalized = (asset: Asset, platform: Platform, language: Language): LocalizedMetadata | undefined =>
+  asset.localized?.[platform]?.[language];
+
+// A translation goes stale once the English title or description changes
+export const isStale = (asset: Asset, platform: Platform, language: Language): boolean => {
+  const localized = getLocalized(asset, platform, language);
+  const metadata = getMetadata(asset, platform);
+  return Boolean(localized && (localized.sourceTitle !== metadata.title || localized.sourceDescription !== metadata.description));
+};
+
+export const needsTranslation = (asset: Asset, platform: Platform, language: Language, glossary: KeywordGlossary): boolean =>
+  !getLocalized(asset, platform, language)
+  || isStale(asset, platform, language)
+  || localizeKeywords(getMetadata(asset, platform).keywords, language, glossary).missing.length > 0;
+
+export const updateLocalizedField = (asset: Asset, platform: Platform, language: Language, field: 'title' | 'description', value: string): Asset => {
+  const localized = getLocalized(asset, platform, language);
+  if (!localized) return asset;
+  return {
+    ...asset,
+    localized: { ...asset.localized, [platform]: { ...asset.localized![platform], [language]: { ...localized, [field]: value } } },
+  };
+};
+
+// One language of a translation response, as the model returned it
+interface TranslationEntry {
+  language?: unknown;
+  title?: unknown;
+  description?: unknown;
+  keywords?: unknown;
+}
+
+export interface TranslationResult {
+  localized: Partial<Record<Language, LocalizedMetadata>>;
+  // Only the keyword pairs this request added
+  glossary: KeywordGlossary;
+}
+
+// Translates an asset's title and description for one platform where no
+// current translation exists, plus the keywords the glossary does not know
+// yet. Known keywords and up-to-date (possibly hand-edited) text are never sent.
+export const translateMetadata = async (
+  asset: Asset,
+  platform: Platform,
+  languages: Language[],
+  glossary: KeywordGlossary,
+  context: EngineContext
+): Promise<TranslationResult> => {
+  const metadata = getMetadata(asset, platform);
+  const missing = Object.fromEntries(languages.map(l => [l, localizeKeywords(metadata.keywords, l, glossary).missing])) as Record<Language, string[]>;
+  const textLanguages = languages.filter(l => !getLocalized(asset, platform, l) || isStale(asset, platform, l));
+
+  const source = [
+    textLanguages.length > 0 && metadata.title ? `TITLE: ${metadata.title}` : '',
+    textLanguages.length > 0 && metadata.description ? `DESCRIPTION: ${metadata.description}` : '',
+    ...languages.filter(l => missing[l].length > 0).map(l => `KEYWORDS FOR ${l}: ${missing[l].join(', ')}`),
+  ].filter(Boolean).join('\n    ');
+
+  const prompt = `
+    Translate this stock media metadata from English into: ${languages.map(l => `${languageName(l)} (${l})`).join(', ')}.
+    ${textLanguages.length > 0 ? `Translate the title and description for: ${textLanguages.join(', ')}. Leave them empty for other languages.` : 'Only keywords need translating; leave title and description empty.'}
+    Write the phrasing a buyer searching in that language would use; keep place names in their usual local form.
+    Translate each keyword on its own as a single search term. Do not add, merge or drop keywords.
+
+    ${source}
+
+    STRICT JSON OUTPUT:
+    { "translations": [ { "language": "${languages[0]}", "title": "string", "description": "string", "keywords": [ { "source": "english keyword", "translation": "string" } ] } ] }
+  `;
+
+  const data = await context.provider.generate({
+    system: 'You are a professional stock media translator. Output raw JSON only.',
+    prompt,
+    images: [],
+    signal: context.signal,
+    response: 'translation',
+  });
+
+  const localized: Partial<Record<Language, LocalizedMetadata>> = {};
+  const added: KeywordGlossary = {};
+  (Array.isArray(data.translations) ? data.translations : []).forEach((t: TranslationEntry) => {
+    const language = languages.find(l => l === String(t?.language || '').trim().toLowerCase());
+    if (!language) return;
+    if (textLanguages.includes(language)) localized[language] = {
+      title: metadata.title ? sanitizeText(String(t.title || ''), 'title', platform) : '',
+      description: metadata.description ? sanitizeText(String(t.description || ''), 'description', platform) : '',
+      sourceTitle: metadata.title,
+      sourceDescription: metadata.description,
+    };
+    const wanted = new Set(missing[language].map(glossaryKey));
+    const pairs = (Array.isArray(t.keywords) ? t.keywords : [])
+      .map((k: { source?: unknown; translation?: unknown }) => [glossaryKey(String(k?.source || '')), String(k?.translation || '').trim()] as const)
+      .filter(([source, translation]: readonly [string, string]) => wanted.has(source) && translation && !translation.includes(','));
+    added[language] = Object.fromEntries(pairs);
+  });
+  return { localized, glossary: added };
+};
+
+export const mergeGlossary = (glossary: KeywordGlossary, added: KeywordGlossary): KeywordGlossary => {
+  const merged: KeywordGlossary = { ...glossary };
+  (Object.keys(added) as Language[]).forEach(l => {
+    merged[l] = { ...merged[l], ...added[l] };
+  });
+  return merged;
+};
+
+export const withLocalized = (asset: Asset, platform: Platform, localized: Partial<Record<Language, LocalizedMetadata>>): Asset => ({
+  ...asset,
+  localized: { ...asset.localized, [platform]: { ...asset.localized?.[platform], ...localized } },
+});
@@ -0,0 +1,135 @@
+import { Asset, Metadata, Platform } from "../types";
+import { EDITORIAL_DATELINE, PLATFORM_RULES } from "../constants";
+import { getMetadata } from "./metadataService";
+import { parseKeywords, keywordKey } from "./keywordService";
+import { IpMatch, isBlocking, isOverridden, screenAsset } from "./ipScreeningService";
+
+export type IssueLevel = 'error' | 'warning';
+
+export interface ValidationIssue {
+  // 'rights' covers the license type and releases rather than a text field
+  field: keyof Metadata | 'rights';
+  level: IssueLevel;
+  message: string;
+}
+
+export interface ComplianceEntry {
+  asset: Asset;
+  issues: ValidationIssue[];
+}
+
+const FIELD_LABELS: Partial<Record<keyof Metadata, string>> = {
+  title: 'Title',
+  description: 'Description',
+  keywords: 'Keywords',
+  mainTag: 'Main tag',
+  category1: 'Category 1',
+  category2: 'Category 2',
+  adobeCategory: 'Category',
+  dreamstimeCategory1: 'Category 1',
+  dreamstimeCategory2: 'Category 2',
+};
+
+const escapeForClass = (chars: string) => chars.replace(/[\]\\^-]/g, '\\$&');
+
+export const stripForbiddenChars = (value: string, platform: Platform): string => {
+  const chars = PLATFORM_RULES[platform].forbiddenChars;
+  return chars ? value.replace(new RegExp(`[${escapeForClass(chars)}]`, 'g'), '') : value;
+};
+
+// Cuts at the last word boundary that fits so titles never end mid-word
+export const truncateText = (value: string, max: number): string => {
+  if (value.length <= max) return value;
+  const cut = value.slice(0, max + 1);
+  const boundary = cut.lastIndexOf(' ');
+  return (boundary > max * 0.6 ? cut.slice(0, boundary) : value.slice(0, max)).replace(/[\s,;:.-]+$/, '');
+};
+
+export const sanitizeText = (value: string, field: 'title' | 'description', platform: Platform): string =>
+  truncateText(stripForbiddenChars(value, platform).replace(/\s+/g, ' ').trim(), PLATFORM_RULES[platform][field].max);
+
+export const validateMetadata = (metadata: Metadata, platform: Platform): ValidationIssue[] => {
+  const rules = PLATFORM_RULES[platform];
+  const issues: ValidationIssue[] = [];
+  const add = (field: keyof Metadata, level: IssueLevel, message: string) => issues.push({ field, level, message });
+
+  rules.required.forEach(field => {
+    if (!String(metadata[field] ?? '').trim()) add(field, 'error', `${FIELD_LABELS[field]} is required`);
+  });
+
+  (['title', 'description'] as const).forEach(field => {
+    const value = metadata[field];
+    const { min, max } = rules[field];
+    if (value.length > max) add(field, 'error', `${FIELD_LABELS[field]} is ${value.length}/${max} characters`);
+    else if (value.trim() && value.trim().length < min) add(field, 'error', `${FIELD_LABELS[field]} needs at least ${min} characters`);
+    const bad = [...new Set(value.split('').filter(c => rules.forbiddenChars.includes(c)))];
+    if (bad.length > 0) add(field, 'error', `${FIELD_LABELS[field]} contains ${bad.join(' ')}`);
+  });
+
+  const keywords = parseKeywords(metadata.keywords);
+  // An empty list is already reported by the required-field check
+  if (keywords.length > 0) {
+    if (keywords.length > rules.keywords.max) add('keywords', 'error', `${keywords.length} keywords, ${platform} accepts at most ${rules.keywords.max}`);
+    else if (keywords.length < rules.keywords.min) add('keywords', 'error', `${keywords.length} keywords, ${platform} needs at least ${rules.keywords.min}`);
+    else if (keywords.length < rules.keywords.target) add('keywords', 'warning', `${keywords.length} of ${rules.keywords.target} recommended keywords`);
+  }
+  const duplicates = keywords.length - new Set(keywords.map(keywordKey)).size;
+  if (duplicates > 0) add('keywords', 'warning', `${duplicates} duplicate keyword${duplicates > 1 ? 's' : ''}`);
+  const forbidden = keywords.filter(k => rules.forbiddenKeywords.includes(k));
+  if (forbidden.length > 0) add('keywords', 'error', `Not allowed on ${platform}: ${forbidden.join(', ')}`);
+
+  Object.entries(rules.categories).forEach(([field, options]) => {
+    const value = metadata[field as keyof Metadata];
+    if (value && !options?.includes(value)) add(field as keyof Metadata, 'error', `${FIELD_LABELS[field as keyof Metadata]} "${value}" is not a ${platform} category`);
+  });
+
+  return issues;
+};
+
+// Commercial use needs releases for what the model flagged; editorial use
+// needs the dateline caption. Teepublic sells prints and has no editorial license.
+export const validateRights = (asset: Asset, platform: Platform): ValidationIssue[] => {
+  if (platform === 'Teepublic') return [];
+  const issues: ValidationIssue[] = [];
+  const rights = asset.rights;
+
+  if (asset.editorial) {
+    const description = getMetadata(asset, platform).description;
+    if (description.trim() && !EDITORIAL_DATELINE.test(description)) {
+      issues.push({ field: 'description', level: 'error', message: 'Editorial captions must start with "City, Country - Month DD, YYYY: "' });
+    }
+    return issues;
+  }
+  if (rights?.people.length && !asset.modelReleases?.length) {
+    issues.push({ field: 'rights', level: 'error', message: `Recognizable people (${rights.people.join(', ')}) need a model release or an editorial license` });
+  }
+  if (rights?.landmarks.length && !asset.propertyReleases?.length) {
+    issues.push({ field: 'rights', level: 'warning', message: `${rights.landmarks.join(', ')} may need a property release` });
+  }
+  return issues;
+};
+
+const IP_LABELS: Record<IpMatch['category'], string> = {
+  brand: 'Trademark',
+  character: 'Copyrighted character',
+  celebrity: 'Celebrity name',
+  logo: 'Visible logo',
+};
+
+const describeIpMatch = (match: IpMatch): string =>
+  match.exact ? `${IP_LABELS[match.category]}: ${match.term}` : `"${match.found}" resembles ${IP_LABELS[match.category].toLowerCase()} ${match.term}`;
+
+// Blocklist and logo matches the user hasn't cleared. Exact matches block
+// the export; near misses and everyday words only warn.
+export const validateIp = (asset: Asset, platform: Platform, matches = screenAsset(asset, platform)): ValidationIssue[] =>
+  matches
+    .filter(match => !isOverridden(asset, match))
+    .map(match => ({ field: match.field, level: isBlocking(asset, platform, match) ? 'error' : 'warning', message: describeIpMatch(match) }));
+
+export const hasErrors = (issues: ValidationIssue[]) => issues.some(i => i.level === 'error');
+
+// Every asset about to be exported that has at least one issue
+export const buildComplianceReport = (assets: Asset[], platform: Platform): ComplianceEntry[] =>
+  assets
+    .map(asset => ({ asset, issues: [...validateMetadata(getMetadata(asset, platform), platform), ...validateRights(asset, platform), ...validateIp(asset, platform)] }))
+    .filter(entry => entry.issues.length > 0);
@@ -0,0 +1,114 @@
+import { Asset } from "../types";
+import { getCurrentRevision } from "./revisionService";
+
+const RASTER_SIZE = 1024;
+
+export interface VectorEntry {
+  file: File;
+  companion?: File;
+}
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase();
+
+export const isSvgFile = (file: File) => file.type.includes('svg') || /\.svg$/i.test(file.name);
+
+export const isVectorSource = (file: File) => /\.(eps|ai)$/i.test(file.name);
+
+const isRasterPreview = (file: File) => /\.(jpe?g|png)$/i.test(file.name);
+
+// Stock portals take vectors as an EPS/AI source plus a same-named JPG preview.
+// Such pairs collapse into one entry; every other file passes through untouched.
+export const pairVectorFiles = (files: File[]): VectorEntry[] => {
+  const previews = new Map(files.filter(isRasterPreview).map(f => [baseName(f.name), f]));
+  const paired = new Set<File>();
+  const companions = new Map<File, File>();
+
+  files.filter(isVectorSource).forEach(source => {
+    const preview = previews.get(baseName(source.name));
+    if (preview && !paired.has(preview)) {
+      paired.add(preview);
+      companions.set(source, preview);
+    }
+  });
+
+  return files
+    .filter(f => !paired.has(f))
+    .map(f => ({ file: f, companion: companions.get(f) }));
+};
+
+const PX_PER_UNIT: Record<string, number> = { '': 1, px: 1, pt: 4 / 3, pc: 16, mm: 96 / 25.4, cm: 96 / 2.54, in: 96 };
+
+// An absolute width or height in pixels. Percentages and font-relative
+// lengths depend on a container the file doesn't have.
+const svgLength = (value: string | null): number | undefined => {
+  const match = value?.trim().match(/^(\d*\.?\d+(?:e[+-]?\d+)?)\s*(px|pt|pc|mm|cm|in)?$/i);
+  const length = match ? parseFloat(match[1]) * PX_PER_UNIT[(match[2] || '').toLowerCase()] : NaN;
+  return length > 0 ? length : undefined;
+};
+
+// A missing or relative dimension is taken from the viewBox, keeping its
+// aspect ratio when the other dimension is known
+const readSvgSize = async (file: Blob): Promise<{ width: number; height: number }> => {
+  const text = await file.text();
+  const svg = new DOMParser().parseFromString(text, 'image/svg+xml').documentElement;
+  const width = svgLength(svg.getAttribute('width'));
+  const height = svgLength(svg.getAttribute('height'));
+  if (width && height) return { width, height };
+  const [, , boxWidth, boxHeight] = svg.getAttribute('viewBox')?.trim().split(/[\s,]+/).map(Number) || [];
+  if (boxWidth > 0 && boxHeight > 0) {
+    if (width) return { width, height: (width * boxHeight) / boxWidth };
+    if (height) return { width: (height * boxWidth) / boxHeight, height };
+    return { width: boxWidth, height: boxHeight };
+  }
+  return { width: width || RASTER_SIZE, height: height || RASTER_SIZE };
+};
+
+// Renders an SVG onto a white canvas whose longest side is `size` pixels
+export const rasterizeSvg = async (file: File, size = RASTER_SIZE): Promise<File> => {
+  const { width, height } = await readSvgSize(file);
+  const scale = size / Math.max(width, height);
+  const url = URL.createObjectURL(file.type ? file : new Blob([file], { type: 'image/svg+xml' }));
+
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error(`Unable to render ${file.name}`));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Failed to encode PNG'))), 'image/png');
+    });
+    return new File([blob], `${file.name.replace(/\.svg$/i, '')}.png`, { type: 'image/png' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// The bitmap the vision model should look at, or null when there is none
+export const getAnalysisImage = async (asset: Asset): Promise<Blob | null> => {
+  const revision = getCurrentRevision(asset);
+  if (revision) return revision.file;
+  if (asset.rasterFile) return asset.rasterFile;
+  if (isSvgFile(asset.file) && asset.file.size > 0) return rasterizeSvg(asset.file);
+  if (asset.file.type.startsWith('image/')) return asset.file;
+  return null;
+};
+
+// Filenames that are submitted to the portal for this asset. A chosen edit
+// is a standalone JPEG and replaces the original, companion included.
+export const submissionNames = (asset: Asset): string[] => {
+  const revision = getCurrentRevision(asset);
+  if (revision) return [revision.file.name];
+  return asset.companionName ? [asset.name, asset.companionName] : [asset.name];
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { formatVideoProperties } from "./videoService";
+
+describe("formatVideoProperties", () => {
+  it.each([
+    [59.6, '1:00'], [119.5, '2:00'], [61.4, '1:01'], [5, '0:05'], [0, '0:00'],
+  ])("rounds %s seconds before splitting into %s", (duration, formatted) => {
+    expect(formatVideoProperties({ duration, width: 1920, height: 1080 })).toBe(`${formatted} • 1920×1080`);
+  });
+
+  it("adds the frame rate when known", () => {
+    expect(formatVideoProperties({ duration: 30, width: 3840, height: 2160, fps: 23.976 })).toBe('0:30 • 3840×2160 • 23.976 fps');
+  });
+});
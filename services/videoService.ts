@@ -0,0 +1,142 @@
+import { VideoProperties } from "../types";
+
+const DEFAULT_FRAME_COUNT = 4;
+const MAX_FRAME_SIZE = 1024;
+const FPS_SAMPLE_FRAMES = 12;
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60, 120];
+
+export interface VideoFrames {
+  frames: Blob[];
+  properties: VideoProperties;
+}
+
+const loadVideo = (file: Blob): Promise<HTMLVideoElement> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('Unable to decode video in this browser'));
+    video.src = URL.createObjectURL(file);
+  });
+};
+
+const releaseVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  URL.revokeObjectURL(video.src);
+  video.removeAttribute('src');
+  video.load();
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    video.onseeked = () => resolve();
+    video.onerror = () => reject(new Error(`Failed to seek video to ${time.toFixed(2)}s`));
+    video.currentTime = time;
+  });
+};
+
+const captureFrame = (video: HTMLVideoElement, maxSize: number): Promise<Blob> => {
+  const scale = Math.min(1, maxSize / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error('Failed to encode video frame'))), 'image/jpeg', 0.85);
+  });
+};
+
+// Browsers do not expose the container frame rate, so it is measured from the
+// media timestamps of consecutive presented frames and snapped to a standard rate.
+const measureFps = (video: HTMLVideoElement): Promise<number | undefined> => {
+  if (typeof video.requestVideoFrameCallback !== 'function') return Promise.resolve(undefined);
+
+  return new Promise((resolve) => {
+    const mediaTimes: number[] = [];
+    const finish = (fps?: number) => {
+      clearTimeout(timeout);
+      video.pause();
+      resolve(fps);
+    };
+    const timeout = setTimeout(() => finish(undefined), 3000);
+
+    const onFrame = (_now: number, meta: VideoFrameCallbackMetadata) => {
+      mediaTimes.push(meta.mediaTime);
+      if (mediaTimes.length < FPS_SAMPLE_FRAMES) {
+        video.requestVideoFrameCallback(onFrame);
+        return;
+      }
+      const deltas = mediaTimes.slice(1).map((t, i) => t - mediaTimes[i]).filter(d => d > 0).sort((a, b) => a - b);
+      if (deltas.length === 0) return finish(undefined);
+      const raw = 1 / deltas[Math.floor(deltas.length / 2)];
+      const snapped = COMMON_FRAME_RATES.find(rate => Math.abs(rate - raw) / rate < 0.02);
+      finish(snapped ?? Math.round(raw * 100) / 100);
+    };
+
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(() => finish(undefined));
+  });
+};
+
+const readProperties = async (video: HTMLVideoElement): Promise<VideoProperties> => ({
+  duration: Number.isFinite(video.duration) ? video.duration : 0,
+  width: video.videoWidth,
+  height: video.videoHeight,
+  fps: await measureFps(video),
+});
+
+export const probeVideo = async (file: Blob): Promise<VideoProperties> => {
+  const video = await loadVideo(file);
+  try {
+    return await readProperties(video);
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+// Evenly spaced keyframes, skipping the very first and last frames which are
+// often black or mid-transition
+const sampleFrames = async (video: HTMLVideoElement, duration: number, count: number, maxSize: number): Promise<Blob[]> => {
+  const frames: Blob[] = [];
+  for (let i = 0; i < count; i++) {
+    await seekTo(video, (duration * (i + 0.5)) / count);
+    frames.push(await captureFrame(video, maxSize));
+  }
+  return frames;
+};
+
+// Properties probed earlier are reused, sparing the playback needed to
+// measure the frame rate.
+export const extractVideoFrames = async (
+  file: Blob,
+  known?: VideoProperties,
+  count = DEFAULT_FRAME_COUNT,
+  maxSize = MAX_FRAME_SIZE
+): Promise<VideoFrames> => {
+  const video = await loadVideo(file);
+  try {
+    const properties = known || await readProperties(video);
+    return { frames: await sampleFrames(video, properties.duration, count, maxSize), properties };
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+// Keyframes alone, without playing the clip to measure its frame rate
+export const captureVideoFrames = async (file: Blob, count = DEFAULT_FRAME_COUNT, maxSize = MAX_FRAME_SIZE): Promise<Blob[]> => {
+  const video = await loadVideo(file);
+  try {
+    return await sampleFrames(video, Number.isFinite(video.duration) ? video.duration : 0, count, maxSize);
+  } finally {
+    releaseVideo(video);
+  }
+};
+
+export const formatVideoProperties = ({ duration, width, height, fps }: VideoProperties): string => {
+  const total = Math.round(duration);
+  const minutes = Math.floor(total / 60);
+  const seconds = (total % 60).toString().padStart(2, '0');
+  return [`${minutes}:${seconds}`, `${width}×${height}`, fps ? `${fps} fps` : null].filter(Boolean).join(' • ');
+};
@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+import * as buffer from "node:buffer";
+import { describe, expect, it, vi } from "vitest";
+import { Metadata } from "../types";
+import { JpegSegment, XmpTranslations, embedMetadata, readEmbeddedMetadata, readJpegSegments } from "./xmpService";
+
+// jsdom's Blob has no arrayBuffer(); the XMP code only needs DOMParser from it
+vi.stubGlobal('Blob', buffer.Blob);
+vi.stubGlobal('File', buffer.File);
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const METADATA: Metadata = {
+  title: 'Café terrace at night',
+  description: 'Empty café terrace on a cobbled street after rain',
+  keywords: 'café, terrace, night, street, rain',
+};
+
+const segment = (marker: number, payload: string | Uint8Array): Uint8Array => {
+  const data = typeof payload === 'string' ? encoder.encode(payload) : payload;
+  return new Uint8Array([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff, ...data]);
+};
+
+// SOI, JFIF, EXIF and ICC headers, then a stub scan that is copied verbatim
+const EXIF = 'Exif\0\0MM\0*\0\0\0\x08\0\0';
+const ICC = 'ICC_PROFILE\0\x01\x01stub';
+const SCAN = new Uint8Array([0xff, 0xda, 0, 2, 1, 2, 3, 0xff, 0xd9]);
+const jpeg = () => new File([
+  new Uint8Array([0xff, 0xd8]),
+  segment(0xe0, 'JFIF\0\x01\x01'),
+  segment(0xe1, EXIF),
+  segment(0xe2, ICC),
+  SCAN,
+], 'photo.jpg', { type: 'image/jpeg' });
+
+const embed = async (file: File, metadata: Metadata = METADATA, translations: XmpTranslations = {}) =>
+  new File([await embedMetadata(file, metadata, translations)], file.name, { type: 'image/jpeg' });
+
+const text = (s: JpegSegment) => decoder.decode(s.data);
+
+const iptcKeywords = (segments: JpegSegment[]): string[] => {
+  const block = segments.find(s => s.marker === 0xed)!.data;
+  const keywords: string[] = [];
+  for (let i = 0; i + 5 <= block.length; i++) {
+    if (block[i] !== 0x1c || block[i + 1] !== 2 || block[i + 2] !== 25) continue;
+    const size = (block[i + 3] << 8) | block[i + 4];
+    keywords.push(decoder.decode(block.subarray(i + 5, i + 5 + size)));
+  }
+  return keywords;
+};
+
+describe("embedMetadata", () => {
+  it("reads back the title, description and keywords it wrote", async () => {
+    expect(await readEmbeddedMetadata(await embed(jpeg()))).toEqual(METADATA);
+  });
+
+  it("writes translations as dc:title and dc:description language alternatives", async () => {
+    const file = await embed(jpeg(), METADATA, { de: { title: 'Caféterrasse bei Nacht', description: 'Leere Caféterrasse nach dem Regen' } });
+    const packet = text((await readJpegSegments(file))!.find(s => s.marker === 0xe1 && text(s).startsWith('http://ns.adobe.com/xap/'))!);
+    const doc = new DOMParser().parseFromString(packet.slice(packet.indexOf('<x:xmpmeta'), packet.lastIndexOf('<?xpacket')), 'application/xml');
+    const alternatives = (name: string) => Array.from(doc.getElementsByTagNameNS('http://purl.org/dc/elements/1.1/', name)[0].getElementsByTagName('rdf:li'))
+      .map(li => [li.getAttribute('xml:lang'), li.textContent]);
+
+    expect(alternatives('title')).toEqual([['x-default', METADATA.title], ['en', METADATA.title], ['de', 'Caféterrasse bei Nacht']]);
+    expect(alternatives('description')).toEqual([['x-default', METADATA.description], ['en', METADATA.description], ['de', 'Leere Caféterrasse nach dem Regen']]);
+    expect(await readEmbeddedMetadata(file)).toEqual(METADATA);
+  });
+
+  it("writes each keyword as an IPTC 2:25 record", async () => {
+    expect(iptcKeywords((await readJpegSegments(await embed(jpeg())))!)).toEqual(['café', 'terrace', 'night', 'street', 'rain']);
+  });
+
+  it("keeps EXIF and other APP segments, and the scan data, as they were", async () => {
+    const file = await embed(jpeg());
+    const segments = (await readJpegSegments(file))!;
+    expect(segments.map(s => s.marker)).toEqual([0xe0, 0xe1, 0xe1, 0xed, 0xe2]);
+    expect(text(segments[1])).toBe(EXIF);
+    expect(text(segments[4])).toBe(ICC);
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    expect(Array.from(bytes.slice(-SCAN.length))).toEqual(Array.from(SCAN));
+  });
+
+  it("replaces the XMP and IPTC blocks when embedding again", async () => {
+    const updated = { ...METADATA, title: 'Terrace after rain', keywords: 'terrace, rain' };
+    const file = await embed(await embed(jpeg()), updated);
+    const segments = (await readJpegSegments(file))!;
+    expect(segments.filter(s => s.marker === 0xe1 && text(s).startsWith('http://ns.adobe.com/xap/'))).toHaveLength(1);
+    expect(segments.filter(s => s.marker === 0xed)).toHaveLength(1);
+    expect(iptcKeywords(segments)).toEqual(['terrace', 'rain']);
+    expect(await readEmbeddedMetadata(file)).toEqual(updated);
+  });
+});
@@ -0,0 +1,300 @@
+import { Language, Metadata } from "../types";
+
+// Reads and writes title, description and keywords embedded in JPEGs, as
+// both an XMP packet (APP1) and IPTC-IIM records inside the Photoshop APP13
+// block. Other segments, EXIF included, are copied through untouched.
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_HEADER = 'Photoshop 3.0\0';
+const IPTC_RESOURCE = 0x0404;
+// Photoshop's MD5 of the IPTC block; stale once the block is rewritten
+const IPTC_DIGEST_RESOURCE = 0x0425;
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+// Metadata segments sit before the image data, well inside this window
+const HEADER_READ_LIMIT = 1024 * 1024;
+
+const NS = {
+  x: 'adobe:ns:meta/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xml: 'http://www.w3.org/XML/1998/namespace',
+};
+
+// IIM field limits in bytes
+const IPTC_LIMITS = { title: 64, caption: 2000, keyword: 64 };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8');
+
+export interface JpegSegment {
+  marker: number;
+  // Payload without the marker and length bytes
+  data: Uint8Array;
+}
+
+export const isJpegFile = (file: File) => file.type === 'image/jpeg' || /\.jpe?g$/i.test(file.name);
+
+const startsWith = (data: Uint8Array, header: string): boolean => {
+  const bytes = encoder.encode(header);
+  return bytes.every((b, i) => data[i] === b);
+};
+
+// Splits everything before the scan data into segments; `rest` is the
+// start-of-scan segment onwards, copied verbatim on write.
+const parseJpeg = (bytes: Uint8Array): { segments: JpegSegment[]; rest: Uint8Array } => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG file');
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Corrupt JPEG segment');
+    // Markers may be preceded by any number of 0xFF fill bytes
+    if (bytes[offset + 1] === 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    segments.push({ marker, data: bytes.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+  }
+  return { segments, rest: bytes.subarray(offset) };
+};
+
+const encodeSegment = ({ marker, data }: JpegSegment): Uint8Array => {
+  if (data.length > MAX_SEGMENT_PAYLOAD) throw new Error('Metadata is too large to embed');
+  const out = new Uint8Array(data.length + 4);
+  out.set([0xff, marker, (data.length + 2) >> 8, (data.length + 2) & 0xff]);
+  out.set(data, 4);
+  return out;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    out.set(p, offset);
+    offset += p.length;
+  });
+  return out;
+};
+
+const splitKeywords = (keywords: string) => keywords.split(',').map(k => k.trim()).filter(Boolean);
+
+// Cuts on a character boundary so multi-byte UTF-8 is never split
+const truncateBytes = (value: string, limit: number): Uint8Array => {
+  let bytes = encoder.encode(value);
+  while (bytes.length > limit) {
+    value = value.slice(0, -1);
+    bytes = encoder.encode(value);
+  }
+  return bytes;
+};
+
+// --- XMP ---
+
+const emptyPacket = () => new DOMParser().parseFromString(
+  `<x:xmpmeta xmlns:x="${NS.x}"><rdf:RDF xmlns:rdf="${NS.rdf}"><rdf:Description rdf:about=""/></rdf:RDF></x:xmpmeta>`,
+  'application/xml'
+);
+
+// Translated titles and descriptions, written as extra rdf:Alt entries
+export type XmpTranslations = Partial<Record<Language, { title: string; description: string }>>;
+
+const setLangAlt = (doc: Document, parent: Element, name: string, values: [string, string][]) => {
+  const property = doc.createElementNS(NS.dc, `dc:${name}`);
+  const alt = doc.createElementNS(NS.rdf, 'rdf:Alt');
+  values.forEach(([lang, value]) => {
+    const item = doc.createElementNS(NS.rdf, 'rdf:li');
+    item.setAttributeNS(NS.xml, 'xml:lang', lang);
+    item.textContent = value;
+    alt.appendChild(item);
+  });
+  property.appendChild(alt);
+  parent.appendChild(property);
+};
+
+// Rewrites the dc fields of an existing packet so properties written by
+// other tools (ratings, camera raw settings) survive. English is x-default;
+// dc:subject has no language alternatives, so keywords stay English.
+export const buildXmpPacket = (metadata: Metadata, existing?: string, translations: XmpTranslations = {}): string => {
+  let doc = existing ? new DOMParser().parseFromString(existing.replace(/<\?xpacket[^>]*\?>/g, ''), 'application/xml') : emptyPacket();
+  if (doc.getElementsByTagName('parsererror').length > 0) doc = emptyPacket();
+
+  const descriptions = Array.from(doc.getElementsByTagNameNS(NS.rdf, 'Description'));
+  descriptions.forEach(d => ['title', 'description', 'subject'].forEach(name => {
+    d.removeAttributeNS(NS.dc, name);
+    Array.from(d.getElementsByTagNameNS(NS.dc, name)).forEach(el => el.remove());
+  }));
+  const target = descriptions[0];
+  if (!target) throw new Error('XMP packet has no rdf:Description');
+
+  (['title', 'description'] as const).forEach(field => {
+    if (!metadata[field]) return;
+    const alternatives = Object.entries(translations)
+      .filter(([, t]) => t?.[field])
+      .map(([lang, t]) => [lang, t![field]] as [string, string]);
+    // With alternatives present, x-default is repeated under its real language
+    const english: [string, string][] = alternatives.length > 0 ? [['en', metadata[field]]] : [];
+    setLangAlt(doc, target, field, [['x-default', metadata[field]], ...english, ...alternatives]);
+  });
+  const keywords = splitKeywords(metadata.keywords);
+  if (keywords.length > 0) {
+    const subject = doc.createElementNS(NS.dc, 'dc:subject');
+    const bag = doc.createElementNS(NS.rdf, 'rdf:Bag');
+    keywords.forEach(k => {
+      const item = doc.createElementNS(NS.rdf, 'rdf:li');
+      item.textContent = k;
+      bag.appendChild(item);
+    });
+    subject.appendChild(bag);
+    target.appendChild(subject);
+  }
+
+  const body = new XMLSerializer().serializeToString(doc.documentElement);
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>${body}<?xpacket end="w"?>`;
+};
+
+const readLangAlt = (doc: Document, name: string): string => {
+  const property = doc.getElementsByTagNameNS(NS.dc, name)[0];
+  if (!property) {
+    const attr = doc.getElementsByTagNameNS(NS.rdf, 'Description')[0]?.getAttributeNS(NS.dc, name);
+    return attr?.trim() || '';
+  }
+  const items = Array.from(property.getElementsByTagNameNS(NS.rdf, 'li'));
+  const preferred = items.find(li => li.getAttributeNS(NS.xml, 'lang') === 'x-default') || items[0];
+  return (preferred || property).textContent?.trim() || '';
+};
+
+const parseXmp = (packet: string): Metadata | null => {
+  const doc = new DOMParser().parseFromString(packet.replace(/<\?xpacket[^>]*\?>/g, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  const subject = doc.getElementsByTagNameNS(NS.dc, 'subject')[0];
+  const keywords = subject ? Array.from(subject.getElementsByTagNameNS(NS.rdf, 'li')).map(li => li.textContent?.trim() || '').filter(Boolean) : [];
+  return { title: readLangAlt(doc, 'title'), description: readLangAlt(doc, 'description'), keywords: keywords.join(', ') };
+};
+
+// --- IPTC-IIM ---
+
+const iptcRecord = (record: number, dataset: number, value: Uint8Array): Uint8Array =>
+  concat([new Uint8Array([0x1c, record, dataset, value.length >> 8, value.length & 0xff]), value]);
+
+export const buildIptcBlock = (metadata: Metadata): Uint8Array => concat([
+  // Coded character set: UTF-8
+  iptcRecord(1, 90, new Uint8Array([0x1b, 0x25, 0x47])),
+  iptcRecord(2, 0, new Uint8Array([0, 4])),
+  ...(metadata.title ? [iptcRecord(2, 5, truncateBytes(metadata.title, IPTC_LIMITS.title))] : []),
+  ...splitKeywords(metadata.keywords).map(k => iptcRecord(2, 25, truncateBytes(k, IPTC_LIMITS.keyword))),
+  ...(metadata.description ? [iptcRecord(2, 120, truncateBytes(metadata.description, IPTC_LIMITS.caption))] : []),
+]);
+
+const parseIptc = (block: Uint8Array): Metadata => {
+  const result: Metadata = { title: '', description: '', keywords: '' };
+  const keywords: string[] = [];
+  let offset = 0;
+  while (offset + 5 <= block.length && block[offset] === 0x1c) {
+    const [, record, dataset] = block.subarray(offset, offset + 3);
+    const size = (block[offset + 3] << 8) | block[offset + 4];
+    const value = decoder.decode(block.subarray(offset + 5, offset + 5 + size)).trim();
+    if (record === 2 && dataset === 5) result.title = value;
+    if (record === 2 && dataset === 120) result.description = value;
+    if (record === 2 && dataset === 25 && value) keywords.push(value);
+    offset += 5 + size;
+  }
+  result.keywords = keywords.join(', ');
+  return result;
+};
+
+interface PhotoshopResource {
+  id: number;
+  name: Uint8Array;
+  data: Uint8Array;
+}
+
+const parsePhotoshopResources = (payload: Uint8Array): PhotoshopResource[] => {
+  const resources: PhotoshopResource[] = [];
+  let offset = PHOTOSHOP_HEADER.length;
+  while (offset + 12 <= payload.length && startsWith(payload.subarray(offset), '8BIM')) {
+    const id = (payload[offset + 4] << 8) | payload[offset + 5];
+    const nameLength = payload[offset + 6];
+    // The Pascal name, length byte included, is padded to an even size
+    const namePadded = (nameLength + 2) & ~1;
+    const name = payload.subarray(offset + 6, offset + 6 + namePadded);
+    const sizeOffset = offset + 6 + namePadded;
+    const size = ((payload[sizeOffset] << 24) | (payload[sizeOffset + 1] << 16) | (payload[sizeOffset + 2] << 8) | payload[sizeOffset + 3]) >>> 0;
+    const data = payload.subarray(sizeOffset + 4, sizeOffset + 4 + size);
+    resources.push({ id, name, data });
+    offset = sizeOffset + 4 + size + (size % 2);
+  }
+  return resources;
+};
+
+const encodePhotoshopResources = (resources: PhotoshopResource[]): Uint8Array => concat([
+  encoder.encode(PHOTOSHOP_HEADER),
+  ...resources.map(({ id, name, data }) => {
+    const header = new Uint8Array(6 + name.length + 4);
+    header.set(encoder.encode('8BIM'));
+    header.set([id >> 8, id & 0xff], 4);
+    header.set(name, 6);
+    new DataView(header.buffer).setUint32(6 + name.length, data.length);
+    return concat([header, data, new Uint8Array(data.length % 2)]);
+  }),
+]);
+
+// --- JPEG ---
+
+const isXmpSegment = (s: JpegSegment) => s.marker === 0xe1 && startsWith(s.data, XMP_HEADER);
+const isPhotoshopSegment = (s: JpegSegment) => s.marker === 0xed && startsWith(s.data, PHOTOSHOP_HEADER);
+
+// Returns a copy of the JPEG with the metadata embedded as XMP and IPTC
+export const embedMetadata = async (file: Blob, metadata: Metadata, translations?: XmpTranslations): Promise<Blob> => {
+  const { segments, rest } = parseJpeg(new Uint8Array(await file.arrayBuffer()));
+
+  const existingXmp = segments.find(isXmpSegment);
+  const packet = buildXmpPacket(metadata, existingXmp ? decoder.decode(existingXmp.data.subarray(XMP_HEADER.length)) : undefined, translations);
+  const xmp: JpegSegment = { marker: 0xe1, data: concat([encoder.encode(XMP_HEADER), encoder.encode(packet)]) };
+
+  const existingPhotoshop = segments.find(isPhotoshopSegment);
+  const resources = (existingPhotoshop ? parsePhotoshopResources(existingPhotoshop.data) : [])
+    .filter(r => r.id !== IPTC_RESOURCE && r.id !== IPTC_DIGEST_RESOURCE);
+  resources.push({ id: IPTC_RESOURCE, name: new Uint8Array(2), data: buildIptcBlock(metadata) });
+  const photoshop: JpegSegment = { marker: 0xed, data: encodePhotoshopResources(resources) };
+
+  // JFIF (APP0) and EXIF (APP1) must stay first; the new segments follow them
+  const kept = segments.filter(s => !isXmpSegment(s) && !isPhotoshopSegment(s));
+  const insertAt = kept.findIndex(s => s.marker !== 0xe0 && !(s.marker === 0xe1 && startsWith(s.data, 'Exif\0')));
+  const position = insertAt === -1 ? kept.length : insertAt;
+  const ordered = [...kept.slice(0, position), xmp, photoshop, ...kept.slice(position)];
+
+  return new Blob([new Uint8Array([0xff, 0xd8]), ...ordered.map(encodeSegment), rest], { type: 'image/jpeg' });
+};
+
+// The header segments of a JPEG, or null for anything that does not parse as one
+export const readJpegSegments = async (file: File): Promise<JpegSegment[] | null> => {
+  if (!isJpegFile(file)) return null;
+  try {
+    return parseJpeg(new Uint8Array(await file.slice(0, HEADER_READ_LIMIT).arrayBuffer())).segments;
+  } catch {
+    return null;
+  }
+};
+
+// Metadata already embedded in a JPEG, XMP preferred over IPTC field by
+// field, or null when the file carries none.
+export const readEmbeddedMetadata = async (file: File): Promise<Metadata | null> => {
+  const segments = await readJpegSegments(file);
+  if (!segments) return null;
+
+  const xmpSegment = segments.find(isXmpSegment);
+  const xmp = xmpSegment ? parseXmp(decoder.decode(xmpSegment.data.subarray(XMP_HEADER.length))) : null;
+  const photoshop = segments.find(isPhotoshopSegment);
+  const iptcResource = photoshop ? parsePhotoshopResources(photoshop.data).find(r => r.id === IPTC_RESOURCE) : undefined;
+  const iptc = iptcResource ? parseIptc(iptcResource.data) : null;
+
+  const merged: Metadata = {
+    title: xmp?.title || iptc?.title || '',
+    description: xmp?.description || iptc?.description || '',
+    keywords: xmp?.keywords || iptc?.keywords || '',
+  };
+  return merged.title || merged.description || merged.keywords ? merged : null;
+};
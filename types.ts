@@ -5,6 +5,38 @@ export type Platform = 'Shutterstock' | 'Adobe Stock' | 'Dreamstime' | 'Teepubli
 
 export type ExportFormat = 'Simple CSV' | 'Contributor-specific CSV';
 
+// ID of a registered metadata provider (see services/providers.ts)
+export type AIEngine = string;
+
+export type ProviderKind = 'gemini' | 'openai-compatible';
+
+export interface ProviderCapabilities {
+  vision: boolean;
+  jsonMode: boolean;
+  maxImageSize: number; // longest side in pixels
+  maxImages: number;
+}
+
+export interface ProviderLimits {
+  concurrency: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface ProviderConfig {
+  id: string;
+  label: string;
+  kind: ProviderKind;
+  baseUrl?: string;
+  model: string;
+  apiKey?: string;
+  requiresKey: boolean;
+  local?: boolean; // Runs on this machine: usable offline, images never leave the device
+  builtIn?: boolean;
+  capabilities: ProviderCapabilities;
+  limits: ProviderLimits;
+}
+
 export interface Metadata {
   title: string;
   description: string;
@@ -12,6 +44,124 @@ export interface Metadata {
   mainTag?: string; // Specific for Teepublic
   category1?: string; // Specific for Shutterstock
   category2?: string; // Specific for Shutterstock
+  adobeCategory?: string; // Specific for Adobe Stock (category ID)
+  dreamstimeCategory1?: string; // Specific for Dreamstime (category ID)
+  dreamstimeCategory2?: string; // Specific for Dreamstime (category ID)
+}
+
+export type PlatformMetadata = Partial<Record<Platform, Metadata>>;
+
+export type Language = 'de' | 'es' | 'fr' | 'it' | 'pt' | 'nl' | 'pl' | 'ja' | 'ko' | 'zh';
+
+// A translated title and description. Keywords are not copied here: they are
+// mapped one by one through the shared keyword glossary so the English set
+// stays canonical.
+export interface LocalizedMetadata {
+  title: string;
+  description: string;
+  // The English text this was translated from, to spot stale translations
+  sourceTitle: string;
+  sourceDescription: string;
+}
+
+export type LocalizedPlatformMetadata = Partial<Record<Platform, Partial<Record<Language, LocalizedMetadata>>>>;
+
+// What the model saw that decides between a commercial and an editorial license
+export interface RightsAssessment {
+  people: string[]; // recognizable people, e.g. "woman in red coat"
+  logos: string[]; // visible logos, brands and trademarks
+  landmarks: string[]; // buildings, artworks or private property that need a property release
+  mature: boolean;
+  // The user's own calls, kept when the asset is regenerated
+  matureSetByUser?: boolean;
+  dismissed?: string[];
+}
+
+export type IpCategory = 'brand' | 'character' | 'celebrity' | 'logo';
+
+export interface VideoProperties {
+  duration: number; // seconds
+  width: number;
+  height: number;
+  fps?: number;
+}
+
+export interface AssetFingerprint {
+  // Identical bytes, used to flag exact duplicates
+  digest: string;
+  dHash?: string;
+  pHash?: string;
+  // dHash of each sampled keyframe, for videos
+  frames?: string[];
+}
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  altitude?: number; // metres above sea level
+}
+
+// Camera settings read from a JPEG's EXIF block
+export interface ExifData {
+  make?: string;
+  model?: string;
+  lens?: string;
+  focalLength?: number; // mm
+  fNumber?: number;
+  exposureTime?: number; // seconds
+  iso?: number;
+  // Camera-local time as "YYYY-MM-DDTHH:mm:ss"; EXIF carries no time zone
+  capturedAt?: string;
+  orientation?: number;
+  gps?: GpsPosition;
+}
+
+// Where GPS coordinates fall, from the bundled offline gazetteer
+export interface GeoLocation {
+  // Only set when the nearest listed city in the country is close enough to name
+  city?: string;
+  region?: string;
+  country: string;
+  countryCode: string;
+  distanceKm?: number; // to that city; unset when none is listed for the country
+}
+
+// A named generation prompt. `template` holds {variables} (see
+// services/promptTemplateService.ts) and platforms may replace it outright.
+export interface PromptPreset {
+  id: string;
+  name: string;
+  template: string;
+  overrides: Partial<Record<Platform, string>>;
+  builtIn?: boolean;
+}
+
+// The preset as it was when metadata was generated, so the run can be repeated
+export interface PromptUsage {
+  presetId: string;
+  presetName: string;
+  templates: Partial<Record<Platform, string>>;
+  notes?: string;
+}
+
+// An AI edit of the asset's image, kept beside the original file
+export interface FileRevision {
+  id: string;
+  file: File;
+  prompt: string;
+  createdAt: number;
+}
+
+export type VersionSource = 'original' | 'ai' | 'manual' | 'bulk' | 'import' | 'reuse' | 'restore';
+
+export interface MetadataVersion {
+  id: string;
+  at: number;
+  source: VersionSource;
+  // Provider label, for AI generations
+  engine?: string;
+  prompt?: PromptUsage;
+  metadata: PlatformMetadata;
 }
 
 export type AssetStatus = 'idle' | 'pending' | 'success' | 'error' | 'editing';
@@ -22,7 +172,60 @@ export interface Asset {
   name: string;
   type: AssetType;
   status: AssetStatus;
-  metadata: Metadata;
+  metadata: PlatformMetadata;
   error?: string;
   previewUrl?: string;
+  video?: VideoProperties;
+  rasterFile?: File; // Raster stand-in for vectors: rasterized SVG or the JPG of an EPS/AI pair
+  companionName?: string; // Paired preview submitted alongside an EPS/AI source
+  fingerprint?: AssetFingerprint;
+  exif?: ExifData;
+  location?: GeoLocation;
+  // Keeps GPS and place names out of prompts and exported files
+  stripLocation?: boolean;
+  // How the current AI metadata was prompted
+  prompt?: PromptUsage;
+  versions?: MetadataVersion[];
+  localized?: LocalizedPlatformMetadata;
+  rights?: RightsAssessment;
+  // Licensed for editorial use only; unset means commercial
+  editorial?: boolean;
+  // File names of the signed releases submitted with the asset
+  modelReleases?: string[];
+  propertyReleases?: string[];
+  // Trademark screening matches the user has cleared for this asset
+  ipOverrides?: string[];
+  revisions?: FileRevision[];
+  // Unset while the original file is the one generated against and submitted
+  currentRevisionId?: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  platform: Platform;
+  engine: AIEngine;
+  promptPresetId?: string;
+  // Free-form context available to prompt templates as {notes}
+  notes?: string;
+  archived: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface LengthRule {
+  min: number;
+  max: number;
+}
+
+export interface PlatformRules {
+  title: LengthRule;
+  description: LengthRule;
+  // `target` is what generation aims for; min/max are what the portal accepts
+  keywords: LengthRule & { target: number; singleWords: boolean };
+  forbiddenChars: string;
+  forbiddenKeywords: string[];
+  required: (keyof Metadata)[];
+  // Fields whose value must be one of the listed options when set
+  categories: Partial<Record<keyof Metadata, string[]>>;
 }
@@ -1,18 +1,84 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { build, defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import tailwindcss from 'tailwindcss';
+import autoprefixer from 'autoprefixer';
+
+// `vite build --mode extension` packages the app as the MV3 side panel.
+// Extension pages may not run inline or remote scripts, so the PWA-only and
+// CDN bits of index.html are dropped, the app entry is bundled in their
+// place and the extension files are copied alongside. Tailwind is compiled
+// from the classes used in the source instead of by the CDN script at
+// runtime. Content scripts cannot be ES modules, so contentScript.ts gets its
+// own single-file IIFE build, written next to the rest of the output.
+const chromeExtension = (): Plugin => {
+  let outDir = 'dist-extension';
+  return {
+    name: 'chrome-extension',
+    configResolved(config) {
+      outDir = config.build.outDir;
+    },
+    transformIndexHtml: {
+      order: 'pre',
+      handler: (html) => html
+        .replace(/\s*<link rel="manifest"[^>]*>/, '')
+        .replace(/\s*<script src="https:\/\/cdn\.tailwindcss\.com"><\/script>/, '\n    <link rel="stylesheet" href="/extension/tailwind.css" />')
+        .replace(/\s*<script type="importmap">[\s\S]*?<\/script>/, '')
+        .replace(/\s*<script>\s*if \('serviceWorker'[\s\S]*?<\/script>/, '')
+        .replace('</body>', '  <script type="module" src="/index.tsx"></script>\n  </body>'),
+    },
+    generateBundle() {
+      const files: Record<string, string> = {
+        'manifest.json': 'extension/manifest.json',
+        'background.js': 'background.js',
+      };
+      Object.entries(files).forEach(([fileName, source]) => {
+        this.emitFile({ type: 'asset', fileName, source: fs.readFileSync(path.resolve(__dirname, source), 'utf-8') });
+      });
+    },
+    async closeBundle() {
+      await build({
+        configFile: false,
+        logLevel: 'warn',
+        build: {
+          outDir,
+          emptyOutDir: false,
+          lib: {
+            entry: path.resolve(__dirname, 'extension/contentScript.ts'),
+            formats: ['iife'],
+            name: 'autometagenContent',
+            fileName: () => 'content_script.js',
+          },
+        },
+      });
+    },
+  };
+};
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const isExtension = mode === 'extension';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), ...(isExtension ? [chromeExtension()] : [])],
+      build: isExtension ? { outDir: 'dist-extension', emptyOutDir: true } : undefined,
+      css: isExtension ? {
+        postcss: {
+          plugins: [
+            tailwindcss({ content: ['./index.html', './index.tsx', './App.tsx', './components/**/*.tsx'] }),
+            autoprefixer(),
+          ],
+        },
+      } : undefined,
+      // The extension is distributed as a file, so no key is baked into it;
+      // the side panel keeps the user's key in chrome.storage instead
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': isExtension ? 'undefined' : JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_API_KEY': isExtension ? 'undefined' : JSON.stringify(env.GEMINI_API_KEY)
       },
       resolve: {
         alias: {